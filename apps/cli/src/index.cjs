@@ -2,13 +2,66 @@
 const path = require("node:path");
 const { randomUUID } = require("node:crypto");
 const {
+  OutputCache,
+  assetJobCosts,
+  collisionPolicies,
+  computeCacheFingerprint,
+  convertAsset,
   detectAssetType,
+  detectAssetTypeFromFile,
+  extractNativeSharedPalette,
   defaultPixelConfig,
   expandInputPaths,
-  isSupportedAssetPath
+  findInputRoot,
+  formatHexColor,
+  isAssetType,
+  isCollisionPolicy,
+  isPalettePresetName,
+  isSpritesheetFormat,
+  isSupportedAssetPath,
+  isVideoCodecSupported,
+  loadProjectConfig,
+  maxVideoCrf,
+  outputPipelineVersion,
+  paletteFileExtensions,
+  palettePresets,
+  parseHexColor,
+  pixelErrorHints,
+  removePartialOutputs,
+  resolveAutoVideoCodec,
+  resolvePaletteSource,
+  resolveProjectJob,
+  resolveSequenceMember,
+  spritesheetFormats,
+  toPixelError
 } = require("@pixel/core");
-const { convertAssetWithFfmpeg } = require("@pixel/ffmpeg");
-const { JobQueue } = require("@pixel/queue");
+const { convertAssetWithFfmpeg, extractSharedPalette, probeFfmpegVersion } = require("@pixel/ffmpeg");
+const { JobQueue, QueueJournal } = require("@pixel/queue");
+
+// Unfinished jobs of the last run, kept in the output folder next to the cache manifest.
+const queueJournalName = ".pixel-queue.json";
+
+// ffmpeg prints progress several times a second, so two silent minutes means it hung (e.g. on a corrupt file).
+const defaultStallTimeoutSeconds = 120;
+
+// Exit status per error code, so scripts can tell failures apart. Runs whose failures differ in kind exit with 1.
+const errorExitCodes = {
+  unknown: 1,
+  "ffmpeg-missing": 3,
+  "unsupported-codec": 4,
+  "corrupt-input": 5,
+  "disk-full": 6,
+  "permission-denied": 7,
+  timeout: 8
+};
+
+function exitCodeForErrors(codes) {
+  const unique = [...new Set(codes)];
+  if (unique.length === 0) {
+    return 0;
+  }
+  return unique.length === 1 ? errorExitCodes[unique[0]] ?? 1 : 1;
+}
 
 function printUsage() {
   console.log(`Usage:
@@ -18,23 +71,88 @@ Examples:
   pixel-cli ./assets/hero.png --out ./outputs
   pixel-cli ./assets ./clips/intro.mp4 --concurrency 2 --grid 16 --scale 4 --format png
   pixel-cli ./assets --watch --out ./outputs
+  pixel-cli --resume --out ./outputs
 
 Options:
   -o, --out <dir>            Output directory (default: ./outputs)
+  --config <file>            pixel.config.json/.yaml with defaults, presets and per-folder rules;
+                             command-line options override it
+  --preset <name>            Use a named preset from the --config file (or an exported desktop presets file)
+  --name <template>          Output file name relative to --out (default: {name}_pixel.{ext});
+                             tokens: {name} {ext} {grid} {palette} {date} {relDir}
+  --mirror                   Recreate the input folder structure under --out
+  --on-collision <overwrite|skip|suffix>
+                             When the output exists: replace it, keep it, or write <name>_2 (default: overwrite)
   --concurrency <n>          Parallel jobs (default: 2)
-  --grid <n>                 Pixel grid size
+  --budget <n>               Total cost of jobs running at once, where images cost 1, animations and sequences 2
+                             and videos 3 (default: 2 x concurrency)
+  --max-per-type <type=n[,type=n]>
+                             Most jobs of a type running at once, e.g. video=1 (types: image, svg, animation,
+                             sequence, video)
+  --retries <n>              Retry failed jobs up to n times, waiting 1s, 2s, 4s, ... in between (default: 0)
+  --timeout <seconds>        Stop a job that runs longer than this (default: 0, no limit)
+  --stall-timeout <seconds>  Stop ffmpeg when it prints no progress for this long (default: 120; 0 turns it off)
+  --retry-timeouts           Let --retries also retry jobs that timed out or stalled
+  --engine <ffmpeg|native>   Conversion backend (default: ffmpeg; native handles PNG images only)
+  --ffmpeg <path>            ffmpeg executable to run (default: ffmpeg on the PATH)
+  --ffprobe <path>           ffprobe executable to run (default: ffprobe on the PATH)
+  --grid <n|auto>            Pixel grid size (cell size, or output cells with --grid-mode width|height);
+                             auto detects the scale and offset of upscaled pixel art
+  --grid-mode <cell|width|height>  Read --grid as source pixels per cell, or as the output width/height in cells
+  --grid-offset <x[,y]>      Source pixels skipped before the first cell, to align with drawn pixel art
+  --downsample <nearest|area|mode|edge>  Cell reduction; mode keeps the most common color, edge keeps outlines crisp
   --palette <n>              Palette size
+  --quantizer <median-cut|kmeans>  Palette quantizer (native engine)
+  --palette-file <path>      Lock output to a .hex, .gpl, .pal (JASC) or .ase palette
+  --palette-preset <name>    Lock output to a built-in palette (${Object.keys(palettePresets).join("|")})
+  --shared-palette           Extract one palette from all inputs and apply it to every job
+  --export-palette           Write the used palette as .gpl/.hex/.pal + swatch PNG
   --dither <none|bayer|floyd>
-  --trim                     Enable trim
+  --palette-mode <single-pass|two-pass|per-scene>
+                             How video palettes are built (default: single-pass)
+  --scene-threshold <0-1>    Scene-change score that starts a new palette in per-scene mode (default: 0.3)
+  --stable-dither            Only re-dither changed regions between video frames to stop flicker
+  --trim                     Trim to visible pixels (writes <name>_trim.json offsets)
+  --trim-padding <n>         Transparent margin kept around trimmed sprites, in grid cells
   --outline                  Enable outline
+  --outline-color <hex>      Outline color (default: #000000)
+  --outline-placement <outer|inner>
+  --outline-connectivity <4|8>
   --scale <n>                Upscale factor
   --alpha-threshold <0-255>  Alpha cutoff threshold
   --fps <n>                  FPS for video output
-  --format <png|svg|mp4|webm>
-  --spritesheet              Export video spritesheet + metadata
-  --alpha-mask               Export video alpha mask
+  --start <time>             Convert a video/animation from this time (seconds or [hh:]mm:ss.ms)
+  --end <time>               Stop at this time (default: end of input)
+  --duration <time>          Convert this much after --start instead of giving --end
+  --frame-range <start[:count]>  Convert output frames start..start+count-1 at --fps instead of a time range
+  --format <png|svg|mp4|webm|mov|gif|apng|webp|frames>
+                             webm/mov keep transparency; gif/apng/webp are animated outputs;
+                             frames writes one PNG per frame to <name>_frames/
+  --loop <n>                 Times gif/apng/webp outputs play (default: 0 = forever)
+  --video-codec <auto|h264|vp9|av1>
+                             mp4/webm encoder (default: auto = h264 for mp4, vp9 for webm)
+  --crf <n>                  Constant quality for mp4/webm, 0-51 for h264 and 0-63 for vp9/av1 (default: codec default)
+  --bitrate <kbps>           Target video bitrate instead of constant quality
+  --lossless                 Lossless mp4/webm encode
+  --audio <none|copy|encode> Keep the source audio in mp4/webm/mov outputs (default: none)
+  --audio-bitrate <kbps>     Bitrate for --audio encode (default: 160)
+  --spritesheet              Export spritesheet + metadata for videos and animated GIF/WebP
+  --sheet-columns <n>        Spritesheet columns (default: auto)
+  --sheet-rows <n>           Spritesheet rows (default: auto)
+  --sheet-padding <n>        Transparent gap between spritesheet frames, in pixels
+  --sheet-extrude <n>        Repeat frame edge pixels outward, in pixels
+  --sheet-frames <start[:count]>  Frame range to pack (default: every frame at --fps)
+  --sheet-format <list>      Comma-separated ${spritesheetFormats.join("|")} (default: texturepacker-hash)
+  --alpha-mask               Export a grayscale alpha mask next to video/animation outputs
   --watch                    Watch inputs and auto-convert changes
+  --force                    Reconvert inputs even when their outputs are up to date
+  --resume                   Also convert the jobs an interrupted run into --out left unfinished
+                             (inputs are optional; pass the same options as that run)
   -h, --help                 Show this help
+
+Exit status:
+  0 all jobs done or skipped, 1 invalid options, other errors, or failures of more than one kind
+  3 ffmpeg missing, 4 unsupported format or codec, 5 corrupt input, 6 disk full, 7 permission denied, 8 timed out
 `);
 }
 
@@ -46,13 +164,38 @@ function parseNumberFlag(value, flagName) {
   return parsed;
 }
 
+function parseTimeFlag(value, flagName) {
+  const match = value?.match(/^(?:(?:(\d+):)?(\d+):)?(\d+(?:\.\d+)?)$/);
+  if (!match) {
+    throw new Error(`${flagName} must be seconds or [hh:]mm:ss(.ms), got: ${value}`);
+  }
+  const [, hours = "0", minutes = "0", seconds] = match;
+  return Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds);
+}
+
 function parseArgs(argv) {
   const inputs = [];
   let outputDir = path.resolve(process.cwd(), "outputs");
   let concurrency = 2;
+  let retries = 0;
+  let timeoutSeconds = 0;
+  let stallTimeoutSeconds = defaultStallTimeoutSeconds;
+  let retryTimeouts = false;
+  let budget = null;
+  const typeLimits = {};
+  let engine = "ffmpeg";
+  let ffmpegBin;
+  let ffprobeBin;
   const configPatch = {};
   let help = false;
   let watch = false;
+  let force = false;
+  let resume = false;
+  let configFile = null;
+  let preset;
+  let sharedPalette = false;
+  const rateControls = new Set();
+  const range = {};
 
   for (let i = 0; i < argv.length; i += 1) {
     const arg = argv[i];
@@ -67,6 +210,16 @@ function parseArgs(argv) {
       continue;
     }
 
+    if (arg === "--force") {
+      force = true;
+      continue;
+    }
+
+    if (arg === "--resume") {
+      resume = true;
+      continue;
+    }
+
     if (arg === "-o" || arg === "--out") {
       const value = argv[i + 1];
       if (!value) {
@@ -77,6 +230,51 @@ function parseArgs(argv) {
       continue;
     }
 
+    if (arg === "--config") {
+      const value = argv[i + 1];
+      if (!value) {
+        throw new Error(`${arg} requires a value`);
+      }
+      configFile = path.resolve(value);
+      i += 1;
+      continue;
+    }
+
+    if (arg === "--preset") {
+      const value = argv[i + 1];
+      if (!value) {
+        throw new Error(`${arg} requires a value`);
+      }
+      preset = value;
+      i += 1;
+      continue;
+    }
+
+    if (arg === "--name") {
+      const value = argv[i + 1];
+      if (!value) {
+        throw new Error(`${arg} requires a value`);
+      }
+      configPatch.outputTemplate = value;
+      i += 1;
+      continue;
+    }
+
+    if (arg === "--mirror") {
+      configPatch.mirrorInputTree = true;
+      continue;
+    }
+
+    if (arg === "--on-collision") {
+      const value = argv[i + 1];
+      if (!value || !isCollisionPolicy(value)) {
+        throw new Error(`${arg} must be one of ${collisionPolicies.join("|")}`);
+      }
+      configPatch.outputCollision = value;
+      i += 1;
+      continue;
+    }
+
     if (arg === "--concurrency") {
       const value = argv[i + 1];
       if (!value) {
@@ -87,12 +285,137 @@ function parseArgs(argv) {
       continue;
     }
 
+    if (arg === "--budget") {
+      const value = argv[i + 1];
+      if (!value) {
+        throw new Error(`${arg} requires a value`);
+      }
+      budget = Math.max(1, parseNumberFlag(value, arg));
+      i += 1;
+      continue;
+    }
+
+    if (arg === "--max-per-type") {
+      const value = argv[i + 1];
+      if (!value) {
+        throw new Error(`${arg} requires a value`);
+      }
+      for (const entry of value.split(",")) {
+        const [type, limit] = entry.split("=").map((part) => part.trim());
+        if (!isAssetType(type) || limit === undefined) {
+          throw new Error(`${arg} entries must look like video=1 with a type of ${Object.keys(assetJobCosts).join("|")}`);
+        }
+        typeLimits[type] = Math.max(1, Math.floor(parseNumberFlag(limit, arg)));
+      }
+      i += 1;
+      continue;
+    }
+
+    if (arg === "--retries") {
+      const value = argv[i + 1];
+      if (!value) {
+        throw new Error(`${arg} requires a value`);
+      }
+      retries = Math.max(0, Math.floor(parseNumberFlag(value, arg)));
+      i += 1;
+      continue;
+    }
+
+    if (arg === "--timeout" || arg === "--stall-timeout") {
+      const value = argv[i + 1];
+      if (!value) {
+        throw new Error(`${arg} requires a value`);
+      }
+      const seconds = Math.max(0, parseNumberFlag(value, arg));
+      if (arg === "--timeout") {
+        timeoutSeconds = seconds;
+      } else {
+        stallTimeoutSeconds = seconds;
+      }
+      i += 1;
+      continue;
+    }
+
+    if (arg === "--retry-timeouts") {
+      retryTimeouts = true;
+      continue;
+    }
+
+    if (arg === "--engine") {
+      const value = argv[i + 1];
+      if (!value || !["ffmpeg", "native"].includes(value)) {
+        throw new Error(`${arg} must be one of ffmpeg|native`);
+      }
+      engine = value;
+      i += 1;
+      continue;
+    }
+
+    if (arg === "--ffmpeg" || arg === "--ffprobe") {
+      const value = argv[i + 1];
+      if (!value) {
+        throw new Error(`${arg} requires a value`);
+      }
+      if (arg === "--ffmpeg") {
+        ffmpegBin = value;
+      } else {
+        ffprobeBin = value;
+      }
+      i += 1;
+      continue;
+    }
+
+    if (arg === "--downsample") {
+      const value = argv[i + 1];
+      if (!value || !["nearest", "area", "mode", "edge"].includes(value)) {
+        throw new Error(`${arg} must be one of nearest|area|mode|edge`);
+      }
+      configPatch.downsample = value;
+      i += 1;
+      continue;
+    }
+
+    if (arg === "--grid-mode") {
+      const value = argv[i + 1];
+      if (!value || !["cell", "width", "height"].includes(value)) {
+        throw new Error(`${arg} must be one of cell|width|height`);
+      }
+      configPatch.gridMode = value;
+      i += 1;
+      continue;
+    }
+
+    if (arg === "--grid-offset") {
+      const value = argv[i + 1];
+      if (!value) {
+        throw new Error(`${arg} requires a value`);
+      }
+      const [x, y = x] = value.split(",").map((part) => Math.floor(parseNumberFlag(part.trim(), arg)));
+      if (x < 0 || y < 0) {
+        throw new Error(`${arg} must not be negative`);
+      }
+      configPatch.gridOffsetX = x;
+      configPatch.gridOffsetY = y;
+      i += 1;
+      continue;
+    }
+
+    if (arg === "--quantizer") {
+      const value = argv[i + 1];
+      if (!value || !["median-cut", "kmeans"].includes(value)) {
+        throw new Error(`${arg} must be one of median-cut|kmeans`);
+      }
+      configPatch.quantizer = value;
+      i += 1;
+      continue;
+    }
+
     if (arg === "--grid") {
       const value = argv[i + 1];
       if (!value) {
         throw new Error(`${arg} requires a value`);
       }
-      configPatch.grid = Math.max(1, Math.floor(parseNumberFlag(value, arg)));
+      configPatch.grid = value === "auto" ? "auto" : Math.max(1, Math.floor(parseNumberFlag(value, arg)));
       i += 1;
       continue;
     }
@@ -107,6 +430,39 @@ function parseArgs(argv) {
       continue;
     }
 
+    if (arg === "--palette-file") {
+      const value = argv[i + 1];
+      if (!value) {
+        throw new Error(`${arg} requires a value`);
+      }
+      if (!paletteFileExtensions.has(path.extname(value).toLowerCase())) {
+        throw new Error(`${arg} must point to a .hex, .gpl, .pal or .ase file`);
+      }
+      configPatch.paletteSource = { type: "file", path: path.resolve(value) };
+      i += 1;
+      continue;
+    }
+
+    if (arg === "--palette-preset") {
+      const value = argv[i + 1];
+      if (!value || !isPalettePresetName(value)) {
+        throw new Error(`${arg} must be one of ${Object.keys(palettePresets).join("|")}`);
+      }
+      configPatch.paletteSource = { type: "preset", preset: value };
+      i += 1;
+      continue;
+    }
+
+    if (arg === "--shared-palette") {
+      sharedPalette = true;
+      continue;
+    }
+
+    if (arg === "--export-palette") {
+      configPatch.exportPalette = true;
+      continue;
+    }
+
     if (arg === "--dither") {
       const value = argv[i + 1];
       if (!value || !["none", "bayer", "floyd"].includes(value)) {
@@ -117,6 +473,35 @@ function parseArgs(argv) {
       continue;
     }
 
+    if (arg === "--palette-mode") {
+      const value = argv[i + 1];
+      if (!value || !["single-pass", "two-pass", "per-scene"].includes(value)) {
+        throw new Error(`${arg} must be one of single-pass|two-pass|per-scene`);
+      }
+      configPatch.videoPaletteMode = value;
+      i += 1;
+      continue;
+    }
+
+    if (arg === "--scene-threshold") {
+      const value = argv[i + 1];
+      if (!value) {
+        throw new Error(`${arg} requires a value`);
+      }
+      const threshold = parseNumberFlag(value, arg);
+      if (threshold <= 0 || threshold > 1) {
+        throw new Error(`${arg} must be greater than 0 and at most 1`);
+      }
+      configPatch.sceneThreshold = threshold;
+      i += 1;
+      continue;
+    }
+
+    if (arg === "--stable-dither") {
+      configPatch.stableDither = true;
+      continue;
+    }
+
     if (arg === "--scale") {
       const value = argv[i + 1];
       if (!value) {
@@ -137,6 +522,26 @@ function parseArgs(argv) {
       continue;
     }
 
+    if (arg === "--loop") {
+      const value = argv[i + 1];
+      if (!value) {
+        throw new Error(`${arg} requires a value`);
+      }
+      configPatch.loopCount = Math.max(0, Math.floor(parseNumberFlag(value, arg)));
+      i += 1;
+      continue;
+    }
+
+    if (arg === "--trim-padding") {
+      const value = argv[i + 1];
+      if (!value) {
+        throw new Error(`${arg} requires a value`);
+      }
+      configPatch.trimPadding = Math.max(0, Math.floor(parseNumberFlag(value, arg)));
+      i += 1;
+      continue;
+    }
+
     if (arg === "--alpha-threshold") {
       const value = argv[i + 1];
       if (!value) {
@@ -147,16 +552,120 @@ function parseArgs(argv) {
       continue;
     }
 
+    if (arg === "--start" || arg === "--end" || arg === "--duration") {
+      range[arg.slice(2)] = parseTimeFlag(argv[i + 1], arg);
+      i += 1;
+      continue;
+    }
+
+    if (arg === "--frame-range") {
+      const value = argv[i + 1];
+      const match = value?.match(/^(\d+)(?::(\d+))?$/);
+      if (!match || match[2] === "0") {
+        throw new Error(`${arg} must look like <start> or <start>:<count> with count >= 1`);
+      }
+      range.frames = { start: Number(match[1]), count: match[2] ? Number(match[2]) : 0 };
+      i += 1;
+      continue;
+    }
+
     if (arg === "--format") {
       const value = argv[i + 1];
-      if (!value || !["png", "svg", "mp4", "webm"].includes(value)) {
-        throw new Error(`${arg} must be one of png|svg|mp4|webm`);
+      if (!value || !["png", "svg", "mp4", "webm", "mov", "gif", "apng", "webp", "frames"].includes(value)) {
+        throw new Error(`${arg} must be one of png|svg|mp4|webm|mov|gif|apng|webp|frames`);
       }
       configPatch.outputFormat = value;
       i += 1;
       continue;
     }
 
+    if (arg === "--video-codec") {
+      const value = argv[i + 1];
+      if (!value || !["auto", "h264", "vp9", "av1"].includes(value)) {
+        throw new Error(`${arg} must be one of auto|h264|vp9|av1`);
+      }
+      configPatch.videoCodec = value;
+      i += 1;
+      continue;
+    }
+
+    if (arg === "--crf" || arg === "--bitrate") {
+      const value = argv[i + 1];
+      if (!value) {
+        throw new Error(`${arg} requires a value`);
+      }
+      const parsed = Math.floor(parseNumberFlag(value, arg));
+      if (arg === "--crf" ? parsed < 0 || parsed > 63 : parsed < 1) {
+        throw new Error(arg === "--crf" ? `${arg} must be between 0 and 63` : `${arg} must be at least 1`);
+      }
+      rateControls.add(arg);
+      if (arg === "--crf") {
+        configPatch.videoRateControl = "crf";
+        configPatch.videoCrf = parsed;
+      } else {
+        configPatch.videoRateControl = "bitrate";
+        configPatch.videoBitrateKbps = parsed;
+      }
+      i += 1;
+      continue;
+    }
+
+    if (arg === "--lossless") {
+      rateControls.add(arg);
+      configPatch.videoRateControl = "lossless";
+      continue;
+    }
+
+    if (arg === "--audio") {
+      const value = argv[i + 1];
+      if (!value || !["none", "copy", "encode"].includes(value)) {
+        throw new Error(`${arg} must be one of none|copy|encode`);
+      }
+      configPatch.audio = value;
+      i += 1;
+      continue;
+    }
+
+    if (arg === "--audio-bitrate") {
+      const value = argv[i + 1];
+      if (!value) {
+        throw new Error(`${arg} requires a value`);
+      }
+      configPatch.audioBitrateKbps = Math.max(8, Math.floor(parseNumberFlag(value, arg)));
+      i += 1;
+      continue;
+    }
+
+    if (arg === "--outline-color") {
+      const value = argv[i + 1];
+      if (!value || !parseHexColor(value)) {
+        throw new Error(`${arg} must be a hex color like #000000`);
+      }
+      configPatch.outlineColor = value;
+      i += 1;
+      continue;
+    }
+
+    if (arg === "--outline-placement") {
+      const value = argv[i + 1];
+      if (!value || !["outer", "inner"].includes(value)) {
+        throw new Error(`${arg} must be one of outer|inner`);
+      }
+      configPatch.outlinePlacement = value;
+      i += 1;
+      continue;
+    }
+
+    if (arg === "--outline-connectivity") {
+      const value = argv[i + 1];
+      if (!value || !["4", "8"].includes(value)) {
+        throw new Error(`${arg} must be one of 4|8`);
+      }
+      configPatch.outlineConnectivity = Number(value);
+      i += 1;
+      continue;
+    }
+
     if (arg === "--trim") {
       configPatch.trim = true;
       continue;
@@ -172,6 +681,45 @@ function parseArgs(argv) {
       continue;
     }
 
+    if (["--sheet-columns", "--sheet-rows", "--sheet-padding", "--sheet-extrude"].includes(arg)) {
+      const value = argv[i + 1];
+      if (!value) {
+        throw new Error(`${arg} requires a value`);
+      }
+      const key = {
+        "--sheet-columns": "spritesheetColumns",
+        "--sheet-rows": "spritesheetRows",
+        "--sheet-padding": "spritesheetPadding",
+        "--sheet-extrude": "spritesheetExtrude"
+      }[arg];
+      configPatch[key] = Math.max(0, Math.floor(parseNumberFlag(value, arg)));
+      i += 1;
+      continue;
+    }
+
+    if (arg === "--sheet-frames") {
+      const value = argv[i + 1];
+      const match = value?.match(/^(\d+)(?::(\d+))?$/);
+      if (!match) {
+        throw new Error(`${arg} must look like <start> or <start>:<count>`);
+      }
+      configPatch.spritesheetFrameStart = Number(match[1]);
+      configPatch.spritesheetFrameCount = match[2] ? Number(match[2]) : 0;
+      i += 1;
+      continue;
+    }
+
+    if (arg === "--sheet-format") {
+      const value = argv[i + 1];
+      const formats = value ? value.split(",").map((entry) => entry.trim()) : [];
+      if (formats.length === 0 || !formats.every(isSpritesheetFormat)) {
+        throw new Error(`${arg} must be a comma-separated list of ${spritesheetFormats.join("|")}`);
+      }
+      configPatch.spritesheetFormats = formats;
+      i += 1;
+      continue;
+    }
+
     if (arg === "--alpha-mask") {
       configPatch.alphaMask = true;
       continue;
@@ -184,38 +732,169 @@ function parseArgs(argv) {
     inputs.push(path.resolve(arg));
   }
 
+  if (preset !== undefined && !configFile) {
+    throw new Error("--preset requires --config <file> with a presets section");
+  }
+
+  if (sharedPalette && configPatch.paletteSource) {
+    throw new Error("--shared-palette cannot be combined with --palette-file or --palette-preset");
+  }
+
+  if (range.frames && (range.start !== undefined || range.end !== undefined || range.duration !== undefined)) {
+    throw new Error("--frame-range cannot be combined with --start, --end or --duration");
+  }
+  if (range.end !== undefined && range.duration !== undefined) {
+    throw new Error("--end and --duration cannot be combined");
+  }
+  if (range.frames) {
+    configPatch.rangeUnit = "frames";
+    configPatch.rangeStart = range.frames.start;
+    configPatch.rangeEnd = range.frames.count > 0 ? range.frames.start + range.frames.count : 0;
+  } else if (range.start !== undefined || range.end !== undefined || range.duration !== undefined) {
+    const start = range.start ?? 0;
+    const end = range.duration !== undefined ? start + range.duration : range.end ?? 0;
+    if (end > 0 && end <= start) {
+      throw new Error("--end must be after --start, and --duration must be positive");
+    }
+    configPatch.rangeUnit = "seconds";
+    configPatch.rangeStart = start;
+    configPatch.rangeEnd = end;
+  }
+
+  if (rateControls.size > 1) {
+    throw new Error(`${[...rateControls].join(", ")} cannot be combined; pick one rate control`);
+  }
+
+  const outputFormat = configPatch.outputFormat ?? defaultPixelConfig.outputFormat;
+  if (configPatch.videoCodec && !isVideoCodecSupported(outputFormat, configPatch.videoCodec)) {
+    throw new Error(`--video-codec ${configPatch.videoCodec} cannot be written to ${outputFormat}`);
+  }
+  if (configPatch.videoCrf !== undefined) {
+    const codec = resolveAutoVideoCodec(outputFormat, configPatch.videoCodec ?? "auto");
+    if (configPatch.videoCrf > maxVideoCrf[codec]) {
+      throw new Error(`--crf must be between 0 and ${maxVideoCrf[codec]} for ${codec} video`);
+    }
+  }
+
   return {
     help,
     watch,
+    force,
+    resume,
+    sharedPalette,
     inputs,
     outputDir,
     concurrency,
-    config: {
-      ...defaultPixelConfig,
-      ...configPatch
-    }
+    budget: budget ?? concurrency * 2,
+    typeLimits,
+    retries,
+    timeoutMs: timeoutSeconds * 1000,
+    stallTimeoutMs: stallTimeoutSeconds * 1000,
+    retryTimeouts,
+    engine,
+    ffmpegBin,
+    ffprobeBin,
+    configFile,
+    preset,
+    project: null,
+    configPatch
+  };
+}
+
+// Effective settings for one input: built-in defaults, then the config file's defaults, the --preset and matching
+// rules, then command-line options.
+function resolveJobSettings(options, inputPath) {
+  const projectJob = options.project
+    ? resolveProjectJob(options.project, inputPath, options.preset)
+    : { config: {}, outputSubdir: "" };
+  return {
+    config: { ...defaultPixelConfig, ...projectJob.config, ...options.configPatch },
+    outputDir: path.join(options.outputDir, projectJob.outputSubdir)
   };
 }
 
-function createBatchRunner(options) {
+// Part of every cache fingerprint: the engine release, the output pipeline and, for the ffmpeg engine, the ffmpeg build,
+// since upgrading ffmpeg can change what its encoders write.
+async function resolveEngineVersion(options) {
+  const enginePackage = options.engine === "native" ? "@pixel/core" : "@pixel/ffmpeg";
+  const engineVersion = `${options.engine}@${require(`${enginePackage}/package.json`).version}+pipeline.${outputPipelineVersion}`;
+  if (options.engine === "native") {
+    return engineVersion;
+  }
+  // Without a working ffmpeg every job fails before anything is cached.
+  const ffmpegVersion = await probeFfmpegVersion({ ffmpegBin: options.ffmpegBin }).catch(() => "ffmpeg unavailable");
+  return `${engineVersion} (${ffmpegVersion})`;
+}
+
+// Extensions alone can't tell an animated GIF/WebP from a still one.
+async function resolveType(inputPath, type) {
+  return type === "image" ? await detectAssetTypeFromFile(inputPath) : type;
+}
+
+function createBatchRunner(options, journal) {
   const progressByJob = new Map();
   const filesById = new Map();
   const activeByPath = new Set();
   const idleResolvers = [];
 
   let doneCount = 0;
+  let skippedCount = 0;
   let errorCount = 0;
+  const errorCodes = [];
+
+  const convert = options.engine === "native" ? convertAsset : convertAssetWithFfmpeg;
+  const engineVersionPromise = resolveEngineVersion(options);
+  const cachePromise = OutputCache.load(options.outputDir);
+  const fingerprintOf = async (inputPath, type, settings) =>
+    computeCacheFingerprint({ inputPath, type, ...settings, engineVersion: await engineVersionPromise });
 
-  const queue = new JobQueue(async ({ payload, reportProgress, signal }) => {
-    return convertAssetWithFfmpeg({
+  const convertJob = async ({ id, payload, reportProgress, reportSkipped, signal }) => {
+    const type = await resolveType(payload.inputPath, payload.type);
+    // Entries journaled before settings were recorded fall back to this run's options.
+    const settings = payload.settings ?? resolveJobSettings(options, payload.inputPath);
+    const cache = await cachePromise;
+    const fingerprint = await fingerprintOf(payload.inputPath, type, settings);
+
+    const cached = options.force ? null : await cache.lookup(payload.inputPath, fingerprint);
+    if (cached) {
+      reportSkipped();
+      return cached;
+    }
+
+    const result = await convert({
       inputPath: payload.inputPath,
-      type: payload.type,
-      config: options.config,
-      outputDir: options.outputDir,
+      inputRoot: payload.inputRoot,
+      type,
+      config: settings.config,
+      outputDir: settings.outputDir,
       signal,
-      onProgress: reportProgress
+      ffmpegBin: options.ffmpegBin,
+      ffprobeBin: options.ffprobeBin,
+      stallTimeoutMs: options.stallTimeoutMs,
+      onProgress: reportProgress,
+      onOutputPlanned: (plan) => {
+        journal.setMeta(id, plan).catch(reportJournalError);
+      }
     });
-  }, options.concurrency);
+    if (result.skipped) {
+      reportSkipped();
+    } else {
+      await cache.record(payload.inputPath, fingerprint, result);
+    }
+    return result;
+  };
+  // Failures outside the engines (unreadable inputs, cache writes) get an error code too.
+  const queue = new JobQueue(
+    (context) => convertJob(context).catch((error) => Promise.reject(toPixelError(error))),
+    options.concurrency,
+    {
+      retry: { retries: options.retries, retryTimeouts: options.retryTimeouts },
+      budget: options.budget,
+      kindLimits: options.typeLimits,
+      timeoutMs: options.timeoutMs
+    }
+  );
+  journal.attach(queue);
 
   function settleIdleIfNeeded() {
     if (activeByPath.size !== 0) {
@@ -250,7 +929,15 @@ function createBatchRunner(options) {
       return;
     }
 
-    if (event.type === "done" || event.type === "error" || event.type === "canceled") {
+    if (event.type === "retrying") {
+      progressByJob.delete(event.jobId);
+      console.log(
+        `[retry] ${trackedFile ? trackedFile.inputPath : event.jobId}: ${event.message} (attempt ${event.attempt} in ${event.delayMs / 1000}s)`
+      );
+      return;
+    }
+
+    if (event.type === "done" || event.type === "skipped" || event.type === "error" || event.type === "canceled") {
       if (trackedFile) {
         activeByPath.delete(trackedFile.inputPath);
         filesById.delete(event.jobId);
@@ -264,9 +951,21 @@ function createBatchRunner(options) {
       return;
     }
 
+    if (event.type === "skipped") {
+      skippedCount += 1;
+      console.log(`[skip] ${event.result.primaryPath}`);
+      settleIdleIfNeeded();
+      return;
+    }
+
     if (event.type === "error") {
       errorCount += 1;
-      console.error(`[error] ${trackedFile ? trackedFile.inputPath : event.jobId}: ${event.message}`);
+      errorCodes.push(event.code);
+      const label = event.code === "unknown" ? "error" : event.code;
+      console.error(`[${label}] ${trackedFile ? trackedFile.inputPath : event.jobId}: ${event.message}`);
+      if (pixelErrorHints[event.code] && event.code !== "unknown") {
+        console.error(`  ${pixelErrorHints[event.code]}`);
+      }
       settleIdleIfNeeded();
       return;
     }
@@ -282,7 +981,23 @@ function createBatchRunner(options) {
   });
 
   return {
-    enqueuePaths(inputPaths) {
+    // True when the input's content and the config still match its cached outputs (a touch-only change).
+    async isUpToDate(inputPath) {
+      if (options.force || !isSupportedAssetPath(inputPath)) {
+        return false;
+      }
+      try {
+        const type = await resolveType(inputPath, detectAssetType(inputPath));
+        const fingerprint = await fingerprintOf(inputPath, type, resolveJobSettings(options, inputPath));
+        const cache = await cachePromise;
+        return (await cache.lookup(inputPath, fingerprint)) !== null;
+      } catch {
+        return false;
+      }
+    },
+
+    // `resumedByPath` maps inputs resumed from the journal to the payloads they were first queued with.
+    enqueuePaths(inputPaths, resumedByPath = new Map()) {
       const items = [];
 
       for (const inputPath of inputPaths) {
@@ -306,19 +1021,32 @@ function createBatchRunner(options) {
         return 0;
       }
 
-      queue.enqueue(
-        items.map((item) => ({
+      const queueItems = items.map((item) => {
+        const resumed = resumedByPath.get(item.inputPath);
+        return {
           id: item.id,
           payload: {
             inputPath: item.inputPath,
-            type: item.type
-          }
-        }))
-      );
+            inputRoot: resumed ? resumed.inputRoot : findInputRoot(item.inputPath, options.inputs),
+            type: item.type,
+            // Journaled with the job, so --resume converts it with the options it was started with.
+            settings: resumed?.settings ?? resolveJobSettings(options, item.inputPath)
+          },
+          // By extension: an animated GIF or WebP is still priced as an image here.
+          cost: assetJobCosts[item.type],
+          kind: item.type
+        };
+      });
+      journal.add(queueItems).catch(reportJournalError);
+      queue.enqueue(queueItems);
 
       return items.length;
     },
 
+    flush() {
+      return journal.flush().catch(reportJournalError);
+    },
+
     waitForIdle() {
       if (activeByPath.size === 0) {
         return Promise.resolve();
@@ -332,13 +1060,37 @@ function createBatchRunner(options) {
     getSummary() {
       return {
         doneCount,
+        skippedCount,
         errorCount,
+        errorCodes,
         activeCount: activeByPath.size
       };
     }
   };
 }
 
+function reportJournalError(error) {
+  console.error(`[journal:error] ${error instanceof Error ? error.message : String(error)}`);
+}
+
+// Removes the half-written outputs of jobs a previous run was cut off in, then returns every job it left unfinished.
+// Those stay in the journal (now as queued) until a --resume run picks them up. Jobs of another run into the same
+// folder that is still going are not touched.
+async function recoverInterruptedJobs(journal) {
+  for (const entry of journal.interrupted()) {
+    if (!entry.meta || !entry.startedAt) {
+      continue;
+    }
+    for (const removedPath of await removePartialOutputs(entry.meta, entry.startedAt)) {
+      console.log(`[cleanup] removed partial output ${removedPath}`);
+    }
+  }
+  const pending = journal.pending();
+  // Re-adding resets the interrupted entries, so their cleanup never runs against a later run's outputs.
+  await journal.add(pending);
+  return pending;
+}
+
 async function startWatchMode(options, runner) {
   const chokidar = require("chokidar");
 
@@ -352,8 +1104,12 @@ async function startWatchMode(options, runner) {
     }
   });
 
-  const queueChangedPath = (changedPath) => {
-    const resolved = path.resolve(changedPath);
+  const queueChangedPath = async (changedPath) => {
+    // A changed frame re-runs the whole numbered sequence it belongs to.
+    const resolved = await resolveSequenceMember(path.resolve(changedPath));
+    if (await runner.isUpToDate(resolved)) {
+      return;
+    }
     const count = runner.enqueuePaths([resolved]);
     if (count > 0) {
       console.log(`[watch] queued ${resolved}`);
@@ -376,10 +1132,11 @@ async function startWatchMode(options, runner) {
     console.log("Stopping watch mode...");
     await watcher.close();
     await runner.waitForIdle();
+    await runner.flush();
 
     const summary = runner.getSummary();
-    console.log(`Summary: done=${summary.doneCount}, errors=${summary.errorCount}`);
-    process.exit(code || (summary.errorCount > 0 ? 1 : 0));
+    console.log(`Summary: done=${summary.doneCount}, skipped=${summary.skippedCount}, errors=${summary.errorCount}`);
+    process.exit(code || exitCodeForErrors(summary.errorCodes));
   };
 
   process.on("SIGINT", () => {
@@ -393,21 +1150,95 @@ async function startWatchMode(options, runner) {
 async function main() {
   const options = parseArgs(process.argv.slice(2));
 
-  if (options.help || options.inputs.length === 0) {
+  if (options.help || (options.inputs.length === 0 && !options.resume)) {
     printUsage();
     return;
   }
 
-  const expandedPaths = await expandInputPaths(options.inputs);
-  if (expandedPaths.length === 0) {
+  if (options.configFile) {
+    options.project = await loadProjectConfig(options.configFile);
+    // Fails early on an unknown --preset instead of once per job.
+    resolveJobSettings(options, options.configFile);
+    console.log(
+      `Using config ${options.configFile} (${options.project.rules.length} rule(s)${options.preset ? `, preset ${options.preset}` : ""}).`
+    );
+  }
+
+  if (options.configPatch.paletteSource) {
+    const colors = await resolvePaletteSource(options.configPatch.paletteSource);
+    console.log(`Using fixed palette with ${colors.length} color(s).`);
+  }
+
+  const journal = await QueueJournal.load(path.join(options.outputDir, queueJournalName));
+  const unfinished = await recoverInterruptedJobs(journal);
+  const resumed = options.resume ? unfinished : [];
+  if (unfinished.length > 0 && !options.resume) {
+    console.log(`${unfinished.length} job(s) from an interrupted run are unfinished; add --resume to convert them.`);
+  }
+  if (options.resume) {
+    console.log(
+      resumed.length > 0 ? `Resuming ${resumed.length} unfinished job(s).` : `Nothing to resume in ${options.outputDir}.`
+    );
+    // The runner journals them again under new ids.
+    await journal.remove(resumed.map((entry) => entry.id));
+  }
+
+  const expandedPaths = options.inputs.length > 0 ? await expandInputPaths(options.inputs) : [];
+  if (options.inputs.length > 0 && expandedPaths.length === 0 && resumed.length === 0) {
     console.error("No supported files found from inputs.");
     process.exitCode = 1;
     return;
   }
+  const inputPaths = [...new Set([...resumed.map((entry) => entry.payload.inputPath), ...expandedPaths])];
+  if (inputPaths.length === 0) {
+    return;
+  }
+
+  console.log(`Discovered ${inputPaths.length} file(s). Output: ${options.outputDir}`);
+
+  // Resumed jobs keep the settings they were journaled with; explicitly listed inputs use this run's options.
+  const explicitPaths = new Set(expandedPaths);
+  const resumedByPath = new Map(
+    resumed.filter((entry) => !explicitPaths.has(entry.payload.inputPath)).map((entry) => [entry.payload.inputPath, entry.payload])
+  );
+
+  // Resumed jobs already carry the palette of the batch they came from.
+  const paletteInputs = inputPaths.filter((inputPath) => !resumedByPath.has(inputPath));
+  if (options.sharedPalette && paletteInputs.length > 0) {
+    const inputs = await Promise.all(
+      paletteInputs.map(async (inputPath) => ({
+        inputPath,
+        type: await resolveType(inputPath, detectAssetType(inputPath)),
+        config: resolveJobSettings(options, inputPath).config
+      }))
+    );
+    // The native engine builds it in-process, so --shared-palette works without ffmpeg too.
+    const extractPalette = options.engine === "native" ? extractNativeSharedPalette : extractSharedPalette;
+    // Ctrl+C during a long palette pass stops ffmpeg instead of leaving it running.
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    process.once("SIGINT", abort);
+    let colors;
+    try {
+      colors = await extractPalette(inputs, {
+        maxColors: Math.max(...inputs.map((input) => input.config.palette)),
+        ffmpegBin: options.ffmpegBin,
+        ffprobeBin: options.ffprobeBin,
+        signal: controller.signal,
+        stallTimeoutMs: options.stallTimeoutMs
+      });
+    } finally {
+      process.off("SIGINT", abort);
+    }
+    options.configPatch = {
+      ...options.configPatch,
+      paletteSource: { type: "inline", colors: colors.map(formatHexColor) }
+    };
+    console.log(`Shared palette: ${colors.length} color(s) extracted from the batch.`);
+  }
 
-  console.log(`Discovered ${expandedPaths.length} file(s). Output: ${options.outputDir}`);
-  const runner = createBatchRunner(options);
-  runner.enqueuePaths(expandedPaths);
+  const runner = createBatchRunner(options, journal);
+  runner.enqueuePaths(inputPaths, resumedByPath);
 
   if (options.watch) {
     await startWatchMode(options, runner);
@@ -415,15 +1246,16 @@ async function main() {
   }
 
   await runner.waitForIdle();
+  await runner.flush();
   const summary = runner.getSummary();
-  console.log(`Summary: done=${summary.doneCount}, errors=${summary.errorCount}, total=${expandedPaths.length}`);
+  console.log(
+    `Summary: done=${summary.doneCount}, skipped=${summary.skippedCount}, errors=${summary.errorCount}, total=${inputPaths.length}`
+  );
 
-  if (summary.errorCount > 0) {
-    process.exitCode = 1;
-  }
+  process.exitCode = exitCodeForErrors(summary.errorCodes);
 }
 
 main().catch((error) => {
   console.error(error instanceof Error ? error.message : error);
-  process.exit(1);
+  process.exit(exitCodeForErrors([toPixelError(error).code]));
 });
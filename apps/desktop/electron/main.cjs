@@ -1,10 +1,27 @@
+const fs = require("node:fs/promises");
 const path = require("node:path");
 const { pathToFileURL } = require("node:url");
 const { app, BrowserWindow, dialog, ipcMain, shell } = require("electron");
 const { protocol, net } = require("electron");
-const { defaultPixelConfig, expandInputPaths } = require("@pixel/core");
-const { convertAssetWithFfmpeg } = require("@pixel/ffmpeg");
-const { JobQueue } = require("@pixel/queue");
+const {
+  assetJobCosts,
+  convertAsset,
+  defaultPixelConfig,
+  detectAssetTypeFromFile,
+  expandInputPaths,
+  extractNativeSharedPalette,
+  findInputRoot,
+  formatHexColor,
+  formatProjectConfig,
+  loadProjectConfig,
+  matchProjectRules,
+  pixelErrorHints,
+  removePartialOutputs,
+  resolvePaletteSource,
+  toPixelError
+} = require("@pixel/core");
+const { convertAssetWithFfmpeg, extractSharedPalette } = require("@pixel/ffmpeg");
+const { JobQueue, QueueJournal } = require("@pixel/queue");
 
 let mainWindow = null;
 
@@ -20,27 +37,93 @@ protocol.registerSchemesAsPrivileged([
   }
 ]);
 
-const queue = new JobQueue(async ({ payload, signal, reportProgress }) => {
+// The renderer classifies by extension only; animated GIF/WebP files are detected here.
+async function resolveJobType(job) {
+  return job.type === "image" ? await detectAssetTypeFromFile(job.inputPath) : job.type;
+}
+
+async function convertJob({ id, payload, signal, reportProgress, reportSkipped }) {
   const config = {
     ...defaultPixelConfig,
     ...payload.job.config
   };
 
-  return convertAssetWithFfmpeg({
+  const convert = payload.engine === "native" ? convertAsset : convertAssetWithFfmpeg;
+
+  const result = await convert({
     inputPath: payload.job.inputPath,
-    type: payload.job.type,
+    inputRoot: payload.job.inputRoot,
+    type: await resolveJobType(payload.job),
     config,
     outputDir: payload.outputDir,
     signal,
-    onProgress: reportProgress
+    stallTimeoutMs: payload.stallTimeoutMs,
+    onProgress: reportProgress,
+    onOutputPlanned: (plan) => {
+      journalPromise.then((journal) => journal.setMeta(id, plan)).catch(() => undefined);
+    }
   });
-}, 2);
+  if (result.skipped) {
+    reportSkipped();
+  }
+  return result;
+}
+
+// Each slot of concurrency is worth two cost units, so one video runs next to an image rather than beside three videos.
+const budgetPerSlot = 2;
+
+// Failures outside the engines (e.g. an unreadable input while detecting its type) get an error code too.
+const queue = new JobQueue((context) => convertJob(context).catch((error) => Promise.reject(toPixelError(error))), 2, {
+  budget: 2 * budgetPerSlot
+});
+
+// Shared palette passes still running; Cancel all stops them before their jobs reach the queue.
+const paletteControllers = new Set();
+
+// Error events carry what the user can do about them.
+function toJobEvent(event) {
+  return event.type === "error" ? { ...event, hint: pixelErrorHints[event.code] ?? pixelErrorHints.unknown } : event;
+}
+
+// Videos weigh more than stills against the queue budget. The timeout travels in the payload so resumed jobs keep it.
+function toQueueItem(id, payload) {
+  return {
+    id,
+    payload,
+    cost: assetJobCosts[payload.job.type],
+    kind: payload.job.type,
+    priority: payload.job.priority,
+    timeoutMs: payload.timeoutMs
+  };
+}
+
+// Jobs the journal still listed at startup: the app quit or crashed before they finished.
+const interruptedIds = new Set();
+
+// Queued and running jobs are journaled so a batch survives a restart. At startup, half-written outputs of the jobs
+// that were running are removed and everything left over waits for the renderer to resume or discard it.
+const journalPromise = QueueJournal.load(path.join(app.getPath("userData"), "queue-journal.json")).then(
+  async (journal) => {
+    for (const entry of journal.interrupted()) {
+      if (entry.meta && entry.startedAt) {
+        await removePartialOutputs(entry.meta, entry.startedAt).catch(() => []);
+      }
+    }
+    const pending = journal.pending();
+    await journal.add(pending);
+    for (const entry of pending) {
+      interruptedIds.add(entry.id);
+    }
+    journal.attach(queue);
+    return journal;
+  }
+);
 
 queue.onEvent((event) => {
   if (!mainWindow || mainWindow.isDestroyed()) {
     return;
   }
-  mainWindow.webContents.send("jobs:event", event);
+  mainWindow.webContents.send("jobs:event", toJobEvent(event));
 });
 
 function createWindow() {
@@ -133,24 +216,196 @@ ipcMain.handle("dialog:pickOutputDir", async () => {
   return result.filePaths[0];
 });
 
+ipcMain.handle("dialog:pickPaletteFile", async () => {
+  const result = await dialog.showOpenDialog({
+    properties: ["openFile"],
+    filters: [
+      {
+        name: "Palettes",
+        extensions: ["hex", "gpl", "pal", "ase"]
+      }
+    ]
+  });
+
+  if (result.canceled || result.filePaths.length === 0) {
+    return null;
+  }
+
+  return result.filePaths[0];
+});
+
+ipcMain.handle("palette:resolve", async (_event, source) => {
+  const colors = await resolvePaletteSource(source);
+  return colors.map(formatHexColor);
+});
+
+ipcMain.handle("config:import", async () => {
+  const result = await dialog.showOpenDialog({
+    properties: ["openFile"],
+    filters: [{ name: "Pixel config", extensions: ["json", "yaml", "yml"] }]
+  });
+
+  if (result.canceled || result.filePaths.length === 0) {
+    return null;
+  }
+
+  return loadProjectConfig(result.filePaths[0]);
+});
+
+ipcMain.handle("config:export", async (_event, payload) => {
+  const result = await dialog.showSaveDialog({
+    defaultPath: "pixel.config.json",
+    filters: [{ name: "Pixel config", extensions: ["json"] }]
+  });
+
+  if (result.canceled || !result.filePath) {
+    return null;
+  }
+
+  const project = {
+    presets: {},
+    rules: [],
+    ...payload.project,
+    // Palette paths are written relative to the file's new location.
+    rootDir: path.dirname(result.filePath),
+    defaults: payload.globalConfig
+  };
+  await fs.writeFile(result.filePath, formatProjectConfig(project, defaultPixelConfig), "utf8");
+  return result.filePath;
+});
+
+// Presets share the config file format, so a pixel.config file's presets import too and exports work with --preset.
+ipcMain.handle("presets:import", async () => {
+  const result = await dialog.showOpenDialog({
+    properties: ["openFile"],
+    filters: [{ name: "Pixel presets", extensions: ["json", "yaml", "yml"] }]
+  });
+
+  if (result.canceled || result.filePaths.length === 0) {
+    return null;
+  }
+
+  return (await loadProjectConfig(result.filePaths[0])).presets;
+});
+
+ipcMain.handle("presets:export", async (_event, presets) => {
+  const result = await dialog.showSaveDialog({
+    defaultPath: "pixel-presets.json",
+    filters: [{ name: "Pixel presets", extensions: ["json"] }]
+  });
+
+  if (result.canceled || !result.filePath) {
+    return null;
+  }
+
+  const project = { rootDir: path.dirname(result.filePath), defaults: {}, presets, rules: [] };
+  await fs.writeFile(result.filePath, formatProjectConfig(project, defaultPixelConfig), "utf8");
+  return result.filePath;
+});
+
 ipcMain.handle("paths:expand", async (_event, inputPaths) => {
   const paths = Array.isArray(inputPaths) ? inputPaths : [];
-  return expandInputPaths(paths);
+  const expanded = await expandInputPaths(paths);
+  return expanded.map((inputPath) => ({ inputPath, inputRoot: findInputRoot(inputPath, paths) }));
 });
 
 ipcMain.handle("jobs:start", async (_event, payload) => {
   const outputDir = path.resolve(payload.outputDir || path.join(process.cwd(), "outputs"));
+  const project = payload.project ?? null;
+  // Config file rules: their overrides apply to jobs on the global config, their output folders to every job.
+  let jobs = payload.jobs.map((job) => {
+    if (!project) {
+      return { ...job, outputDir };
+    }
+    const matched = matchProjectRules(project, job.inputPath);
+    return {
+      ...job,
+      config: job.configMode === "global" ? { ...job.config, ...matched.config } : job.config,
+      outputDir: path.join(outputDir, matched.outputSubdir)
+    };
+  });
 
-  const queueItems = payload.jobs.map((job) => ({
-    id: job.id,
-    payload: {
-      job,
-      outputDir
+  if (payload.sharedPalette && jobs.length > 0) {
+    const controller = new AbortController();
+    paletteControllers.add(controller);
+    try {
+      const extractPalette = payload.engine === "native" ? extractNativeSharedPalette : extractSharedPalette;
+      const colors = await extractPalette(
+        await Promise.all(
+          jobs.map(async (job) => ({
+            inputPath: job.inputPath,
+            type: await resolveJobType(job),
+            config: { ...defaultPixelConfig, ...job.config }
+          }))
+        ),
+        {
+          maxColors: Math.max(...jobs.map((job) => job.config.palette || defaultPixelConfig.palette)),
+          signal: controller.signal,
+          stallTimeoutMs: (payload.stallTimeoutSeconds ?? 0) * 1000
+        }
+      );
+      const paletteSource = { type: "inline", colors: colors.map(formatHexColor) };
+      jobs = jobs.map((job) => ({ ...job, config: { ...job.config, paletteSource } }));
+    } catch (error) {
+      const failure = toPixelError(error);
+      const message = `Shared palette extraction failed: ${failure.message}`;
+      for (const job of jobs) {
+        const event =
+          failure.code === "canceled"
+            ? { type: "canceled", jobId: job.id }
+            : { type: "error", jobId: job.id, message, kind: "failed", code: failure.code, log: failure.log || undefined };
+        mainWindow?.webContents.send("jobs:event", toJobEvent(event));
+      }
+      return [];
+    } finally {
+      paletteControllers.delete(controller);
     }
-  }));
+  }
+
+  const queueItems = jobs.map((job) =>
+    toQueueItem(job.id, {
+      job,
+      outputDir: job.outputDir,
+      engine: payload.engine,
+      timeoutMs: (payload.jobTimeoutSeconds ?? 0) * 1000,
+      stallTimeoutMs: (payload.stallTimeoutSeconds ?? 0) * 1000
+    })
+  );
+
+  const journal = await journalPromise;
+  for (const item of queueItems) {
+    interruptedIds.delete(item.id);
+  }
+  await journal.add(queueItems);
+  queue.enqueue(queueItems);
+  return jobs.map((job) => job.id);
+});
 
+ipcMain.handle("jobs:interrupted", async () => {
+  await journalPromise;
+  return [...interruptedIds];
+});
+
+// Re-runs interrupted jobs with the exact payloads they were started with; ones the renderer no longer lists are dropped.
+ipcMain.handle("jobs:resumeInterrupted", async (_event, jobIds) => {
+  const journal = await journalPromise;
+  const wanted = new Set(jobIds);
+  const queueItems = journal
+    .pending()
+    .filter((entry) => interruptedIds.has(entry.id) && wanted.has(entry.id))
+    .map((entry) => toQueueItem(entry.id, entry.payload));
+  await journal.remove([...interruptedIds].filter((id) => !wanted.has(id)));
+  interruptedIds.clear();
+  await journal.add(queueItems);
   queue.enqueue(queueItems);
-  return payload.jobs.map((job) => job.id);
+  return queueItems.map((item) => item.id);
+});
+
+ipcMain.handle("jobs:discardInterrupted", async () => {
+  const journal = await journalPromise;
+  await journal.remove([...interruptedIds]);
+  interruptedIds.clear();
+  return true;
 });
 
 ipcMain.handle("jobs:cancel", async (_event, jobId) => {
@@ -158,12 +413,51 @@ ipcMain.handle("jobs:cancel", async (_event, jobId) => {
     queue.cancel(jobId);
   } else {
     queue.cancelAll();
+    for (const controller of paletteControllers) {
+      controller.abort();
+    }
   }
   return true;
 });
 
 ipcMain.handle("jobs:setConcurrency", async (_event, count) => {
-  return queue.setConcurrency(count);
+  const concurrency = queue.setConcurrency(count);
+  queue.setBudget(concurrency * budgetPerSlot);
+  return concurrency;
+});
+
+// Most jobs of each asset type running at once, like the CLI's --max-per-type; unlisted types are unlimited.
+ipcMain.handle("jobs:setTypeLimits", async (_event, limits) => {
+  queue.setKindLimits(limits ?? {});
+  return true;
+});
+
+ipcMain.handle("jobs:setRetries", async (_event, retries, retryTimeouts) => {
+  queue.setRetryPolicy({ retries, retryTimeouts: Boolean(retryTimeouts) });
+  return retries;
+});
+
+// Without a jobId these pause or resume the whole queue.
+ipcMain.handle("jobs:pause", async (_event, jobId) => {
+  queue.pause(jobId);
+  return true;
+});
+
+ipcMain.handle("jobs:resume", async (_event, jobId) => {
+  queue.resume(jobId);
+  return true;
+});
+
+// The renderer's row order after a drag; pending jobs run in this order.
+ipcMain.handle("jobs:reorder", async (_event, jobIds) => {
+  queue.reorder(jobIds);
+  return true;
+});
+
+// Rushed jobs jump ahead of everything queued at normal priority, whatever the row order.
+ipcMain.handle("jobs:setPriority", async (_event, jobId, priority) => {
+  queue.setPriority(jobId, priority);
+  return true;
 });
 
 ipcMain.handle("shell:openPath", async (_event, targetPath) => {
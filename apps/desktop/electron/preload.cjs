@@ -3,10 +3,25 @@ const { contextBridge, ipcRenderer } = require("electron");
 contextBridge.exposeInMainWorld("pixel", {
   pickFiles: () => ipcRenderer.invoke("dialog:pickFiles"),
   pickOutputDir: () => ipcRenderer.invoke("dialog:pickOutputDir"),
+  pickPaletteFile: () => ipcRenderer.invoke("dialog:pickPaletteFile"),
+  resolvePalette: (source) => ipcRenderer.invoke("palette:resolve", source),
   expandPaths: (paths) => ipcRenderer.invoke("paths:expand", paths),
+  importConfig: () => ipcRenderer.invoke("config:import"),
+  exportConfig: (payload) => ipcRenderer.invoke("config:export", payload),
+  importPresets: () => ipcRenderer.invoke("presets:import"),
+  exportPresets: (presets) => ipcRenderer.invoke("presets:export", presets),
   startConversion: (payload) => ipcRenderer.invoke("jobs:start", payload),
   cancel: (jobId) => ipcRenderer.invoke("jobs:cancel", jobId),
+  getInterruptedJobs: () => ipcRenderer.invoke("jobs:interrupted"),
+  resumeInterruptedJobs: (jobIds) => ipcRenderer.invoke("jobs:resumeInterrupted", jobIds),
+  discardInterruptedJobs: () => ipcRenderer.invoke("jobs:discardInterrupted"),
   setConcurrency: (count) => ipcRenderer.invoke("jobs:setConcurrency", count),
+  setRetries: (retries, retryTimeouts) => ipcRenderer.invoke("jobs:setRetries", retries, retryTimeouts),
+  setTypeLimits: (limits) => ipcRenderer.invoke("jobs:setTypeLimits", limits),
+  pause: (jobId) => ipcRenderer.invoke("jobs:pause", jobId),
+  resume: (jobId) => ipcRenderer.invoke("jobs:resume", jobId),
+  reorder: (jobIds) => ipcRenderer.invoke("jobs:reorder", jobIds),
+  setPriority: (jobId, priority) => ipcRenderer.invoke("jobs:setPriority", jobId, priority),
   openPath: (targetPath) => ipcRenderer.invoke("shell:openPath", targetPath),
   onJobEvent: (callback) => {
     const listener = (_event, payload) => callback(payload);
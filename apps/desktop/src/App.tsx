@@ -1,13 +1,25 @@
-import { useEffect, useMemo } from "react";
-import type { PixelConfig } from "@pixel/core";
+import { useEffect, useMemo, useState } from "react";
+import type { Job, PixelConfig, ProjectConfig } from "@pixel/core";
 import { ConfigPanel } from "./components/ConfigPanel";
 import { JobMatrix } from "./components/JobMatrix";
 import { Toolbar } from "./components/Toolbar";
+import { defaultPixelConfig } from "./constants";
 import { useJobStore } from "./store/jobs";
 
-function buildConfig(jobConfigMode: "global" | "local", localConfig: PixelConfig | undefined, globalConfig: PixelConfig) {
-  if (jobConfigMode === "local" && localConfig) {
-    return localConfig;
+// A local override wins, then the job's preset, then the global config. Presets layer over the imported config file's
+// defaults like the CLI's --preset, not over global settings edited since.
+function buildConfig(
+  job: Job,
+  globalConfig: PixelConfig,
+  presets: Record<string, Partial<PixelConfig>>,
+  project: ProjectConfig | null
+) {
+  if (job.configMode === "local" && job.localConfig) {
+    return job.localConfig;
+  }
+  const preset = job.presetName ? presets[job.presetName] : undefined;
+  if (preset) {
+    return { ...defaultPixelConfig, ...project?.defaults, ...preset };
   }
   return globalConfig;
 }
@@ -20,6 +32,16 @@ export default function App() {
     globalConfig,
     outputDir,
     concurrency,
+    typeLimits,
+    retries,
+    jobTimeoutSeconds,
+    stallTimeoutSeconds,
+    retryTimeouts,
+    queuePaused,
+    engine,
+    sharedPalette,
+    project,
+    presets,
     addPaths,
     removeJob,
     reorderJobs,
@@ -28,14 +50,35 @@ export default function App() {
     setEditorMode,
     setOutputDir,
     setConcurrency,
+    setTypeLimit,
+    setRetries,
+    setJobTimeout,
+    setStallTimeout,
+    setRetryTimeouts,
+    setQueuePaused,
+    setEngine,
+    setSharedPalette,
+    importProject,
+    clearProject,
+    savePreset,
+    renamePreset,
+    duplicatePreset,
+    deletePreset,
+    importPresets,
+    setJobPreset,
+    setJobPriority,
     setJobConfigMode,
     updateGlobalConfig,
     updateSelectedLocalConfig,
     markQueued,
+    markInterrupted,
+    resetInterrupted,
     applyEvent,
     clearCompleted
   } = useJobStore();
 
+  const [configError, setConfigError] = useState<string | null>(null);
+
   const selectedJob = useMemo(
     () => jobs.find((job) => job.id === selectedJobId) ?? null,
     [jobs, selectedJobId]
@@ -47,6 +90,10 @@ export default function App() {
     });
   }, [applyEvent]);
 
+  useEffect(() => {
+    void window.pixel.getInterruptedJobs().then(markInterrupted);
+  }, [markInterrupted]);
+
   const appendPaths = async (paths: string[]) => {
     if (paths.length === 0) {
       return;
@@ -69,6 +116,48 @@ export default function App() {
     }
   };
 
+  const handleImportConfig = async () => {
+    try {
+      const imported = await window.pixel.importConfig();
+      if (imported) {
+        importProject(imported);
+        setConfigError(null);
+      }
+    } catch (error) {
+      setConfigError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const handleExportConfig = async () => {
+    try {
+      await window.pixel.exportConfig({ globalConfig, project });
+      setConfigError(null);
+    } catch (error) {
+      setConfigError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const handleImportPresets = async () => {
+    try {
+      const imported = await window.pixel.importPresets();
+      if (imported) {
+        importPresets(imported);
+        setConfigError(null);
+      }
+    } catch (error) {
+      setConfigError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const handleExportPresets = async () => {
+    try {
+      await window.pixel.exportPresets(presets);
+      setConfigError(null);
+    } catch (error) {
+      setConfigError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
   const startConversion = async (mode: "selected" | "included") => {
     const source = mode === "selected" ? jobs.filter((job) => job.id === selectedJobId) : jobs.filter((job) => job.enabled);
     if (source.length === 0) {
@@ -76,14 +165,24 @@ export default function App() {
     }
 
     await window.pixel.setConcurrency(concurrency);
+    await window.pixel.setTypeLimits(typeLimits);
+    await window.pixel.setRetries(retries, retryTimeouts);
 
     const payload = {
       outputDir,
+      engine,
+      sharedPalette,
+      project,
+      jobTimeoutSeconds,
+      stallTimeoutSeconds,
       jobs: source.map((job) => ({
         id: job.id,
         inputPath: job.inputPath,
+        inputRoot: job.inputRoot,
         type: job.type,
-        config: buildConfig(job.configMode, job.localConfig, globalConfig)
+        configMode: job.configMode,
+        config: buildConfig(job, globalConfig, presets, project),
+        priority: job.priority
       }))
     };
 
@@ -91,6 +190,50 @@ export default function App() {
     await window.pixel.startConversion(payload);
   };
 
+  const handleResumeInterrupted = async () => {
+    await window.pixel.setConcurrency(concurrency);
+    await window.pixel.setTypeLimits(typeLimits);
+    await window.pixel.setRetries(retries, retryTimeouts);
+    await window.pixel.resumeInterruptedJobs(jobs.filter((job) => job.status === "interrupted").map((job) => job.id));
+  };
+
+  const handleDiscardInterrupted = async () => {
+    await window.pixel.discardInterruptedJobs();
+    resetInterrupted();
+  };
+
+  const handleTogglePause = async () => {
+    if (queuePaused) {
+      await window.pixel.resume();
+      setQueuePaused(false);
+    } else {
+      await window.pixel.pause();
+    }
+  };
+
+  const handleToggleJobPause = async (jobId: string) => {
+    const job = jobs.find((entry) => entry.id === jobId);
+    if (job?.status === "paused") {
+      await window.pixel.resume(jobId);
+    } else {
+      await window.pixel.pause(jobId);
+    }
+  };
+
+  // Rushed jobs run before the rest; queued ones move ahead right away.
+  const handleToggleRush = async (jobId: string) => {
+    const job = jobs.find((entry) => entry.id === jobId);
+    const priority = job?.priority ? 0 : 1;
+    setJobPriority(jobId, priority);
+    await window.pixel.setPriority(jobId, priority);
+  };
+
+  // Pending jobs follow the rows' new order.
+  const handleReorder = async (dragId: string, targetId: string) => {
+    reorderJobs(dragId, targetId);
+    await window.pixel.reorder(useJobStore.getState().jobs.map((job) => job.id));
+  };
+
   const handleCancel = async () => {
     await window.pixel.cancel();
   };
@@ -102,6 +245,16 @@ export default function App() {
           jobs={jobs}
           outputDir={outputDir}
           concurrency={concurrency}
+          videoLimit={typeLimits.video ?? 0}
+          retries={retries}
+          jobTimeoutSeconds={jobTimeoutSeconds}
+          stallTimeoutSeconds={stallTimeoutSeconds}
+          retryTimeouts={retryTimeouts}
+          queuePaused={queuePaused}
+          engine={engine}
+          sharedPalette={sharedPalette}
+          project={project}
+          configError={configError}
           onAddFiles={handleAddFiles}
           onPickOutput={handlePickOutput}
           onConvertSelected={() => startConversion("selected")}
@@ -109,6 +262,28 @@ export default function App() {
           onCancel={handleCancel}
           onClearCompleted={clearCompleted}
           onConcurrencyChange={(value) => setConcurrency(value)}
+          onVideoLimitChange={(value) => {
+            setTypeLimit("video", value);
+            void window.pixel.setTypeLimits(useJobStore.getState().typeLimits);
+          }}
+          onRetriesChange={(value) => {
+            setRetries(value);
+            void window.pixel.setRetries(value, retryTimeouts);
+          }}
+          onJobTimeoutChange={setJobTimeout}
+          onStallTimeoutChange={setStallTimeout}
+          onRetryTimeoutsChange={(value) => {
+            setRetryTimeouts(value);
+            void window.pixel.setRetries(retries, value);
+          }}
+          onTogglePause={handleTogglePause}
+          onEngineChange={setEngine}
+          onSharedPaletteChange={setSharedPalette}
+          onImportConfig={handleImportConfig}
+          onExportConfig={handleExportConfig}
+          onClearConfig={clearProject}
+          onResumeInterrupted={handleResumeInterrupted}
+          onDiscardInterrupted={handleDiscardInterrupted}
         />
 
         <div className="grid gap-4 xl:grid-cols-[2fr_1fr]">
@@ -118,8 +293,12 @@ export default function App() {
             onSelect={selectJob}
             onToggleEnabled={toggleEnabled}
             onSetConfigMode={setJobConfigMode}
+            presetNames={Object.keys(presets).sort((a, b) => a.localeCompare(b))}
+            onSetPreset={setJobPreset}
             onRemove={removeJob}
-            onReorder={reorderJobs}
+            onReorder={handleReorder}
+            onTogglePause={handleToggleJobPause}
+            onToggleRush={handleToggleRush}
             onDropFiles={appendPaths}
             onOpenOutput={(targetPath) => window.pixel.openPath(targetPath)}
           />
@@ -131,6 +310,15 @@ export default function App() {
             onEditorModeChange={setEditorMode}
             onGlobalPatch={updateGlobalConfig}
             onLocalPatch={updateSelectedLocalConfig}
+            onPickPaletteFile={() => window.pixel.pickPaletteFile()}
+            onResolvePalette={(source) => window.pixel.resolvePalette(source)}
+            presets={presets}
+            onSavePreset={savePreset}
+            onRenamePreset={renamePreset}
+            onDuplicatePreset={duplicatePreset}
+            onDeletePreset={deletePreset}
+            onImportPresets={handleImportPresets}
+            onExportPresets={handleExportPresets}
           />
         </div>
       </div>
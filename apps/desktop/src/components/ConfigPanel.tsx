@@ -1,5 +1,6 @@
 import { useEffect, useState } from "react";
-import type { Job, PixelConfig } from "@pixel/core";
+import type { Job, PalettePresetName, PaletteSource, PixelConfig, SpritesheetFormat } from "@pixel/core";
+import { defaultPixelConfig, palettePresetOptions, spritesheetFormatOptions, videoCodecOptions } from "../constants";
 
 type EditorMode = "global" | "local";
 
@@ -10,6 +11,15 @@ type ConfigPanelProps = {
   onEditorModeChange: (mode: EditorMode) => void;
   onGlobalPatch: (patch: Partial<PixelConfig>) => void;
   onLocalPatch: (patch: Partial<PixelConfig>) => void;
+  onPickPaletteFile: () => Promise<string | null>;
+  onResolvePalette: (source: PaletteSource) => Promise<string[]>;
+  presets: Record<string, Partial<PixelConfig>>;
+  onSavePreset: (name: string, config: PixelConfig) => void;
+  onRenamePreset: (from: string, to: string) => void;
+  onDuplicatePreset: (name: string) => string;
+  onDeletePreset: (name: string) => void;
+  onImportPresets: () => void;
+  onExportPresets: () => void;
 };
 
 function FieldNumber({
@@ -104,13 +114,464 @@ function FieldBoolean({
   );
 }
 
+function SpritesheetFields({
+  config,
+  onChange
+}: {
+  config: PixelConfig;
+  onChange: (patch: Partial<PixelConfig>) => void;
+}) {
+  const formats = config.spritesheetFormats ?? ["texturepacker-hash"];
+
+  const toggleFormat = (format: SpritesheetFormat, enabled: boolean) => {
+    const next = enabled ? [...formats, format] : formats.filter((entry) => entry !== format);
+    onChange({ spritesheetFormats: spritesheetFormatOptions.map((option) => option.value).filter((value) => next.includes(value)) });
+  };
+
+  return (
+    <div className="col-span-2 grid grid-cols-2 gap-2 border-t border-slate-200 pt-2">
+      <FieldNumber
+        label="Sheet Columns (0 = auto)"
+        value={config.spritesheetColumns}
+        min={0}
+        max={256}
+        onChange={(value) => onChange({ spritesheetColumns: value })}
+      />
+      <FieldNumber
+        label="Sheet Rows (0 = auto)"
+        value={config.spritesheetRows}
+        min={0}
+        max={256}
+        onChange={(value) => onChange({ spritesheetRows: value })}
+      />
+      <FieldNumber
+        label="Sheet Padding"
+        value={config.spritesheetPadding}
+        min={0}
+        max={64}
+        onChange={(value) => onChange({ spritesheetPadding: value })}
+      />
+      <FieldNumber
+        label="Sheet Extrude"
+        value={config.spritesheetExtrude}
+        min={0}
+        max={16}
+        onChange={(value) => onChange({ spritesheetExtrude: value })}
+      />
+      <FieldNumber
+        label="First Frame"
+        value={config.spritesheetFrameStart}
+        min={0}
+        onChange={(value) => onChange({ spritesheetFrameStart: value })}
+      />
+      <FieldNumber
+        label="Frame Count (0 = all)"
+        value={config.spritesheetFrameCount}
+        min={0}
+        onChange={(value) => onChange({ spritesheetFrameCount: value })}
+      />
+      <div className="col-span-2 grid grid-cols-2 gap-2">
+        {spritesheetFormatOptions.map((option) => (
+          <FieldBoolean
+            key={option.value}
+            label={option.label}
+            value={formats.includes(option.value)}
+            onChange={(value) => toggleFormat(option.value, value)}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function VideoEncodingFields({
+  config,
+  onChange
+}: {
+  config: PixelConfig;
+  onChange: (patch: Partial<PixelConfig>) => void;
+}) {
+  const outputFormat = config.outputFormat ?? "mp4";
+  // mov is always QuickTime Animation, so only the audio settings apply to it.
+  const hasCodecChoice = outputFormat === "mp4" || outputFormat === "webm";
+  const rateControl = config.videoRateControl ?? "crf";
+  const codec = config.videoCodec ?? "auto";
+
+  return (
+    <div className="col-span-2 grid grid-cols-2 gap-2 border-t border-slate-200 pt-2">
+      {hasCodecChoice && (
+        <>
+          <label className="flex flex-col gap-1 text-xs text-slate-700">
+            Video Codec
+            <select
+              className="rounded-md border border-slate-300 px-2 py-1 text-sm"
+              value={codec}
+              onChange={(event) => onChange({ videoCodec: event.target.value as PixelConfig["videoCodec"] })}
+            >
+              {videoCodecOptions.map((option) => (
+                <option key={option.value} value={option.value} disabled={!option.formats.includes(outputFormat)}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <label className="flex flex-col gap-1 text-xs text-slate-700">
+            Quality
+            <select
+              className="rounded-md border border-slate-300 px-2 py-1 text-sm"
+              value={rateControl}
+              onChange={(event) =>
+                onChange({ videoRateControl: event.target.value as PixelConfig["videoRateControl"] })
+              }
+            >
+              <option value="crf">constant quality (CRF)</option>
+              <option value="bitrate">bitrate</option>
+              <option value="lossless">lossless</option>
+            </select>
+          </label>
+
+          {rateControl === "crf" && (
+            <FieldNumber
+              label="CRF"
+              value={config.videoCrf}
+              min={0}
+              max={codec === "h264" || (codec === "auto" && outputFormat === "mp4") ? 51 : 63}
+              onChange={(value) => onChange({ videoCrf: value })}
+            />
+          )}
+
+          {rateControl === "bitrate" && (
+            <FieldNumber
+              label="Bitrate (kbps)"
+              value={config.videoBitrateKbps}
+              min={1}
+              max={200000}
+              onChange={(value) => onChange({ videoBitrateKbps: value })}
+            />
+          )}
+        </>
+      )}
+
+      <label className="flex flex-col gap-1 text-xs text-slate-700">
+        Audio
+        <select
+          className="rounded-md border border-slate-300 px-2 py-1 text-sm"
+          value={config.audio ?? "none"}
+          onChange={(event) => onChange({ audio: event.target.value as PixelConfig["audio"] })}
+        >
+          <option value="none">none</option>
+          <option value="copy">copy source</option>
+          <option value="encode">re-encode</option>
+        </select>
+      </label>
+
+      {config.audio === "encode" && (
+        <FieldNumber
+          label="Audio Bitrate (kbps)"
+          value={config.audioBitrateKbps}
+          min={8}
+          max={512}
+          onChange={(value) => onChange({ audioBitrateKbps: value })}
+        />
+      )}
+    </div>
+  );
+}
+
+function OutputNamingFields({
+  config,
+  onChange
+}: {
+  config: PixelConfig;
+  onChange: (patch: Partial<PixelConfig>) => void;
+}) {
+  return (
+    <div className="col-span-2 grid grid-cols-2 gap-2 border-t border-slate-200 pt-2">
+      <label className="col-span-2 flex flex-col gap-1 text-xs text-slate-700">
+        Output Name ({"{name} {ext} {grid} {palette} {date} {relDir}"})
+        <input
+          className="rounded-md border border-slate-300 px-2 py-1 text-sm"
+          type="text"
+          value={config.outputTemplate ?? defaultPixelConfig.outputTemplate}
+          onChange={(event) => onChange({ outputTemplate: event.target.value })}
+        />
+      </label>
+
+      <label className="flex flex-col gap-1 text-xs text-slate-700">
+        If Output Exists
+        <select
+          className="rounded-md border border-slate-300 px-2 py-1 text-sm"
+          value={config.outputCollision ?? "overwrite"}
+          onChange={(event) => onChange({ outputCollision: event.target.value as PixelConfig["outputCollision"] })}
+        >
+          <option value="overwrite">overwrite</option>
+          <option value="skip">skip</option>
+          <option value="suffix">add _2, _3, ...</option>
+        </select>
+      </label>
+
+      <div className="flex items-end pb-1">
+        <FieldBoolean
+          label="Mirror input folders"
+          value={config.mirrorInputTree}
+          onChange={(value) => onChange({ mirrorInputTree: value })}
+        />
+      </div>
+    </div>
+  );
+}
+
+// Electron has no window.prompt, so new and renamed presets take their name from the text field.
+function PresetManager({
+  presets,
+  config,
+  onApply,
+  onSave,
+  onRename,
+  onDuplicate,
+  onDelete,
+  onImport,
+  onExport
+}: {
+  presets: Record<string, Partial<PixelConfig>>;
+  config: PixelConfig;
+  onApply: (config: PixelConfig) => void;
+  onSave: (name: string, config: PixelConfig) => void;
+  onRename: (from: string, to: string) => void;
+  onDuplicate: (name: string) => string;
+  onDelete: (name: string) => void;
+  onImport: () => void;
+  onExport: () => void;
+}) {
+  const names = Object.keys(presets).sort((a, b) => a.localeCompare(b));
+  const [selected, setSelected] = useState("");
+  const [draftName, setDraftName] = useState("");
+  const current = presets[selected] ? selected : "";
+  const name = draftName.trim();
+
+  const select = (next: string) => {
+    setSelected(next);
+    setDraftName(next);
+  };
+
+  return (
+    <div className="mt-3 flex flex-col gap-2 border-b border-slate-200 pb-3">
+      <div className="grid grid-cols-2 gap-2">
+        <label className="flex flex-col gap-1 text-xs text-slate-700">
+          Preset
+          <select
+            className="rounded-md border border-slate-300 px-2 py-1 text-sm"
+            value={current}
+            onChange={(event) => select(event.target.value)}
+          >
+            <option value="">{names.length === 0 ? "No presets saved" : "Choose a preset"}</option>
+            {names.map((entry) => (
+              <option key={entry} value={entry}>
+                {entry}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1 text-xs text-slate-700">
+          Name
+          <input
+            className="rounded-md border border-slate-300 px-2 py-1 text-sm"
+            type="text"
+            value={draftName}
+            placeholder="e.g. sprites"
+            onChange={(event) => setDraftName(event.target.value)}
+          />
+        </label>
+      </div>
+
+      <div className="flex flex-wrap gap-2 text-xs">
+        <button
+          className="btn"
+          type="button"
+          disabled={!current}
+          onClick={() => onApply({ ...defaultPixelConfig, ...presets[current] })}
+        >
+          Apply
+        </button>
+        <button
+          className="btn"
+          type="button"
+          disabled={!name}
+          onClick={() => {
+            onSave(name, config);
+            select(name);
+          }}
+        >
+          {presets[name] ? "Update" : "Save As"}
+        </button>
+        <button
+          className="btn"
+          type="button"
+          disabled={!current || !name || name === current || Boolean(presets[name])}
+          onClick={() => {
+            onRename(current, name);
+            select(name);
+          }}
+        >
+          Rename
+        </button>
+        <button className="btn" type="button" disabled={!current} onClick={() => select(onDuplicate(current))}>
+          Duplicate
+        </button>
+        <button
+          className="btn"
+          type="button"
+          disabled={!current}
+          onClick={() => {
+            onDelete(current);
+            select("");
+          }}
+        >
+          Delete
+        </button>
+        <button className="btn" type="button" onClick={onImport}>
+          Import
+        </button>
+        <button className="btn" type="button" disabled={names.length === 0} onClick={onExport}>
+          Export
+        </button>
+      </div>
+    </div>
+  );
+}
+
+function paletteSelectValue(source: PaletteSource | undefined): string {
+  if (!source) {
+    return "auto";
+  }
+  return source.type === "preset" ? `preset:${source.preset}` : "file";
+}
+
+function PalettePicker({
+  source,
+  paletteSize,
+  onChange,
+  onPickFile,
+  onResolve
+}: {
+  source: PaletteSource | undefined;
+  paletteSize: number;
+  onChange: (source: PaletteSource | undefined) => void;
+  onPickFile: () => Promise<string | null>;
+  onResolve: (source: PaletteSource) => Promise<string[]>;
+}) {
+  const [swatches, setSwatches] = useState<string[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const sourceKey = source ? JSON.stringify(source) : "";
+
+  useEffect(() => {
+    if (!source) {
+      setSwatches([]);
+      setError(null);
+      return;
+    }
+
+    let active = true;
+    onResolve(source).then(
+      (colors) => {
+        if (active) {
+          setSwatches(colors);
+          setError(null);
+        }
+      },
+      (resolveError) => {
+        if (active) {
+          setSwatches([]);
+          setError(resolveError instanceof Error ? resolveError.message : String(resolveError));
+        }
+      }
+    );
+    return () => {
+      active = false;
+    };
+  }, [sourceKey]);
+
+  const pickFile = async () => {
+    const filePath = await onPickFile();
+    if (filePath) {
+      onChange({ type: "file", path: filePath });
+    }
+  };
+
+  return (
+    <div className="col-span-2 flex flex-col gap-1 text-xs text-slate-700">
+      Palette Source
+      <div className="flex gap-2">
+        <select
+          className="min-w-0 flex-1 rounded-md border border-slate-300 px-2 py-1 text-sm"
+          value={paletteSelectValue(source)}
+          onChange={(event) => {
+            const value = event.target.value;
+            if (value === "auto") {
+              onChange(undefined);
+            } else if (value === "file") {
+              void pickFile();
+            } else {
+              onChange({ type: "preset", preset: value.slice("preset:".length) as PalettePresetName });
+            }
+          }}
+        >
+          <option value="auto">Auto ({paletteSize} colors)</option>
+          {palettePresetOptions.map((option) => (
+            <option key={option.value} value={`preset:${option.value}`}>
+              {option.label}
+            </option>
+          ))}
+          <option value="file">Palette file...</option>
+        </select>
+        {source?.type === "file" && (
+          <button className="btn btn-sm" type="button" onClick={() => void pickFile()}>
+            Browse
+          </button>
+        )}
+      </div>
+
+      {source?.type === "file" && (
+        <div className="truncate text-[11px] text-slate-500" title={source.path}>
+          {source.path}
+        </div>
+      )}
+
+      {error && <div className="text-[11px] text-red-600">{error}</div>}
+
+      {swatches.length > 0 && (
+        <div className="flex flex-wrap gap-0.5 pt-1">
+          {swatches.map((color, index) => (
+            <span
+              key={`${color}:${index}`}
+              className="h-4 w-4 rounded-sm border border-slate-300"
+              style={{ backgroundColor: color }}
+              title={color}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
 export function ConfigPanel({
   editorMode,
   selectedJob,
   globalConfig,
   onEditorModeChange,
   onGlobalPatch,
-  onLocalPatch
+  onLocalPatch,
+  onPickPaletteFile,
+  onResolvePalette,
+  presets,
+  onSavePreset,
+  onRenamePreset,
+  onDuplicatePreset,
+  onDeletePreset,
+  onImportPresets,
+  onExportPresets
 }: ConfigPanelProps) {
   const localConfig = selectedJob?.configMode === "local" ? selectedJob.localConfig : undefined;
   const config = editorMode === "global" ? globalConfig : localConfig;
@@ -148,9 +609,37 @@ export function ConfigPanel({
         </p>
       )}
 
+      {config && (
+        <PresetManager
+          presets={presets}
+          config={config}
+          onApply={update}
+          onSave={onSavePreset}
+          onRename={onRenamePreset}
+          onDuplicate={onDuplicatePreset}
+          onDelete={onDeletePreset}
+          onImport={onImportPresets}
+          onExport={onExportPresets}
+        />
+      )}
+
       {config && (
         <div className="mt-3 grid grid-cols-2 gap-2">
-          <FieldNumber label="Grid" value={config.grid} min={8} max={256} step={8} onChange={(value) => update({ grid: value })} />
+          <div className="flex flex-col gap-1">
+            <FieldNumber
+              label="Grid"
+              value={config.grid === "auto" ? undefined : config.grid}
+              min={8}
+              max={256}
+              step={8}
+              onChange={(value) => update({ grid: value })}
+            />
+            <FieldBoolean
+              label="Auto-detect (upscaled art)"
+              value={config.grid === "auto"}
+              onChange={(value) => update({ grid: value ? "auto" : defaultPixelConfig.grid })}
+            />
+          </div>
           <FieldNumber
             label="Palette"
             value={config.palette}
@@ -159,6 +648,13 @@ export function ConfigPanel({
             step={2}
             onChange={(value) => update({ palette: value })}
           />
+          <PalettePicker
+            source={config.paletteSource}
+            paletteSize={config.palette}
+            onChange={(paletteSource) => update({ paletteSource })}
+            onPickFile={onPickPaletteFile}
+            onResolve={onResolvePalette}
+          />
           <FieldNumber
             label="Alpha Threshold"
             value={config.alphaThreshold}
@@ -168,6 +664,96 @@ export function ConfigPanel({
           />
           <FieldNumber label="Scale" value={config.scale} min={1} max={8} onChange={(value) => update({ scale: value })} />
           <FieldNumber label="FPS" value={config.fps} min={1} max={120} onChange={(value) => update({ fps: value })} />
+          <FieldNumber
+            label="Trim Padding"
+            value={config.trimPadding}
+            min={0}
+            max={64}
+            onChange={(value) => update({ trimPadding: value })}
+          />
+
+          <label className="flex flex-col gap-1 text-xs text-slate-700">
+            Range (animated)
+            <select
+              className="rounded-md border border-slate-300 px-2 py-1 text-sm"
+              value={config.rangeUnit ?? "seconds"}
+              onChange={(event) => update({ rangeUnit: event.target.value as PixelConfig["rangeUnit"] })}
+            >
+              <option value="seconds">seconds</option>
+              <option value="frames">frames at FPS</option>
+            </select>
+          </label>
+          <div className="grid grid-cols-2 gap-2">
+            <FieldNumber
+              label="Start"
+              value={config.rangeStart}
+              min={0}
+              step={config.rangeUnit === "frames" ? 1 : 0.1}
+              onChange={(value) => update({ rangeStart: value })}
+            />
+            <FieldNumber
+              label="End (0 = all)"
+              value={config.rangeEnd}
+              min={0}
+              step={config.rangeUnit === "frames" ? 1 : 0.1}
+              onChange={(value) => update({ rangeEnd: value })}
+            />
+          </div>
+
+          <label className="flex flex-col gap-1 text-xs text-slate-700">
+            Downsample
+            <select
+              className="rounded-md border border-slate-300 px-2 py-1 text-sm"
+              value={config.downsample ?? "nearest"}
+              onChange={(event) => update({ downsample: event.target.value as PixelConfig["downsample"] })}
+            >
+              <option value="nearest">nearest</option>
+              <option value="area">area</option>
+              <option value="mode">mode (most common color)</option>
+              <option value="edge">edge-aware</option>
+            </select>
+          </label>
+
+          <label className="flex flex-col gap-1 text-xs text-slate-700">
+            Grid Mode
+            <select
+              className="rounded-md border border-slate-300 px-2 py-1 text-sm"
+              value={config.gridMode ?? "cell"}
+              onChange={(event) => update({ gridMode: event.target.value as PixelConfig["gridMode"] })}
+            >
+              <option value="cell">grid = cell size</option>
+              <option value="width">grid = output width</option>
+              <option value="height">grid = output height</option>
+            </select>
+          </label>
+          <div className="grid grid-cols-2 gap-2">
+            <FieldNumber
+              label="Offset X"
+              value={config.gridOffsetX}
+              min={0}
+              max={255}
+              onChange={(value) => update({ gridOffsetX: value })}
+            />
+            <FieldNumber
+              label="Offset Y"
+              value={config.gridOffsetY}
+              min={0}
+              max={255}
+              onChange={(value) => update({ gridOffsetY: value })}
+            />
+          </div>
+
+          <label className="flex flex-col gap-1 text-xs text-slate-700">
+            Quantizer (native)
+            <select
+              className="rounded-md border border-slate-300 px-2 py-1 text-sm"
+              value={config.quantizer ?? "median-cut"}
+              onChange={(event) => update({ quantizer: event.target.value as PixelConfig["quantizer"] })}
+            >
+              <option value="median-cut">median cut</option>
+              <option value="kmeans">k-means</option>
+            </select>
+          </label>
 
           <label className="flex flex-col gap-1 text-xs text-slate-700">
             Dither
@@ -182,34 +768,137 @@ export function ConfigPanel({
             </select>
           </label>
 
+          <label className="flex flex-col gap-1 text-xs text-slate-700">
+            Video Palette
+            <select
+              className="rounded-md border border-slate-300 px-2 py-1 text-sm"
+              value={config.videoPaletteMode ?? "single-pass"}
+              onChange={(event) =>
+                update({ videoPaletteMode: event.target.value as PixelConfig["videoPaletteMode"] })
+              }
+            >
+              <option value="single-pass">single pass</option>
+              <option value="two-pass">two-pass global</option>
+              <option value="per-scene">per scene</option>
+            </select>
+          </label>
+
+          {config.videoPaletteMode === "per-scene" && (
+            <FieldNumber
+              label="Scene Threshold (0-1)"
+              value={config.sceneThreshold}
+              min={0.01}
+              max={1}
+              step={0.05}
+              onChange={(value) => update({ sceneThreshold: value })}
+            />
+          )}
+
           <label className="flex flex-col gap-1 text-xs text-slate-700">
             Output
             <select
               className="rounded-md border border-slate-300 px-2 py-1 text-sm"
               value={config.outputFormat}
-              onChange={(event) => update({ outputFormat: event.target.value as PixelConfig["outputFormat"] })}
+              onChange={(event) => {
+                const outputFormat = event.target.value as NonNullable<PixelConfig["outputFormat"]>;
+                // H.264 can't go into webm; fall back to the default codec instead of failing at conversion.
+                const resetCodec = outputFormat === "webm" && config.videoCodec === "h264";
+                update(resetCodec ? { outputFormat, videoCodec: "auto" } : { outputFormat });
+              }}
             >
               <option value="png">png</option>
               <option value="svg">svg</option>
               <option value="mp4">mp4</option>
-              <option value="webm">webm</option>
+              <option value="webm">webm (alpha)</option>
+              <option value="mov">mov (alpha)</option>
+              <option value="gif">gif</option>
+              <option value="apng">apng</option>
+              <option value="webp">webp (animated)</option>
+              <option value="frames">png frames</option>
+            </select>
+          </label>
+
+          <FieldNumber
+            label="Loops (0 = forever)"
+            value={config.loopCount}
+            min={0}
+            max={65535}
+            onChange={(value) => update({ loopCount: value })}
+          />
+
+          <label className="flex flex-col gap-1 text-xs text-slate-700">
+            Outline Placement
+            <select
+              className="rounded-md border border-slate-300 px-2 py-1 text-sm"
+              value={config.outlinePlacement ?? "outer"}
+              disabled={!config.outline}
+              onChange={(event) => update({ outlinePlacement: event.target.value as PixelConfig["outlinePlacement"] })}
+            >
+              <option value="outer">outer</option>
+              <option value="inner">inner</option>
             </select>
           </label>
 
+          <label className="flex flex-col gap-1 text-xs text-slate-700">
+            Outline Connectivity
+            <select
+              className="rounded-md border border-slate-300 px-2 py-1 text-sm"
+              value={config.outlineConnectivity ?? 8}
+              disabled={!config.outline}
+              onChange={(event) =>
+                update({ outlineConnectivity: Number(event.target.value) as PixelConfig["outlineConnectivity"] })
+              }
+            >
+              <option value={4}>4-way</option>
+              <option value={8}>8-way</option>
+            </select>
+          </label>
+
+          <label className="flex flex-col gap-1 text-xs text-slate-700">
+            Outline Color
+            <input
+              className="h-8 w-full rounded-md border border-slate-300 px-1 py-0.5"
+              type="color"
+              value={config.outlineColor ?? "#000000"}
+              disabled={!config.outline}
+              onChange={(event) => update({ outlineColor: event.target.value })}
+            />
+          </label>
+
           <div className="col-span-2 grid grid-cols-2 gap-2 pt-1">
             <FieldBoolean label="Trim" value={config.trim} onChange={(value) => update({ trim: value })} />
             <FieldBoolean label="Outline" value={config.outline} onChange={(value) => update({ outline: value })} />
             <FieldBoolean
-              label="Alpha Mask (video)"
+              label="Stable Dither (video)"
+              value={config.stableDither}
+              onChange={(value) => update({ stableDither: value })}
+            />
+            <FieldBoolean
+              label="Export Palette"
+              value={config.exportPalette}
+              onChange={(value) => update({ exportPalette: value })}
+            />
+            <FieldBoolean
+              label="Alpha Mask (animated)"
               value={config.alphaMask}
               onChange={(value) => update({ alphaMask: value })}
             />
             <FieldBoolean
-              label="Spritesheet (video)"
+              label="Spritesheet (animated)"
               value={config.spritesheet}
               onChange={(value) => update({ spritesheet: value })}
             />
           </div>
+
+          {(config.outputFormat === "mp4" || config.outputFormat === "webm" || config.outputFormat === "mov") && (
+            <VideoEncodingFields config={config} onChange={update} />
+          )}
+
+          {config.spritesheet && (
+            <SpritesheetFields config={config} onChange={update} />
+          )}
+
+          <OutputNamingFields config={config} onChange={update} />
         </div>
       )}
     </aside>
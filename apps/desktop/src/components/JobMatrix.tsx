@@ -50,6 +50,15 @@ function InputPreview({ job }: { job: Job }) {
     );
   }
 
+  // A sequence path is a `%04d` pattern, not a file the renderer can load.
+  if (job.type === "sequence") {
+    return (
+      <div className="flex h-16 w-16 items-center justify-center rounded border border-slate-300 bg-slate-50 text-center text-[10px] text-slate-500">
+        PNG sequence
+      </div>
+    );
+  }
+
   return (
     <img
       src={src}
@@ -71,7 +80,17 @@ function OutputPreview({ job }: { job: Job }) {
   const version = readPreviewVersion(job.output.previewUrl);
   const src = toLocalFileUrl(job.output.primaryPath, version);
 
-  if (job.type === "video") {
+  // QuickTime Animation isn't playable in Chromium; the file is still reachable through Open.
+  if (/\.mov$/i.test(job.output.primaryPath)) {
+    return (
+      <div className="flex h-20 w-28 items-center justify-center rounded border border-slate-300 bg-slate-50 text-center text-[10px] text-slate-500">
+        QuickTime (no preview)
+      </div>
+    );
+  }
+
+  // Animated gif/apng/webp outputs of video jobs render as images.
+  if (/\.(mp4|webm)$/i.test(job.output.primaryPath)) {
     return (
       <video
         key={`${job.id}:${version ?? job.output.primaryPath}`}
@@ -101,8 +120,12 @@ type JobMatrixProps = {
   onSelect: (jobId: string) => void;
   onToggleEnabled: (jobId: string) => void;
   onSetConfigMode: (jobId: string, mode: "global" | "local") => void;
+  presetNames: string[];
+  onSetPreset: (jobId: string, presetName: string | undefined) => void;
   onRemove: (jobId: string) => void;
   onReorder: (dragId: string, targetId: string) => void;
+  onTogglePause: (jobId: string) => void;
+  onToggleRush: (jobId: string) => void;
   onDropFiles: (paths: string[]) => void | Promise<void>;
   onOpenOutput: (outputPath: string) => void;
 };
@@ -113,8 +136,12 @@ export function JobMatrix({
   onSelect,
   onToggleEnabled,
   onSetConfigMode,
+  presetNames,
+  onSetPreset,
   onRemove,
   onReorder,
+  onTogglePause,
+  onToggleRush,
   onDropFiles,
   onOpenOutput
 }: JobMatrixProps) {
@@ -193,12 +220,28 @@ export function JobMatrix({
                       <div className="truncate text-sm font-medium text-slate-800">{formatLabel(job.inputPath)}</div>
                       <div className="mt-1 text-xs text-slate-500">
                         {job.type} | {statusLabel(job)} | {job.configMode}
+                        {job.configMode === "global" && job.presetName ? ` (${job.presetName})` : ""}
                       </div>
                     </div>
                   </div>
                 </button>
 
                 <div className="flex shrink-0 items-center gap-1">
+                  {job.configMode === "global" && (presetNames.length > 0 || job.presetName) && (
+                    <select
+                      className="rounded-md border border-slate-300 px-1 py-0.5 text-xs"
+                      value={job.presetName ?? ""}
+                      title="Preset used instead of the global settings"
+                      onChange={(event) => onSetPreset(job.id, event.target.value || undefined)}
+                    >
+                      <option value="">Global</option>
+                      {presetNames.map((name) => (
+                        <option key={name} value={name}>
+                          {name}
+                        </option>
+                      ))}
+                    </select>
+                  )}
                   <button
                     className="btn btn-sm"
                     type="button"
@@ -206,6 +249,21 @@ export function JobMatrix({
                   >
                     {job.configMode === "global" ? "Use Local" : "Use Global"}
                   </button>
+                  {job.status !== "processing" && job.status !== "done" && (
+                    <button
+                      className={`btn btn-sm ${job.priority ? "bg-amber-100" : ""}`}
+                      type="button"
+                      title="Run before jobs at normal priority"
+                      onClick={() => onToggleRush(job.id)}
+                    >
+                      {job.priority ? "Rushed" : "Rush"}
+                    </button>
+                  )}
+                  {(job.status === "queued" || job.status === "processing" || job.status === "paused") && (
+                    <button className="btn btn-sm" type="button" onClick={() => onTogglePause(job.id)}>
+                      {job.status === "paused" ? "Resume" : "Pause"}
+                    </button>
+                  )}
                   <button className="btn btn-sm" type="button" onClick={() => onRemove(job.id)}>
                     Remove
                   </button>
@@ -214,9 +272,13 @@ export function JobMatrix({
             </div>
 
             <div className="min-w-0 overflow-hidden border-l border-slate-200 px-3 py-3">
-              {(job.status === "idle" || job.status === "queued") && (
+              {(job.status === "idle" || job.status === "queued" || job.status === "paused") && (
                 <div className="rounded-md border border-dashed border-slate-300 bg-slate-50 p-3 text-xs text-slate-500">
-                  {job.status === "queued" ? "Queued..." : "Preview placeholder: waiting for conversion"}
+                  {job.status === "queued"
+                    ? job.errorMessage ?? "Queued..."
+                    : job.status === "paused"
+                      ? "Paused; resume to run it from the start."
+                      : "Preview placeholder: waiting for conversion"}
                 </div>
               )}
 
@@ -235,7 +297,7 @@ export function JobMatrix({
               {job.status === "done" && job.output && (
                 <div className="space-y-1">
                   <OutputPreview job={job} />
-                  <div className="text-xs text-slate-600">Done</div>
+                  <div className="text-xs text-slate-600">{job.output.skipped ? "Skipped (output exists)" : "Done"}</div>
                   <div className="truncate text-xs text-slate-700" title={job.output.primaryPath}>
                     {job.output.primaryPath}
                   </div>
@@ -262,10 +324,24 @@ export function JobMatrix({
               )}
 
               {job.status === "error" && (
-                <div className="text-xs text-red-600">{job.errorMessage ?? "Unknown error"}</div>
+                <div className="text-xs text-red-600">
+                  <div>{job.errorMessage ?? "Unknown error"}</div>
+                  {job.errorHint && <div className="text-slate-600">{job.errorHint}</div>}
+                  {job.errorLog && (
+                    <details>
+                      <summary className="cursor-pointer text-slate-600">ffmpeg log</summary>
+                      <pre className="max-h-48 overflow-auto whitespace-pre-wrap rounded bg-slate-100 p-2 text-[10px] text-slate-700">
+                        {job.errorLog}
+                      </pre>
+                    </details>
+                  )}
+                </div>
               )}
 
               {job.status === "canceled" && <div className="text-xs text-slate-500">Canceled</div>}
+              {job.status === "interrupted" && (
+                <div className="text-xs text-amber-700">Interrupted when the app closed. Resume it from the toolbar.</div>
+              )}
             </div>
           </div>
         ))}
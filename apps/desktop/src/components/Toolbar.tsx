@@ -1,9 +1,20 @@
-import type { Job } from "@pixel/core";
+import type { ConversionEngine, Job, ProjectConfig } from "@pixel/core";
 
 type ToolbarProps = {
   jobs: Job[];
   outputDir: string;
   concurrency: number;
+  // Most videos running at once; 0 is no limit.
+  videoLimit: number;
+  retries: number;
+  jobTimeoutSeconds: number;
+  stallTimeoutSeconds: number;
+  retryTimeouts: boolean;
+  queuePaused: boolean;
+  engine: ConversionEngine;
+  sharedPalette: boolean;
+  project: ProjectConfig | null;
+  configError: string | null;
   onAddFiles: () => void;
   onPickOutput: () => void;
   onConvertSelected: () => void;
@@ -11,21 +22,59 @@ type ToolbarProps = {
   onCancel: () => void;
   onClearCompleted: () => void;
   onConcurrencyChange: (value: number) => void;
+  onVideoLimitChange: (value: number) => void;
+  onRetriesChange: (value: number) => void;
+  onJobTimeoutChange: (value: number) => void;
+  onStallTimeoutChange: (value: number) => void;
+  onRetryTimeoutsChange: (value: boolean) => void;
+  onTogglePause: () => void;
+  onEngineChange: (value: ConversionEngine) => void;
+  onSharedPaletteChange: (value: boolean) => void;
+  onImportConfig: () => void;
+  onExportConfig: () => void;
+  onClearConfig: () => void;
+  onResumeInterrupted: () => void;
+  onDiscardInterrupted: () => void;
 };
 
 export function Toolbar({
   jobs,
   outputDir,
   concurrency,
+  videoLimit,
+  retries,
+  jobTimeoutSeconds,
+  stallTimeoutSeconds,
+  retryTimeouts,
+  queuePaused,
+  engine,
+  sharedPalette,
+  project,
+  configError,
   onAddFiles,
   onPickOutput,
   onConvertSelected,
   onConvertIncluded,
   onCancel,
   onClearCompleted,
-  onConcurrencyChange
+  onConcurrencyChange,
+  onVideoLimitChange,
+  onRetriesChange,
+  onJobTimeoutChange,
+  onStallTimeoutChange,
+  onRetryTimeoutsChange,
+  onTogglePause,
+  onEngineChange,
+  onSharedPaletteChange,
+  onImportConfig,
+  onExportConfig,
+  onClearConfig,
+  onResumeInterrupted,
+  onDiscardInterrupted
 }: ToolbarProps) {
+  const durationLabel = (seconds: number) => (seconds === 0 ? "off" : seconds < 60 ? `${seconds}s` : `${seconds / 60} min`);
   const activeCount = jobs.filter((job) => job.status === "processing" || job.status === "queued").length;
+  const interruptedCount = jobs.filter((job) => job.status === "interrupted").length;
 
   return (
     <header className="rounded-xl border border-slate-300/80 bg-white/80 p-4 backdrop-blur">
@@ -42,14 +91,38 @@ export function Toolbar({
         <button className="btn btn-accent" onClick={onConvertIncluded} type="button">
           Convert All Included
         </button>
+        <button className="btn" onClick={onTogglePause} type="button" title="Running jobs finish; queued jobs wait">
+          {queuePaused ? "Resume Queue" : "Pause Queue"}
+        </button>
         <button className="btn btn-danger" onClick={onCancel} type="button">
           Cancel
         </button>
         <button className="btn" onClick={onClearCompleted} type="button">
           Clear Completed
         </button>
+        <button className="btn" onClick={onImportConfig} type="button" title="Load a pixel.config.json/.yaml">
+          Import Config
+        </button>
+        <button className="btn" onClick={onExportConfig} type="button" title="Save the global config and rules as pixel.config.json">
+          Export Config
+        </button>
 
         <div className="ml-auto flex items-center gap-2 text-sm text-slate-700">
+          <label htmlFor="engine">Engine</label>
+          <select
+            id="engine"
+            className="rounded-md border border-slate-300 bg-white px-2 py-1"
+            value={engine}
+            title="native converts PNG images in-process without ffmpeg"
+            onChange={(event) => onEngineChange(event.target.value as ConversionEngine)}
+          >
+            <option value="ffmpeg">ffmpeg</option>
+            <option value="native">native</option>
+          </select>
+          <label className="flex items-center gap-1" title="Extract one palette from the whole batch and apply it to every job">
+            <input type="checkbox" checked={sharedPalette} onChange={(event) => onSharedPaletteChange(event.target.checked)} />
+            Shared palette
+          </label>
           <label htmlFor="concurrency">Concurrency</label>
           <select
             id="concurrency"
@@ -63,11 +136,95 @@ export function Toolbar({
               </option>
             ))}
           </select>
+          <label htmlFor="video-limit" title="Most videos converting at once; images keep running beside them">
+            Videos
+          </label>
+          <select
+            id="video-limit"
+            className="rounded-md border border-slate-300 bg-white px-2 py-1"
+            value={videoLimit}
+            onChange={(event) => onVideoLimitChange(Number(event.target.value))}
+          >
+            {[0, 1, 2].map((value) => (
+              <option key={value} value={value}>
+                {value === 0 ? "any" : value}
+              </option>
+            ))}
+          </select>
+          <label htmlFor="retries" title="Retry failed jobs, waiting 1s, 2s, 4s, ... in between">
+            Retries
+          </label>
+          <select
+            id="retries"
+            className="rounded-md border border-slate-300 bg-white px-2 py-1"
+            value={retries}
+            onChange={(event) => onRetriesChange(Number(event.target.value))}
+          >
+            {[0, 1, 2, 3].map((value) => (
+              <option key={value} value={value}>
+                {value}
+              </option>
+            ))}
+          </select>
+          <label htmlFor="job-timeout" title="Stop a job that runs longer than this">
+            Timeout
+          </label>
+          <select
+            id="job-timeout"
+            className="rounded-md border border-slate-300 bg-white px-2 py-1"
+            value={jobTimeoutSeconds}
+            onChange={(event) => onJobTimeoutChange(Number(event.target.value))}
+          >
+            {[0, 60, 300, 900, 3600].map((value) => (
+              <option key={value} value={value}>
+                {durationLabel(value)}
+              </option>
+            ))}
+          </select>
+          <label htmlFor="stall-timeout" title="Stop ffmpeg when it reports no progress for this long">
+            Stall
+          </label>
+          <select
+            id="stall-timeout"
+            className="rounded-md border border-slate-300 bg-white px-2 py-1"
+            value={stallTimeoutSeconds}
+            onChange={(event) => onStallTimeoutChange(Number(event.target.value))}
+          >
+            {[0, 30, 60, 120, 300].map((value) => (
+              <option key={value} value={value}>
+                {durationLabel(value)}
+              </option>
+            ))}
+          </select>
+          <label className="flex items-center gap-1" title="Count timed-out and stalled jobs against Retries too">
+            <input type="checkbox" checked={retryTimeouts} onChange={(event) => onRetryTimeoutsChange(event.target.checked)} />
+            Retry timeouts
+          </label>
           <span className="rounded-md bg-slate-100 px-2 py-1">Active: {activeCount}</span>
         </div>
       </div>
 
       <p className="mt-3 text-xs text-slate-600">Output: {outputDir}</p>
+      {project && (
+        <p className="mt-1 text-xs text-slate-600">
+          Config: {project.rules.length} rule(s) from {project.rootDir}{" "}
+          <button className="underline" type="button" onClick={onClearConfig}>
+            clear
+          </button>
+        </p>
+      )}
+      {configError && <p className="mt-1 text-xs text-red-600">{configError}</p>}
+      {interruptedCount > 0 && (
+        <p className="mt-1 text-xs text-amber-700">
+          {interruptedCount} job(s) were interrupted when the app closed; their partial outputs were removed.{" "}
+          <button className="underline" type="button" onClick={onResumeInterrupted}>
+            resume
+          </button>{" "}
+          <button className="underline" type="button" onClick={onDiscardInterrupted}>
+            discard
+          </button>
+        </p>
+      )}
     </header>
   );
 }
@@ -1,15 +1,70 @@
-import type { PixelConfig } from "@pixel/core";
+import type { OutputFormat, PalettePresetName, PixelConfig, SpritesheetFormat, VideoCodec } from "@pixel/core";
 
 export const defaultPixelConfig: PixelConfig = {
   grid: 32,
+  gridMode: "cell",
+  gridOffsetX: 0,
+  gridOffsetY: 0,
+  downsample: "nearest",
   palette: 64,
+  exportPalette: false,
+  quantizer: "median-cut",
   dither: "bayer",
+  videoPaletteMode: "single-pass",
+  sceneThreshold: 0.3,
+  stableDither: false,
   trim: false,
+  trimPadding: 0,
   alphaThreshold: 8,
   outline: false,
+  outlineColor: "#000000",
+  outlinePlacement: "outer",
+  outlineConnectivity: 8,
   scale: 2,
   fps: 24,
+  rangeUnit: "seconds",
+  rangeStart: 0,
+  rangeEnd: 0,
   outputFormat: "png",
+  loopCount: 0,
+  videoCodec: "auto",
+  videoRateControl: "crf",
+  videoCrf: 0,
+  videoBitrateKbps: 4000,
+  audio: "none",
+  audioBitrateKbps: 160,
   alphaMask: false,
-  spritesheet: false
+  spritesheet: false,
+  spritesheetColumns: 0,
+  spritesheetRows: 0,
+  spritesheetPadding: 0,
+  spritesheetExtrude: 0,
+  spritesheetFrameStart: 0,
+  spritesheetFrameCount: 0,
+  spritesheetFormats: ["texturepacker-hash"],
+  outputTemplate: "{name}_pixel.{ext}",
+  mirrorInputTree: false,
+  outputCollision: "overwrite"
 };
+
+export const palettePresetOptions: Array<{ value: PalettePresetName; label: string }> = [
+  { value: "pico-8", label: "PICO-8" },
+  { value: "gameboy-dmg", label: "Game Boy DMG" },
+  { value: "nes", label: "NES" },
+  { value: "endesga-32", label: "Endesga 32" },
+  { value: "db32", label: "DawnBringer 32" }
+];
+
+export const spritesheetFormatOptions: Array<{ value: SpritesheetFormat; label: string }> = [
+  { value: "texturepacker-hash", label: "TexturePacker JSON (hash)" },
+  { value: "texturepacker-array", label: "TexturePacker JSON (array)" },
+  { value: "aseprite", label: "Aseprite JSON" },
+  { value: "csv", label: "CSV" }
+];
+
+export const videoCodecOptions: Array<{ value: VideoCodec; label: string; formats: OutputFormat[] }> = [
+  { value: "auto", label: "auto", formats: ["mp4", "webm"] },
+  { value: "h264", label: "H.264", formats: ["mp4"] },
+  { value: "vp9", label: "VP9", formats: ["mp4", "webm"] },
+  { value: "av1", label: "AV1", formats: ["mp4", "webm"] }
+];
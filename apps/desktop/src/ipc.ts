@@ -1,15 +1,45 @@
-import type { AssetType, JobOutput, PixelConfig } from "@pixel/core";
+import type {
+  AssetType,
+  ConversionEngine,
+  Job,
+  JobOutput,
+  PaletteSource,
+  PixelConfig,
+  PixelErrorCode,
+  ProjectConfig
+} from "@pixel/core";
 
 export type StartJobPayload = {
   id: string;
   inputPath: string;
+  inputRoot?: string;
   type: AssetType;
+  // Config file rule overrides only apply to jobs on the global config.
+  configMode: Job["configMode"];
   config: PixelConfig;
+  priority?: number;
+};
+
+// An expanded input file with the dropped/picked folder it was found under.
+export type ExpandedPath = {
+  inputPath: string;
+  inputRoot: string;
 };
 
 export type StartConversionPayload = {
   jobs: StartJobPayload[];
   outputDir: string;
+  engine?: ConversionEngine;
+  sharedPalette?: boolean;
+  project?: ProjectConfig | null;
+  // 0 turns the limit off.
+  jobTimeoutSeconds?: number;
+  stallTimeoutSeconds?: number;
+};
+
+export type ExportConfigPayload = {
+  globalConfig: PixelConfig;
+  project: ProjectConfig | null;
 };
 
 export type JobEvent =
@@ -17,17 +47,46 @@ export type JobEvent =
   | { type: "start"; jobId: string }
   | { type: "progress"; jobId: string; progress: number }
   | { type: "done"; jobId: string; result: JobOutput }
-  | { type: "error"; jobId: string; message: string }
+  | { type: "skipped"; jobId: string; result: JobOutput }
+  | {
+      type: "error";
+      jobId: string;
+      message: string;
+      kind: "failed" | "timeout";
+      code: PixelErrorCode;
+      // What the user can do about it.
+      hint: string;
+      // ffmpeg's output, when it was ffmpeg that failed.
+      log?: string;
+    }
   | { type: "canceled"; jobId: string }
+  | { type: "paused"; jobId?: string }
+  | { type: "retrying"; jobId: string; attempt: number; delayMs: number; message: string }
   | { type: "idle" };
 
 export type PixelBridge = {
   pickFiles: () => Promise<string[]>;
   pickOutputDir: () => Promise<string | null>;
-  expandPaths: (paths: string[]) => Promise<string[]>;
+  pickPaletteFile: () => Promise<string | null>;
+  resolvePalette: (source: PaletteSource) => Promise<string[]>;
+  expandPaths: (paths: string[]) => Promise<ExpandedPath[]>;
+  importConfig: () => Promise<ProjectConfig | null>;
+  exportConfig: (payload: ExportConfigPayload) => Promise<string | null>;
+  importPresets: () => Promise<Record<string, Partial<PixelConfig>> | null>;
+  exportPresets: (presets: Record<string, Partial<PixelConfig>>) => Promise<string | null>;
   startConversion: (payload: StartConversionPayload) => Promise<string[]>;
   cancel: (jobId?: string) => Promise<boolean>;
+  // Jobs left unfinished when the app last quit or crashed.
+  getInterruptedJobs: () => Promise<string[]>;
+  resumeInterruptedJobs: (jobIds: string[]) => Promise<string[]>;
+  discardInterruptedJobs: () => Promise<boolean>;
   setConcurrency: (count: number) => Promise<number>;
+  setRetries: (retries: number, retryTimeouts: boolean) => Promise<number>;
+  setTypeLimits: (limits: Partial<Record<AssetType, number>>) => Promise<boolean>;
+  pause: (jobId?: string) => Promise<boolean>;
+  resume: (jobId?: string) => Promise<boolean>;
+  reorder: (jobIds: string[]) => Promise<boolean>;
+  setPriority: (jobId: string, priority: number) => Promise<boolean>;
   openPath: (targetPath: string) => Promise<void>;
   onJobEvent: (callback: (event: JobEvent) => void) => () => void;
 };
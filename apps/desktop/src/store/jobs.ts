@@ -1,7 +1,7 @@
 import { create } from "zustand";
 import { persist } from "zustand/middleware";
-import type { AssetType, Job, PixelConfig } from "@pixel/core";
-import type { JobEvent } from "../ipc";
+import type { AssetType, ConversionEngine, Job, PixelConfig, ProjectConfig } from "@pixel/core";
+import type { ExpandedPath, JobEvent } from "../ipc";
 import { defaultPixelConfig } from "../constants";
 
 type EditorMode = "global" | "local";
@@ -13,7 +13,22 @@ type JobStore = {
   globalConfig: PixelConfig;
   outputDir: string;
   concurrency: number;
-  addPaths: (paths: string[]) => void;
+  // Most jobs of a type running at once, like the CLI's --max-per-type; types without an entry are unlimited.
+  typeLimits: Partial<Record<AssetType, number>>;
+  // Automatic retries for failed jobs.
+  retries: number;
+  // Limits that stop a hung job, in seconds (0 is off); timed-out jobs are only retried with retryTimeouts.
+  jobTimeoutSeconds: number;
+  stallTimeoutSeconds: number;
+  retryTimeouts: boolean;
+  queuePaused: boolean;
+  engine: ConversionEngine;
+  sharedPalette: boolean;
+  // Imported pixel.config file; its defaults seed globalConfig, its rules apply when converting.
+  project: ProjectConfig | null;
+  // Saved named presets; stored as patches over the defaults, the same shape the CLI reads with --preset.
+  presets: Record<string, Partial<PixelConfig>>;
+  addPaths: (paths: ExpandedPath[]) => void;
   removeJob: (id: string) => void;
   reorderJobs: (dragId: string, targetId: string) => void;
   toggleEnabled: (id: string) => void;
@@ -21,10 +36,30 @@ type JobStore = {
   setEditorMode: (mode: EditorMode) => void;
   setOutputDir: (outputDir: string) => void;
   setConcurrency: (concurrency: number) => void;
+  // 0 removes the type's limit.
+  setTypeLimit: (type: AssetType, limit: number) => void;
+  setRetries: (retries: number) => void;
+  setJobTimeout: (seconds: number) => void;
+  setStallTimeout: (seconds: number) => void;
+  setRetryTimeouts: (retryTimeouts: boolean) => void;
+  setQueuePaused: (queuePaused: boolean) => void;
+  setEngine: (engine: ConversionEngine) => void;
+  setSharedPalette: (sharedPalette: boolean) => void;
+  importProject: (project: ProjectConfig) => void;
+  clearProject: () => void;
+  savePreset: (name: string, config: Partial<PixelConfig>) => void;
+  renamePreset: (from: string, to: string) => void;
+  duplicatePreset: (name: string) => string;
+  deletePreset: (name: string) => void;
+  importPresets: (presets: Record<string, Partial<PixelConfig>>) => void;
+  setJobPreset: (id: string, presetName: string | undefined) => void;
+  setJobPriority: (id: string, priority: number) => void;
   setJobConfigMode: (id: string, mode: "global" | "local") => void;
   updateGlobalConfig: (patch: Partial<PixelConfig>) => void;
   updateSelectedLocalConfig: (patch: Partial<PixelConfig>) => void;
   markQueued: (jobIds: string[]) => void;
+  markInterrupted: (jobIds: string[]) => void;
+  resetInterrupted: () => void;
   applyEvent: (event: JobEvent) => void;
   clearCompleted: () => void;
 };
@@ -34,6 +69,9 @@ function detectAssetType(inputPath: string): AssetType {
   if (lower.endsWith(".svg")) {
     return "svg";
   }
+  if (/%(0\d+)?d\.png$/.test(lower)) {
+    return "sequence";
+  }
   if (
     [".mp4", ".mov", ".webm", ".mkv", ".avi", ".m4v"].some((ext) =>
       lower.endsWith(ext)
@@ -50,14 +88,26 @@ function basename(inputPath: string): string {
   return segments[segments.length - 1] ?? inputPath;
 }
 
+const clearedError = { errorMessage: undefined, errorCode: undefined, errorHint: undefined, errorLog: undefined };
+
 function normalizeOrder(jobs: Job[]): Job[] {
   return jobs.map((job, index) => ({ ...job, order: index }));
 }
 
-function createJob(inputPath: string, order: number): Job {
+// "name copy", then "name copy 2", ... until the name is free.
+function uniquePresetName(base: string, presets: Record<string, Partial<PixelConfig>>): string {
+  let candidate = `${base} copy`;
+  for (let index = 2; presets[candidate]; index += 1) {
+    candidate = `${base} copy ${index}`;
+  }
+  return candidate;
+}
+
+function createJob({ inputPath, inputRoot }: ExpandedPath, order: number): Job {
   return {
     id: crypto.randomUUID(),
     inputPath,
+    inputRoot,
     type: detectAssetType(inputPath),
     enabled: true,
     order,
@@ -90,16 +140,26 @@ export const useJobStore = create<JobStore>()(
       globalConfig: { ...defaultPixelConfig },
       outputDir: "outputs",
       concurrency: 2,
+      typeLimits: {},
+      retries: 0,
+      jobTimeoutSeconds: 0,
+      stallTimeoutSeconds: 120,
+      retryTimeouts: false,
+      queuePaused: false,
+      engine: "ffmpeg",
+      sharedPalette: false,
+      project: null,
+      presets: {},
 
       addPaths(paths) {
         set((state) => {
           const existing = new Set(state.jobs.map((job) => job.inputPath));
           const next = [...state.jobs];
-          for (const filePath of paths) {
-            if (existing.has(filePath)) {
+          for (const entry of paths) {
+            if (existing.has(entry.inputPath)) {
               continue;
             }
-            next.push(createJob(filePath, next.length));
+            next.push(createJob(entry, next.length));
           }
           return { jobs: normalizeOrder(next) };
         });
@@ -167,6 +227,109 @@ export const useJobStore = create<JobStore>()(
         set({ concurrency: Math.max(1, Math.floor(concurrency)) });
       },
 
+      setTypeLimit(type, limit) {
+        set((state) => {
+          const typeLimits = { ...state.typeLimits };
+          if (limit > 0) {
+            typeLimits[type] = Math.floor(limit);
+          } else {
+            delete typeLimits[type];
+          }
+          return { typeLimits };
+        });
+      },
+
+      setRetries(retries) {
+        set({ retries: Math.max(0, Math.floor(retries)) });
+      },
+
+      setJobTimeout(seconds) {
+        set({ jobTimeoutSeconds: Math.max(0, seconds) });
+      },
+
+      setStallTimeout(seconds) {
+        set({ stallTimeoutSeconds: Math.max(0, seconds) });
+      },
+
+      setRetryTimeouts(retryTimeouts) {
+        set({ retryTimeouts });
+      },
+
+      setQueuePaused(queuePaused) {
+        set({ queuePaused });
+      },
+
+      setEngine(engine) {
+        set({ engine });
+      },
+
+      setSharedPalette(sharedPalette) {
+        set({ sharedPalette });
+      },
+
+      importProject(project) {
+        set({ project, globalConfig: { ...defaultPixelConfig, ...project.defaults } });
+      },
+
+      clearProject() {
+        set({ project: null });
+      },
+
+      savePreset(name, config) {
+        set((state) => ({ presets: { ...state.presets, [name]: { ...config } } }));
+      },
+
+      renamePreset(from, to) {
+        if (from === to) {
+          return;
+        }
+        set((state) => {
+          const { [from]: preset, ...rest } = state.presets;
+          if (!preset) {
+            return { presets: state.presets };
+          }
+          return {
+            presets: { ...rest, [to]: preset },
+            jobs: state.jobs.map((job) => (job.presetName === from ? { ...job, presetName: to } : job))
+          };
+        });
+      },
+
+      duplicatePreset(name) {
+        const presets = get().presets;
+        const copyName = uniquePresetName(name, presets);
+        if (presets[name]) {
+          set({ presets: { ...presets, [copyName]: { ...presets[name] } } });
+        }
+        return copyName;
+      },
+
+      deletePreset(name) {
+        set((state) => {
+          const { [name]: _removed, ...presets } = state.presets;
+          return {
+            presets,
+            jobs: state.jobs.map((job) => (job.presetName === name ? { ...job, presetName: undefined } : job))
+          };
+        });
+      },
+
+      importPresets(presets) {
+        set((state) => ({ presets: { ...state.presets, ...presets } }));
+      },
+
+      setJobPreset(id, presetName) {
+        set((state) => ({
+          jobs: state.jobs.map((job) => (job.id === id ? { ...job, presetName } : job))
+        }));
+      },
+
+      setJobPriority(id, priority) {
+        set((state) => ({
+          jobs: state.jobs.map((job) => (job.id === id ? { ...job, priority } : job))
+        }));
+      },
+
       setJobConfigMode(id, mode) {
         set((state) => ({
           jobs: state.jobs.map((job) => {
@@ -229,10 +392,37 @@ export const useJobStore = create<JobStore>()(
         }));
       },
 
+      // After a restart, jobs the main process still has journaled are interrupted; other jobs that were queued or
+      // running when the app closed can't be resumed and go back to idle.
+      markInterrupted(jobIds) {
+        const interrupted = new Set(jobIds);
+        set((state) => ({
+          jobs: state.jobs.map((job) => {
+            if (interrupted.has(job.id)) {
+              return { ...job, status: "interrupted", progress: 0 };
+            }
+            if (["queued", "processing", "paused", "interrupted"].includes(job.status)) {
+              return { ...job, status: "idle", progress: 0 };
+            }
+            return job;
+          })
+        }));
+      },
+
+      resetInterrupted() {
+        set((state) => ({
+          jobs: state.jobs.map((job) => (job.status === "interrupted" ? { ...job, status: "idle", progress: 0 } : job))
+        }));
+      },
+
       applyEvent(event) {
         if (event.type === "idle") {
           return;
         }
+        if (event.type === "paused" && !event.jobId) {
+          set({ queuePaused: true });
+          return;
+        }
 
         set((state) => ({
           jobs: state.jobs.map((job) => {
@@ -242,17 +432,34 @@ export const useJobStore = create<JobStore>()(
 
             switch (event.type) {
               case "queued":
-                return { ...job, status: "queued", progress: 0, errorMessage: undefined };
+                return { ...job, status: "queued", progress: 0, ...clearedError };
               case "start":
                 return { ...job, status: "processing", progress: Math.max(0.01, job.progress) };
               case "progress":
                 return { ...job, status: "processing", progress: event.progress };
               case "done":
-                return { ...job, status: "done", progress: 1, output: event.result, errorMessage: undefined };
+              case "skipped":
+                return { ...job, status: "done", progress: 1, output: event.result, ...clearedError };
               case "error":
-                return { ...job, status: "error", errorMessage: event.message };
+                return {
+                  ...job,
+                  status: "error",
+                  errorMessage: event.message,
+                  errorCode: event.code,
+                  errorHint: event.hint,
+                  errorLog: event.log
+                };
               case "canceled":
-                return { ...job, status: "canceled", errorMessage: undefined };
+                return { ...job, status: "canceled", ...clearedError };
+              case "paused":
+                return { ...job, status: "paused", progress: 0 };
+              case "retrying":
+                return {
+                  ...job,
+                  status: "queued",
+                  progress: 0,
+                  errorMessage: `Attempt ${event.attempt - 1} failed: ${event.message}. Retrying in ${Math.round(event.delayMs / 1000)}s.`
+                };
               default:
                 return job;
             }
@@ -270,11 +477,36 @@ export const useJobStore = create<JobStore>()(
     }),
     {
       name: "pixel-desktop-settings",
+      version: 1,
+      // Before version 1 a CRF of 0 meant the codec default; it now means CRF 0, so saved zeros become unset.
+      migrate: (persisted, version) => {
+        const state = persisted as Partial<JobStore>;
+        if (version < 1) {
+          const dropZeroCrf = (config?: PixelConfig) =>
+            config?.videoCrf === 0 ? { ...config, videoCrf: undefined } : config;
+          if (state.globalConfig) {
+            state.globalConfig = dropZeroCrf(state.globalConfig);
+          }
+          state.jobs = state.jobs?.map((job) => ({ ...job, localConfig: dropZeroCrf(job.localConfig) }));
+        }
+        return state as JobStore;
+      },
       partialize: (state) => ({
+        // ffmpeg logs can be long; they only matter for the session that produced them.
+        jobs: state.jobs.map((job): Job => ({ ...job, errorLog: undefined })),
         editorMode: state.editorMode,
         globalConfig: state.globalConfig,
         outputDir: state.outputDir,
-        concurrency: state.concurrency
+        concurrency: state.concurrency,
+        typeLimits: state.typeLimits,
+        retries: state.retries,
+        jobTimeoutSeconds: state.jobTimeoutSeconds,
+        stallTimeoutSeconds: state.stallTimeoutSeconds,
+        retryTimeouts: state.retryTimeouts,
+        engine: state.engine,
+        sharedPalette: state.sharedPalette,
+        project: state.project,
+        presets: state.presets
       })
     }
   )
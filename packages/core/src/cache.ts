@@ -0,0 +1,135 @@
+import { createHash } from "node:crypto";
+import fs from "node:fs/promises";
+import path from "node:path";
+import { listSequenceFrames } from "./sequence";
+import type { AssetType, ConvertResult, PixelConfig } from "./types";
+
+// Lives in the output folder, next to the outputs it describes.
+export const cacheManifestName = ".pixel-cache.json";
+
+const manifestVersion = 1;
+
+// Bump whenever either engine writes different pixels or files for the same input and config, so the change
+// reconverts cached outputs; package versions aren't bumped for every such change.
+export const outputPipelineVersion = 1;
+
+export type CacheJob = {
+  inputPath: string;
+  type: AssetType;
+  config: PixelConfig;
+  // Folder the job writes to; moving outputs elsewhere (e.g. a new config file rule) reconverts.
+  outputDir?: string;
+  // Engine name, package and pipeline version, plus the ffmpeg build for the ffmpeg engine, e.g.
+  // `ffmpeg@0.1.0+pipeline.1 (ffmpeg version 6.1.1 ...)`; any change invalidates every entry.
+  engineVersion: string;
+};
+
+type CacheEntry = {
+  fingerprint: string;
+  result: ConvertResult;
+};
+
+type CacheManifest = {
+  version: number;
+  entries: Record<string, CacheEntry>;
+};
+
+// JSON with sorted object keys, so equal configs hash the same regardless of how they were assembled.
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${stableStringify(item)}`).join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+async function hashFiles(hash: ReturnType<typeof createHash>, filePaths: string[]): Promise<void> {
+  for (const filePath of filePaths) {
+    hash.update(path.basename(filePath));
+    hash.update(await fs.readFile(filePath));
+  }
+}
+
+// Content hash of everything a conversion reads: the input (every frame of a sequence), the effective config,
+// a palette file it points at, and the engine version. Touching a file without changing it keeps the fingerprint.
+export async function computeCacheFingerprint(job: CacheJob): Promise<string> {
+  const hash = createHash("sha256");
+  hash.update(
+    stableStringify({ type: job.type, config: job.config, outputDir: job.outputDir, engineVersion: job.engineVersion })
+  );
+
+  const inputFiles = job.type === "sequence" ? (await listSequenceFrames(job.inputPath)).frames : [job.inputPath];
+  await hashFiles(hash, inputFiles);
+  if (job.config.paletteSource?.type === "file") {
+    await hashFiles(hash, [job.config.paletteSource.path]);
+  }
+  return hash.digest("hex");
+}
+
+async function outputsExist(result: ConvertResult): Promise<boolean> {
+  try {
+    await Promise.all([result.primaryPath, ...(result.extras ?? [])].map((filePath) => fs.access(filePath)));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Manifest of finished conversions in one output folder, keyed by input path. An entry only counts while its
+// fingerprint matches and every output it lists is still on disk.
+export class OutputCache {
+  private readonly manifestPath: string;
+
+  private readonly entries: Record<string, CacheEntry>;
+
+  private saving: Promise<void> = Promise.resolve();
+
+  private constructor(manifestPath: string, entries: Record<string, CacheEntry>) {
+    this.manifestPath = manifestPath;
+    this.entries = entries;
+  }
+
+  // A missing, unreadable or older-version manifest starts an empty cache.
+  static async load(outputDir: string): Promise<OutputCache> {
+    const manifestPath = path.join(path.resolve(outputDir), cacheManifestName);
+    let entries: Record<string, CacheEntry> = {};
+    try {
+      const manifest = JSON.parse(await fs.readFile(manifestPath, "utf8")) as CacheManifest;
+      if (manifest.version === manifestVersion && manifest.entries && typeof manifest.entries === "object") {
+        entries = manifest.entries;
+      }
+    } catch {
+      // No usable manifest yet.
+    }
+    return new OutputCache(manifestPath, entries);
+  }
+
+  async lookup(inputPath: string, fingerprint: string): Promise<ConvertResult | null> {
+    const entry = this.entries[path.resolve(inputPath)];
+    if (!entry || entry.fingerprint !== fingerprint || !(await outputsExist(entry.result))) {
+      return null;
+    }
+    return entry.result;
+  }
+
+  // Records a finished conversion and rewrites the manifest; writes are serialized so parallel jobs don't interleave.
+  record(inputPath: string, fingerprint: string, result: ConvertResult): Promise<void> {
+    const { previewUrl: _previewUrl, skipped: _skipped, ...stored } = result;
+    this.entries[path.resolve(inputPath)] = { fingerprint, result: stored };
+    this.saving = this.saving.catch(() => undefined).then(() => this.save());
+    return this.saving;
+  }
+
+  private async save(): Promise<void> {
+    const manifest: CacheManifest = { version: manifestVersion, entries: this.entries };
+    const tempPath = `${this.manifestPath}.${process.pid}.tmp`;
+    await fs.mkdir(path.dirname(this.manifestPath), { recursive: true });
+    await fs.writeFile(tempPath, JSON.stringify(manifest, null, 2), "utf8");
+    await fs.rename(tempPath, this.manifestPath);
+  }
+}
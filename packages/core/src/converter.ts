@@ -1,52 +1,247 @@
 import fs from "node:fs/promises";
 import path from "node:path";
-import { setTimeout as delay } from "node:timers/promises";
-import type { ConvertRequest, ConvertResult } from "./types";
+import { pathToFileURL } from "node:url";
+import { setImmediate as yieldToEventLoop } from "node:timers/promises";
+import { parseHexColor, type RgbColor } from "./color";
+import { resolvePaletteSource, writePaletteFiles } from "./palette";
+import { gridCellSize, resolveAutoGrid } from "./gridDetect";
+import { PixelError, toPixelError } from "./errors";
+import { planOutput, releaseOutputPlan, resolveOutputCollision, type OutputPlan } from "./naming";
+import { decodePng, encodePng, isPngData, type RgbaImage } from "./png";
+import { addRgbaToHistogram, histogramColors, kmeansPalette, medianCutPalette, remapToPalette } from "./quantize";
+import type { ColorHistogram } from "./quantize";
+import {
+  applyAlphaThreshold,
+  applyOutline,
+  computeGridLayout,
+  cropImage,
+  downsampleToGrid,
+  findAlphaBounds,
+  padImage,
+  upscaleNearest
+} from "./raster";
+import { writeTrimMetadata, type TrimBox } from "./trim";
+import { vectorizeImage } from "./vector";
+import type { AssetType, ConvertRequest, ConvertResult, PixelConfig } from "./types";
+
+export type PixelateResult = {
+  image: RgbaImage;
+  // Untrimmed grid size (including outline growth), used for trim metadata.
+  gridSize: { width: number; height: number };
+  trimBox: TrimBox | null;
+  // Colors present in the quantized grid, most frequent first.
+  colors: RgbColor[];
+};
 
 function abortError(): Error {
-  const error = new Error("Conversion canceled");
-  error.name = "AbortError";
-  return error;
+  return new PixelError("canceled", "Conversion canceled");
+}
+
+function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw abortError();
+  }
 }
 
-function resolveOutputExtension(request: ConvertRequest): string {
-  if (request.config.outputFormat) {
-    return request.config.outputFormat;
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value));
+}
+
+// One color per grid cell, with the alpha threshold applied.
+function reduceToGrid(source: RgbaImage, config: PixelConfig): RgbaImage {
+  const gridConfig = resolveAutoGrid(config, source);
+  const layout = computeGridLayout(source.width, source.height, {
+    grid: gridCellSize(gridConfig),
+    mode: gridConfig.gridMode,
+    offsetX: gridConfig.gridOffsetX,
+    offsetY: gridConfig.gridOffsetY
+  });
+  const image = downsampleToGrid(source, layout, config.downsample ?? "nearest");
+  applyAlphaThreshold(image, clamp(Math.floor(config.alphaThreshold || 0), 0, 255));
+  return image;
+}
+
+export function pixelateImage(source: RgbaImage, config: PixelConfig, fixedPalette: RgbColor[] | null = null): PixelateResult {
+  const scale = clamp(Math.floor(config.scale || 1), 1, 16);
+  const palette = clamp(Math.floor(config.palette || 256), 2, 256);
+
+  let image = reduceToGrid(source, config);
+
+  if (config.outline) {
+    image = applyOutline(image, {
+      color: parseHexColor(config.outlineColor ?? "") ?? { r: 0, g: 0, b: 0 },
+      placement: config.outlinePlacement ?? "outer",
+      connectivity: config.outlineConnectivity ?? 8
+    });
   }
-  if (request.type === "video") {
-    return "mp4";
+
+  const gridSize = { width: image.width, height: image.height };
+  const trimBox = config.trim ? findAlphaBounds(image) : null;
+  if (trimBox) {
+    image = padImage(cropImage(image, trimBox), clamp(Math.floor(config.trimPadding || 0), 0, 256));
+  }
+
+  const histogram: ColorHistogram = new Map();
+  addRgbaToHistogram(histogram, image.data);
+
+  // An exported palette has to fit a .pal/.gpl, so exporting quantizes even at the full 256 colors.
+  let colors = fixedPalette;
+  if (!colors && (palette < 256 || config.exportPalette) && histogram.size > palette) {
+    colors = config.quantizer === "kmeans" ? kmeansPalette(histogram, palette) : medianCutPalette(histogram, palette);
+  }
+
+  if (colors && colors.length > 0) {
+    remapToPalette(image, colors, config.dither);
+    histogram.clear();
+    addRgbaToHistogram(histogram, image.data);
+  }
+
+  return {
+    image: upscaleNearest(image, scale),
+    gridSize,
+    trimBox,
+    colors: histogramColors(histogram)
+  };
+}
+
+function nativeOnlyError(type: AssetType): PixelError {
+  return new PixelError(
+    "unsupported-codec",
+    `The native engine only converts PNG images; use the ffmpeg engine for ${type} inputs`
+  );
+}
+
+async function readPngInput(inputPath: string): Promise<RgbaImage> {
+  const input = await fs.readFile(inputPath);
+  if (!isPngData(input)) {
+    throw new PixelError("unsupported-codec", `The native engine only decodes PNG inputs: ${inputPath}`);
   }
-  if (request.type === "svg") {
-    return "svg";
+  return decodePng(input);
+}
+
+export type NativeSharedPaletteOptions = {
+  maxColors: number;
+  signal?: AbortSignal;
+};
+
+// The native engine's extractSharedPalette: one palette from every PNG input's downscaled grid, without ffmpeg.
+export async function extractNativeSharedPalette(
+  inputs: Array<{ inputPath: string; type: AssetType; config: PixelConfig }>,
+  options: NativeSharedPaletteOptions
+): Promise<RgbColor[]> {
+  try {
+    const histogram: ColorHistogram = new Map();
+    for (const input of inputs) {
+      if (input.type !== "image") {
+        throw nativeOnlyError(input.type);
+      }
+      throwIfAborted(options.signal);
+      addRgbaToHistogram(histogram, reduceToGrid(await readPngInput(input.inputPath), input.config).data);
+      await yieldToEventLoop();
+    }
+    throwIfAborted(options.signal);
+    return medianCutPalette(histogram, clamp(Math.floor(options.maxColors || 255), 1, 255));
+  } catch (error) {
+    throw toPixelError(error);
   }
-  return "png";
 }
 
+// In-process backend for PNG images: same contract as convertAssetWithFfmpeg, no external binaries.
 export async function convertAsset(request: ConvertRequest): Promise<ConvertResult> {
-  const { inputPath, outputDir, signal, onProgress } = request;
+  try {
+    return await convertPngAsset(request);
+  } catch (error) {
+    throw toPixelError(error);
+  }
+}
+
+async function convertPngAsset(request: ConvertRequest): Promise<ConvertResult> {
+  const { inputPath, signal, onProgress, config } = request;
+
+  if (request.type !== "image") {
+    throw nativeOnlyError(request.type);
+  }
+
+  throwIfAborted(signal);
 
+  const asSvg = config.outputFormat === "svg";
+  const planned = planOutput({
+    inputPath,
+    inputRoot: request.inputRoot,
+    outputDir: request.outputDir,
+    name: path.basename(inputPath, path.extname(inputPath)),
+    ext: asSvg ? "svg" : "png",
+    config
+  });
+  const plan = await resolveOutputCollision(planned, config.outputCollision ?? "overwrite", (candidate) =>
+    path.join(candidate.dir, candidate.fileName)
+  );
+  if (!plan) {
+    const existingPath = path.join(planned.dir, planned.fileName);
+    onProgress?.(1);
+    return { primaryPath: existingPath, previewUrl: pathToFileURL(existingPath).toString(), skipped: true };
+  }
+
+  try {
+    return await writePngAsset(request, plan);
+  } finally {
+    releaseOutputPlan(plan);
+  }
+}
+
+async function writePngAsset(request: ConvertRequest, plan: OutputPlan): Promise<ConvertResult> {
+  const { inputPath, signal, onProgress, config } = request;
+  const asSvg = config.outputFormat === "svg";
+  request.onOutputPlanned?.(plan);
+  const { dir: outputDir, base } = plan;
+  const primaryPath = path.join(outputDir, plan.fileName);
   await fs.mkdir(outputDir, { recursive: true });
+  const scale = clamp(Math.floor(config.scale || 1), 1, 16);
+  const extras: string[] = [];
 
-  const base = path.basename(inputPath, path.extname(inputPath));
-  const outExt = resolveOutputExtension(request);
-  const primaryPath = path.join(outputDir, `${base}_pixel.${outExt}`);
+  const source = await readPngInput(inputPath);
+  const fixedPalette = config.paletteSource ? await resolvePaletteSource(config.paletteSource) : null;
+  onProgress?.(0.2);
+  await yieldToEventLoop();
+  throwIfAborted(signal);
 
-  for (let step = 1; step <= 10; step += 1) {
-    if (signal?.aborted) {
-      throw abortError();
-    }
-    await delay(75);
-    onProgress?.(step / 10);
+  const result = pixelateImage(source, asSvg ? { ...config, scale: 1 } : config, fixedPalette);
+  onProgress?.(0.8);
+  await yieldToEventLoop();
+  throwIfAborted(signal);
+
+  if (asSvg) {
+    await fs.writeFile(primaryPath, vectorizeImage(result.image, scale), "utf8");
+  } else {
+    await fs.writeFile(primaryPath, encodePng(result.image));
   }
 
-  if (signal?.aborted) {
-    throw abortError();
+  if (result.trimBox) {
+    const trimMetaPath = path.join(outputDir, `${base}_trim.json`);
+    await writeTrimMetadata(trimMetaPath, {
+      inputPath,
+      primaryPath,
+      scale,
+      padding: clamp(Math.floor(config.trimPadding || 0), 0, 256),
+      gridSize: result.gridSize,
+      trimBox: result.trimBox,
+      evenDimensions: false
+    });
+    extras.push(trimMetaPath);
   }
 
-  await fs.copyFile(inputPath, primaryPath);
+  if (config.exportPalette) {
+    extras.push(...(await writePaletteFiles(result.colors, outputDir, base)));
+  }
+
+  onProgress?.(1);
+
+  const previewUrl = pathToFileURL(primaryPath);
+  previewUrl.searchParams.set("v", String(Date.now()));
 
   return {
     primaryPath,
-    previewUrl: `file://${primaryPath}`
+    extras: extras.length > 0 ? extras : undefined,
+    previewUrl: previewUrl.toString()
   };
 }
@@ -0,0 +1,132 @@
+// Why a conversion failed, in terms a user can act on. "unknown" covers everything not recognized below.
+export type PixelErrorCode =
+  | "ffmpeg-missing"
+  | "unsupported-codec"
+  | "corrupt-input"
+  | "disk-full"
+  | "permission-denied"
+  | "canceled"
+  | "timeout"
+  | "unknown";
+
+export const pixelErrorCodes: PixelErrorCode[] = [
+  "ffmpeg-missing",
+  "unsupported-codec",
+  "corrupt-input",
+  "disk-full",
+  "permission-denied",
+  "canceled",
+  "timeout",
+  "unknown"
+];
+
+const pixelErrorTitles: Record<PixelErrorCode, string> = {
+  "ffmpeg-missing": "ffmpeg was not found",
+  "unsupported-codec": "Unsupported format or codec",
+  "corrupt-input": "The input is corrupt or unreadable",
+  "disk-full": "The output drive is full",
+  "permission-denied": "Permission denied",
+  canceled: "Conversion canceled",
+  timeout: "Conversion timed out",
+  unknown: "Conversion failed"
+};
+
+// What the user can do about each kind of failure.
+export const pixelErrorHints: Record<PixelErrorCode, string> = {
+  "ffmpeg-missing": "Install ffmpeg and put ffmpeg and ffprobe on the PATH, or use the native engine for PNG images.",
+  "unsupported-codec": "Pick another output format or codec, or re-export the input as PNG, GIF or MP4 first.",
+  "corrupt-input": "The file may be truncated or damaged; re-export or re-download it and try again.",
+  "disk-full": "Free up space on the output drive or choose another output folder.",
+  "permission-denied": "Check that the input is readable and the output folder writable, or choose another folder.",
+  canceled: "Convert the job again to restart it.",
+  timeout: "Raise the job or stall timeout, or check the input for damage if it keeps hanging.",
+  unknown: "See the log for details."
+};
+
+// Canceled and timed-out errors keep the standard AbortError/TimeoutError names that code such as JobQueue checks for.
+const pixelErrorNames: Partial<Record<PixelErrorCode, string>> = {
+  canceled: "AbortError",
+  timeout: "TimeoutError"
+};
+
+export class PixelError extends Error {
+  readonly code: PixelErrorCode;
+
+  // Everything the failing tool printed (ffmpeg's stderr without progress lines); empty when there was no tool.
+  readonly log: string;
+
+  constructor(code: PixelErrorCode, message: string, options: { log?: string; cause?: unknown } = {}) {
+    super(message, { cause: options.cause });
+    this.name = pixelErrorNames[code] ?? "PixelError";
+    this.code = code;
+    this.log = options.log ?? "";
+  }
+}
+
+const systemErrorCodes: Record<string, PixelErrorCode> = {
+  ENOSPC: "disk-full",
+  EDQUOT: "disk-full",
+  EACCES: "permission-denied",
+  EPERM: "permission-denied",
+  EROFS: "permission-denied"
+};
+
+// Checked in order against the message and log, so an unknown encoder wins over decode warnings printed before it.
+const failurePatterns: Array<[PixelErrorCode, RegExp]> = [
+  ["disk-full", /No space left on device|Disk quota exceeded/i],
+  ["permission-denied", /Permission denied|Operation not permitted|Read-only file system/i],
+  [
+    "unsupported-codec",
+    /Unknown encoder|Encoder \S+ not found|Unknown decoder|Decoder \S+ not found|not currently supported|Could not find tag for codec|Unsupported codec|cannot be written to|Unsupported PNG color type/i
+  ],
+  [
+    "corrupt-input",
+    /Invalid data found when processing input|moov atom not found|Invalid PNG|Invalid NAL|error while decoding|could not find codec parameters|corrupt (decoded )?(frame|packet|input)|(frame|packet) corrupt|truncated/i
+  ]
+];
+
+function errorProperty(error: unknown, key: string): string {
+  const value = error && typeof error === "object" ? (error as Record<string, unknown>)[key] : undefined;
+  return typeof value === "string" ? value : "";
+}
+
+// ffmpeg prefixes messages with the component that printed them, e.g. `[mov,mp4 @ 0x55d1] moov atom not found`.
+function stripLogPrefix(line: string): string {
+  return line.replace(/^\[[^\]]*@\s*0x[0-9a-f]+\]\s*/i, "").trim();
+}
+
+// Wraps any thrown value in a PixelError with the best-matching code. `log` is the failing tool's output; errors from
+// execFile carry theirs as `stderr`.
+export function toPixelError(error: unknown, log = ""): PixelError {
+  if (error instanceof PixelError) {
+    return error;
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  const fullLog = log || errorProperty(error, "stderr");
+  const name = error instanceof Error ? error.name : "";
+  if (name === "AbortError") {
+    return new PixelError("canceled", message, { log: fullLog, cause: error });
+  }
+  if (name === "TimeoutError") {
+    return new PixelError("timeout", message, { log: fullLog, cause: error });
+  }
+
+  const systemCode = errorProperty(error, "code");
+  if (systemCode === "ENOENT" && errorProperty(error, "syscall").startsWith("spawn")) {
+    return new PixelError("ffmpeg-missing", `${pixelErrorTitles["ffmpeg-missing"]} (${message})`, { cause: error });
+  }
+  if (systemErrorCodes[systemCode]) {
+    const code = systemErrorCodes[systemCode];
+    return new PixelError(code, `${pixelErrorTitles[code]}: ${message}`, { log: fullLog, cause: error });
+  }
+
+  const lines = [...fullLog.split(/\r?\n/), message];
+  for (const [code, pattern] of failurePatterns) {
+    const line = lines.find((candidate) => pattern.test(candidate));
+    if (line) {
+      return new PixelError(code, `${pixelErrorTitles[code]}: ${stripLogPrefix(line)}`, { log: fullLog, cause: error });
+    }
+  }
+  return new PixelError("unknown", message, { log: fullLog, cause: error });
+}
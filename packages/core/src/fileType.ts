@@ -1,10 +1,26 @@
+import fs from "node:fs/promises";
 import path from "node:path";
+import { isSequencePattern } from "./sequence";
 import type { AssetType } from "./types";
 
 const imageExt = new Set([".png", ".jpg", ".jpeg", ".webp", ".gif", ".bmp"]);
 const videoExt = new Set([".mp4", ".mov", ".webm", ".mkv", ".avi", ".m4v"]);
 export const supportedAssetExtensions = new Set([...imageExt, ...videoExt, ".svg"]);
 
+// Relative cost of converting each asset type, for JobQueue budgets: stills are cheap, while animations and videos
+// decode and encode every frame.
+export const assetJobCosts: Record<AssetType, number> = {
+  image: 1,
+  svg: 1,
+  animation: 2,
+  sequence: 2,
+  video: 3
+};
+
+export function isAssetType(value: string): value is AssetType {
+  return Object.prototype.hasOwnProperty.call(assetJobCosts, value);
+}
+
 export function isSupportedAssetPath(inputPath: string): boolean {
   const ext = path.extname(inputPath).toLowerCase();
   return supportedAssetExtensions.has(ext);
@@ -15,6 +31,9 @@ export function detectAssetType(inputPath: string): AssetType {
   if (ext === ".svg") {
     return "svg";
   }
+  if (isSequencePattern(inputPath)) {
+    return "sequence";
+  }
   if (videoExt.has(ext)) {
     return "video";
   }
@@ -23,3 +42,80 @@ export function detectAssetType(inputPath: string): AssetType {
   }
   return "image";
 }
+
+// Frames in a GIF: every image descriptor (0x2C) outside extension and image data sub-blocks.
+function countGifFrames(data: Uint8Array): number {
+  if (data.length < 13 || String.fromCharCode(...data.subarray(0, 3)) !== "GIF") {
+    return 0;
+  }
+
+  const skipSubBlocks = (offset: number) => {
+    while (offset < data.length && data[offset] !== 0) {
+      offset += data[offset] + 1;
+    }
+    return offset + 1;
+  };
+
+  let offset = 13;
+  if (data[10] & 0x80) {
+    offset += 3 * (2 << (data[10] & 0x07));
+  }
+
+  let frames = 0;
+  while (offset < data.length) {
+    const marker = data[offset];
+    if (marker === 0x21) {
+      offset = skipSubBlocks(offset + 2);
+    } else if (marker === 0x2c) {
+      frames += 1;
+      const flags = data[offset + 9];
+      offset += 10;
+      if (flags & 0x80) {
+        offset += 3 * (2 << (flags & 0x07));
+      }
+      offset = skipSubBlocks(offset + 1);
+    } else {
+      break;
+    }
+  }
+  return frames;
+}
+
+// Frames in a WebP: ANMF chunks when the VP8X header flags an animation, otherwise a single image.
+function countWebpFrames(data: Uint8Array): number {
+  const fourCc = (offset: number) => String.fromCharCode(...data.subarray(offset, offset + 4));
+  if (data.length < 16 || fourCc(0) !== "RIFF" || fourCc(8) !== "WEBP") {
+    return 0;
+  }
+
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  let frames = 0;
+  let offset = 12;
+  while (offset + 8 <= data.length) {
+    const chunk = fourCc(offset);
+    const size = view.getUint32(offset + 4, true);
+    if (chunk === "ANMF") {
+      frames += 1;
+    } else if (chunk === "VP8 " || chunk === "VP8L") {
+      return 1;
+    }
+    offset += 8 + size + (size % 2);
+  }
+  return frames;
+}
+
+export function countAnimationFrames(data: Uint8Array): number {
+  return Math.max(countGifFrames(data), countWebpFrames(data));
+}
+
+// Like detectAssetType, but sniffs .gif/.webp contents so multi-frame files run through the animation pipeline.
+export async function detectAssetTypeFromFile(inputPath: string): Promise<AssetType> {
+  const type = detectAssetType(inputPath);
+  const ext = path.extname(inputPath).toLowerCase();
+  if (type !== "image" || (ext !== ".gif" && ext !== ".webp")) {
+    return type;
+  }
+
+  const data = await fs.readFile(inputPath);
+  return countAnimationFrames(data) > 1 ? "animation" : "image";
+}
@@ -0,0 +1,130 @@
+import type { RgbaImage } from "./png";
+import type { PixelConfig } from "./types";
+
+export type DetectedGrid = {
+  // Source pixels per art pixel; 1 when the image shows no integer upscale.
+  scale: number;
+  // Position of the first cell boundary on each axis (the grid phase), usable as gridOffsetX/Y.
+  offsetX: number;
+  offsetY: number;
+  // How far cell boundaries stand out from the rest of the image; below minConfidence the scale falls back to 1.
+  confidence: number;
+};
+
+export type DetectGridOptions = {
+  maxScale?: number;
+  minConfidence?: number;
+};
+
+const defaultMaxScale = 64;
+const defaultMinConfidence = 1;
+const nearBestRatio = 0.7;
+const minCells = 8;
+
+// Color change between each pair of neighbouring columns (axis "x") or rows (axis "y"), summed along the other axis.
+// Index i holds the change between i - 1 and i, so a peak at i means a cell starts at i.
+function edgeProfile(image: RgbaImage, axis: "x" | "y"): Float64Array {
+  const { width, height, data } = image;
+  const length = axis === "x" ? width : height;
+  const profile = new Float64Array(length);
+  const step = axis === "x" ? 4 : width * 4;
+
+  for (let y = axis === "y" ? 1 : 0; y < height; y += 1) {
+    for (let x = axis === "x" ? 1 : 0; x < width; x += 1) {
+      const offset = (y * width + x) * 4;
+      const previous = offset - step;
+      profile[axis === "x" ? x : y] +=
+        Math.abs(data[offset] - data[previous]) +
+        Math.abs(data[offset + 1] - data[previous + 1]) +
+        Math.abs(data[offset + 2] - data[previous + 2]) +
+        Math.abs(data[offset + 3] - data[previous + 3]);
+    }
+  }
+  return profile;
+}
+
+type PhaseContrast = {
+  phase: number;
+  // Median edge energy on the boundary phase minus that half a cell away, where a real grid has cell interiors.
+  contrast: number;
+};
+
+function median(values: number[]): number {
+  if (values.length === 0) {
+    return 0;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = sorted.length >> 1;
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+function phaseContrast(profile: Float64Array, scale: number): PhaseContrast {
+  const samples: number[][] = Array.from({ length: scale }, () => []);
+  // Index 0 has no left/top neighbour and carries no edge information.
+  for (let index = 1; index < profile.length; index += 1) {
+    samples[index % scale].push(profile[index]);
+  }
+  // Medians, so a handful of strong lines in the artwork can't pose as a grid.
+  const levels = samples.map(median);
+  const at = (bin: number) => levels[(bin + scale) % scale];
+  // Blur spreads a boundary over neighbouring phases; a [1, 2, 1] weighting centres the phase on it. Cells narrower
+  // than 4 pixels have no interior to weight against.
+  const boundary = (bin: number) => (scale < 4 ? at(bin) : (at(bin - 1) + 2 * at(bin) + at(bin + 1)) / 4);
+  const half = Math.floor(scale / 2);
+
+  let phase = 0;
+  let phaseScore = Number.NEGATIVE_INFINITY;
+  let contrast = Number.NEGATIVE_INFINITY;
+  for (let bin = 0; bin < scale; bin += 1) {
+    const score = boundary(bin) - boundary(bin + half);
+    if (score > phaseScore) {
+      phase = bin;
+      phaseScore = score;
+    }
+    contrast = Math.max(contrast, at(bin) - at(bin + half));
+  }
+  return { phase, contrast };
+}
+
+// Estimates the integer factor pixel art was upscaled by, and where its cells start, from the periodic edges the
+// upscale leaves behind. A candidate scale scores how much stronger edges are on its best phase than half a cell
+// away: at the true scale that is a cell boundary against a cell interior, even multiples land on another boundary
+// and score near zero, and divisors only catch part of the boundaries. Odd multiples tie with the true scale, so the
+// smallest scale close to the best score wins.
+export function detectPixelGrid(image: RgbaImage, options: DetectGridOptions = {}): DetectedGrid {
+  const profiles = [edgeProfile(image, "x"), edgeProfile(image, "y")];
+  const average = profiles.reduce((sum, profile) => sum + profile.reduce((a, b) => a + b, 0), 0) / (image.width + image.height);
+  // Every phase needs enough cells on the shorter axis for its median to mean anything.
+  const maxScale = Math.min(
+    Math.floor(options.maxScale ?? defaultMaxScale),
+    Math.floor(Math.min(image.width, image.height) / minCells)
+  );
+  const fallback: DetectedGrid = { scale: 1, offsetX: 0, offsetY: 0, confidence: 0 };
+  if (average <= 0 || maxScale < 2) {
+    return fallback;
+  }
+
+  const candidates: DetectedGrid[] = [];
+  for (let scale = 2; scale <= maxScale; scale += 1) {
+    const [x, y] = profiles.map((profile) => phaseContrast(profile, scale));
+    candidates.push({ scale, offsetX: x.phase, offsetY: y.phase, confidence: (x.contrast + y.contrast) / average });
+  }
+  const top = Math.max(...candidates.map((candidate) => candidate.confidence));
+  const best = candidates.find((candidate) => candidate.confidence >= top * nearBestRatio) ?? fallback;
+
+  return best.confidence >= (options.minConfidence ?? defaultMinConfidence) ? best : { ...fallback, confidence: best.confidence };
+}
+
+// Cell size for a config whose grid is numeric; "auto" must go through resolveAutoGrid first and reads as the default.
+export function gridCellSize(config: PixelConfig): number {
+  return typeof config.grid === "number" ? Math.max(1, Math.min(512, Math.floor(config.grid || 32))) : 32;
+}
+
+// Replaces `grid: "auto"` with the detected cell size and phase, in cell mode; numeric grids pass through unchanged.
+export function resolveAutoGrid(config: PixelConfig, image: RgbaImage): PixelConfig {
+  if (config.grid !== "auto") {
+    return config;
+  }
+  const detected = detectPixelGrid(image);
+  return { ...config, grid: detected.scale, gridMode: "cell", gridOffsetX: detected.offsetX, gridOffsetY: detected.offsetY };
+}
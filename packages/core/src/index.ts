@@ -1,4 +1,19 @@
 export * from "./types";
+export * from "./errors";
+export * from "./color";
+export * from "./palette";
+export * from "./quantize";
+export * from "./png";
+export * from "./raster";
+export * from "./gridDetect";
+export * from "./trim";
+export * from "./vector";
+export * from "./spritesheet";
 export * from "./fileType";
+export * from "./sequence";
 export * from "./converter";
+export * from "./naming";
+export * from "./cache";
+export * from "./yaml";
+export * from "./projectConfig";
 export * from "./pathScanner";
@@ -0,0 +1,209 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import type { PixelConfig } from "./types";
+
+// What happens when the primary output already exists: replace it, leave it and skip the job, or pick `<name>_2`.
+export type CollisionPolicy = "overwrite" | "skip" | "suffix";
+
+export const collisionPolicies: CollisionPolicy[] = ["overwrite", "skip", "suffix"];
+
+export const defaultOutputTemplate = "{name}_pixel.{ext}";
+
+export const outputTemplateTokens = ["name", "ext", "grid", "palette", "date", "relDir"] as const;
+
+export type OutputTemplateToken = (typeof outputTemplateTokens)[number];
+
+export type OutputPlanOptions = {
+  inputPath: string;
+  // Folder the input was discovered under; `{relDir}` is the input's folder relative to it.
+  inputRoot?: string;
+  outputDir: string;
+  // Input name without extension (the pattern's base name for frame sequences).
+  name: string;
+  // Primary output extension, without the dot.
+  ext: string;
+  config: PixelConfig;
+  now?: Date;
+};
+
+export type OutputPlan = {
+  dir: string;
+  fileName: string;
+  // Prefix for sidecars and extras (`<base>_trim.json`, `<base>_frames/`, ...): the file name's stem without the
+  // default `_pixel` marker, so the default template keeps `hero_pixel.png` next to `hero_trim.json`.
+  base: string;
+};
+
+export function isCollisionPolicy(value: string): value is CollisionPolicy {
+  return (collisionPolicies as string[]).includes(value);
+}
+
+function formatDate(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+// Input folder relative to its scan root, with forward slashes; empty when the input sits outside the root.
+export function relativeInputDir(inputPath: string, inputRoot: string | undefined): string {
+  if (!inputRoot) {
+    return "";
+  }
+  const relative = path.relative(path.resolve(inputRoot), path.dirname(path.resolve(inputPath)));
+  if (relative.startsWith("..") || path.isAbsolute(relative)) {
+    return "";
+  }
+  return relative.split(path.sep).join("/");
+}
+
+export function renderOutputTemplate(template: string, values: Record<OutputTemplateToken, string>): string {
+  return template.replace(/\{([^{}]*)\}/g, (_, token: string) => {
+    if (!(outputTemplateTokens as readonly string[]).includes(token)) {
+      throw new Error(`Unknown output name token {${token}}; use ${outputTemplateTokens.map((name) => `{${name}}`).join(", ")}`);
+    }
+    return values[token as OutputTemplateToken];
+  });
+}
+
+function planFromFile(dir: string, fileName: string): OutputPlan {
+  const stem = path.basename(fileName, path.extname(fileName));
+  return { dir, fileName, base: stem.replace(/_pixel$/, "") || stem };
+}
+
+export function planOutput(options: OutputPlanOptions): OutputPlan {
+  const { config } = options;
+  let template = config.outputTemplate?.trim() || defaultOutputTemplate;
+  if (config.mirrorInputTree && !template.includes("{relDir}")) {
+    template = `{relDir}/${template}`;
+  }
+
+  const rendered = renderOutputTemplate(template, {
+    name: options.name,
+    ext: options.ext,
+    grid: String(config.grid),
+    palette: String(config.palette),
+    date: formatDate(options.now ?? new Date()),
+    relDir: relativeInputDir(options.inputPath, options.inputRoot)
+  });
+
+  const outputDir = path.resolve(options.outputDir);
+  // An empty {relDir} leaves a leading or doubled slash; normalize drops it.
+  const target = path.resolve(outputDir, path.normalize(rendered.replace(/^[\\/]+/, "")));
+  const relative = path.relative(outputDir, target);
+  if (!relative || relative.startsWith("..") || path.isAbsolute(relative)) {
+    throw new Error(`Output name template "${template}" resolves outside the output directory`);
+  }
+  // ffmpeg picks the container from the extension, so a name without one can't be written.
+  if (!path.extname(target)) {
+    throw new Error(`Output name template "${template}" gives file names without an extension; end it with .{ext}`);
+  }
+  return planFromFile(path.dirname(target), path.basename(target));
+}
+
+async function pathExists(filePath: string): Promise<boolean> {
+  try {
+    await fs.access(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Names handed out by resolveOutputCollision whose conversion is still running, with how many jobs hold each. Jobs
+// running side by side see a held name as taken before anything has been written to it.
+const heldOutputs = new Map<string, number>();
+
+function outputKey(plan: OutputPlan): string {
+  return path.resolve(plan.dir, plan.fileName);
+}
+
+function holdOutput(plan: OutputPlan): void {
+  const key = outputKey(plan);
+  heldOutputs.set(key, (heldOutputs.get(key) ?? 0) + 1);
+}
+
+// Holds the name before checking the disk, so a job resolving the same name meanwhile can't pick it too.
+async function claimOutput(plan: OutputPlan, targetOf: (plan: OutputPlan) => string): Promise<boolean> {
+  if (heldOutputs.has(outputKey(plan))) {
+    return false;
+  }
+  holdOutput(plan);
+  if (await pathExists(targetOf(plan))) {
+    releaseOutputPlan(plan);
+    return false;
+  }
+  return true;
+}
+
+// Applies the collision policy to a plan; `targetOf` names the path that must not exist yet (the primary file, or the
+// frames folder for per-frame output). Returns null when the job should be skipped. The returned plan's name stays
+// taken for other jobs in this process until releaseOutputPlan; call it once the conversion finished or failed.
+export async function resolveOutputCollision(
+  plan: OutputPlan,
+  policy: CollisionPolicy,
+  targetOf: (plan: OutputPlan) => string
+): Promise<OutputPlan | null> {
+  if (policy === "overwrite") {
+    holdOutput(plan);
+    return plan;
+  }
+  if (await claimOutput(plan, targetOf)) {
+    return plan;
+  }
+  if (policy === "skip") {
+    return null;
+  }
+
+  const ext = path.extname(plan.fileName);
+  const stem = path.basename(plan.fileName, ext);
+  for (let index = 2; ; index += 1) {
+    const candidate = { dir: plan.dir, fileName: `${stem}_${index}${ext}`, base: `${plan.base}_${index}` };
+    if (await claimOutput(candidate, targetOf)) {
+      return candidate;
+    }
+  }
+}
+
+export function releaseOutputPlan(plan: OutputPlan): void {
+  const key = outputKey(plan);
+  const holders = (heldOutputs.get(key) ?? 0) - 1;
+  if (holders > 0) {
+    heldOutputs.set(key, holders);
+  } else {
+    heldOutputs.delete(key);
+  }
+}
+
+// Sidecars and folders a conversion writes next to its primary output, all named `<base>_<kind>`.
+const outputSidecarKinds = ["trim", "palette", "alpha", "alpha_frames", "frames", "spritesheet"];
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Deletes what a conversion cut off mid-way left under `plan`: its primary file and sidecars modified since it
+// started. Older files are kept, so a finished output the job never got to overwrite survives. Returns the removed paths.
+export async function removePartialOutputs(plan: OutputPlan, since: number): Promise<string[]> {
+  const sidecar = new RegExp(`^${escapeRegExp(plan.base)}_(${outputSidecarKinds.join("|")})(\\.|$)`);
+  let names: string[];
+  try {
+    names = await fs.readdir(plan.dir);
+  } catch {
+    return [];
+  }
+
+  const removed: string[] = [];
+  for (const name of names) {
+    if (name !== plan.fileName && !sidecar.test(name)) {
+      continue;
+    }
+    const target = path.join(plan.dir, name);
+    const stat = await fs.stat(target).catch(() => null);
+    // Some filesystems store modification times in whole (or even two) seconds.
+    if (!stat || stat.mtimeMs < since - 2000) {
+      continue;
+    }
+    await fs.rm(target, { recursive: true, force: true });
+    removed.push(target);
+  }
+  return removed;
+}
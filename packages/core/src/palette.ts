@@ -0,0 +1,321 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { formatHexColor, parseHexColor, type RgbColor } from "./color";
+import { createRgbaImage, encodePng, type RgbaImage } from "./png";
+
+export type PalettePresetName = "pico-8" | "gameboy-dmg" | "nes" | "endesga-32" | "db32";
+
+export type PaletteSource =
+  | { type: "preset"; preset: PalettePresetName }
+  | { type: "file"; path: string }
+  | { type: "inline"; colors: string[] };
+
+// paletteuse needs a 256-entry palette and one slot stays reserved for transparency.
+export const maxFixedPaletteColors = 255;
+
+export const paletteFileExtensions = new Set([".hex", ".gpl", ".pal", ".ase"]);
+
+export const palettePresets: Record<PalettePresetName, string[]> = {
+  "pico-8": [
+    "#000000", "#1d2b53", "#7e2553", "#008751", "#ab5236", "#5f574f", "#c2c3c7", "#fff1e8",
+    "#ff004d", "#ffa300", "#ffec27", "#00e436", "#29adff", "#83769c", "#ff77a8", "#ffccaa"
+  ],
+  "gameboy-dmg": ["#0f380f", "#306230", "#8bac0f", "#9bbc0f"],
+  nes: [
+    "#000000", "#fcfcfc", "#f8f8f8", "#bcbcbc", "#7c7c7c", "#a4e4fc", "#3cbcfc", "#0078f8",
+    "#0000fc", "#b8b8f8", "#6888fc", "#0058f8", "#0000bc", "#d8b8f8", "#9878f8", "#6844fc",
+    "#4428bc", "#f8b8f8", "#f878f8", "#d800cc", "#940084", "#f8a4c0", "#f85898", "#e40058",
+    "#a80020", "#f0d0b0", "#f87858", "#f83800", "#a81000", "#fce0a8", "#fca044", "#e45c10",
+    "#881400", "#f8d878", "#f8b800", "#ac7c00", "#503000", "#d8f878", "#b8f818", "#00b800",
+    "#007800", "#b8f8b8", "#58d854", "#00a800", "#006800", "#b8f8d8", "#58f898", "#00a844",
+    "#005800", "#00fcfc", "#00e8d8", "#008888", "#004058", "#f8d8f8", "#787878"
+  ],
+  "endesga-32": [
+    "#be4a2f", "#d77643", "#ead4aa", "#e4a672", "#b86f50", "#733e39", "#3e2731", "#a22633",
+    "#e43b44", "#f77622", "#feae34", "#fee761", "#63c74d", "#3e8948", "#265c42", "#193c3e",
+    "#124e89", "#0099db", "#2ce8f5", "#ffffff", "#c0cbdc", "#8b9bb4", "#5a6988", "#3a4466",
+    "#262b44", "#181425", "#ff0044", "#68386c", "#b55088", "#f6757a", "#e8b796", "#c28569"
+  ],
+  db32: [
+    "#000000", "#222034", "#45283c", "#663931", "#8f563b", "#df7126", "#d9a066", "#eec39a",
+    "#fbf236", "#99e550", "#6abe30", "#37946e", "#4b692f", "#524b24", "#323c39", "#3f3f74",
+    "#306082", "#5b6ee1", "#639bff", "#5fcde4", "#cbdbfc", "#ffffff", "#9badb7", "#847e87",
+    "#696a6a", "#595652", "#76428a", "#ac3232", "#d95763", "#d77bba", "#8f974a", "#8a6f30"
+  ]
+};
+
+export function isPalettePresetName(value: string): value is PalettePresetName {
+  return Object.prototype.hasOwnProperty.call(palettePresets, value);
+}
+
+function clampChannel(value: number): number {
+  return Math.max(0, Math.min(255, Math.round(value)));
+}
+
+function parseRgbTriplet(line: string): RgbColor | null {
+  const match = line.trim().match(/^(\d{1,3})\s+(\d{1,3})\s+(\d{1,3})(?:\s|$)/);
+  if (!match) {
+    return null;
+  }
+  const [r, g, b] = match.slice(1).map((value) => Number.parseInt(value, 10));
+  if (r > 255 || g > 255 || b > 255) {
+    return null;
+  }
+  return { r, g, b };
+}
+
+function textLines(data: Uint8Array): string[] {
+  return Buffer.from(data)
+    .toString("utf8")
+    .replace(/^\uFEFF/, "")
+    .split(/\r?\n/)
+    .map((line) => line.trim());
+}
+
+export function parseHexPalette(data: Uint8Array): RgbColor[] {
+  const colors: RgbColor[] = [];
+  for (const line of textLines(data)) {
+    if (!line || line.startsWith(";") || line.startsWith("//")) {
+      continue;
+    }
+    const color = parseHexColor(line);
+    if (!color) {
+      throw new Error(`Invalid .hex palette line: ${line}`);
+    }
+    colors.push(color);
+  }
+  return colors;
+}
+
+export function parseGimpPalette(data: Uint8Array): RgbColor[] {
+  const lines = textLines(data);
+  if (lines[0] !== "GIMP Palette") {
+    throw new Error("Invalid .gpl palette: missing 'GIMP Palette' header");
+  }
+
+  const colors: RgbColor[] = [];
+  for (const line of lines.slice(1)) {
+    if (!line || line.startsWith("#") || /^(Name|Columns):/i.test(line)) {
+      continue;
+    }
+    const color = parseRgbTriplet(line);
+    if (!color) {
+      throw new Error(`Invalid .gpl palette line: ${line}`);
+    }
+    colors.push(color);
+  }
+  return colors;
+}
+
+export function parseJascPalette(data: Uint8Array): RgbColor[] {
+  const lines = textLines(data).filter((line) => line.length > 0);
+  if (lines[0] !== "JASC-PAL") {
+    throw new Error("Invalid .pal palette: only JASC-PAL files are supported");
+  }
+
+  const count = Number.parseInt(lines[2] ?? "", 10);
+  if (!Number.isFinite(count) || count < 0) {
+    throw new Error("Invalid .pal palette: missing color count");
+  }
+
+  const colors: RgbColor[] = [];
+  for (const line of lines.slice(3, 3 + count)) {
+    const color = parseRgbTriplet(line);
+    if (!color) {
+      throw new Error(`Invalid .pal palette line: ${line}`);
+    }
+    colors.push(color);
+  }
+
+  if (colors.length !== count) {
+    throw new Error(`Invalid .pal palette: expected ${count} colors, found ${colors.length}`);
+  }
+  return colors;
+}
+
+function labToRgb(l: number, a: number, b: number): RgbColor {
+  // ASE stores L in 0..1 (scaled to 0..100) and a/b unscaled; convert through XYZ (D50) to sRGB.
+  const fy = (l * 100 + 16) / 116;
+  const fx = fy + a / 500;
+  const fz = fy - b / 200;
+  const pivot = (t: number) => (t ** 3 > 0.008856 ? t ** 3 : (t - 16 / 116) / 7.787);
+  const x = 0.9642 * pivot(fx);
+  const y = 1.0 * pivot(fy);
+  const z = 0.8249 * pivot(fz);
+
+  const linear = [
+    3.1338561 * x - 1.6168667 * y - 0.4906146 * z,
+    -0.9787684 * x + 1.9161415 * y + 0.033454 * z,
+    0.0719453 * x - 0.2289914 * y + 1.4052427 * z
+  ];
+  const [r, g, bl] = linear.map((value) => {
+    const v = Math.max(0, Math.min(1, value));
+    return clampChannel((v <= 0.0031308 ? 12.92 * v : 1.055 * v ** (1 / 2.4) - 0.055) * 255);
+  });
+  return { r, g, b: bl };
+}
+
+export function parseAsePalette(data: Uint8Array): RgbColor[] {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const signature = Buffer.from(data.subarray(0, 4)).toString("latin1");
+  if (signature !== "ASEF") {
+    throw new Error("Invalid .ase palette: missing ASEF signature");
+  }
+
+  const blockCount = view.getUint32(8);
+  const colors: RgbColor[] = [];
+  let offset = 12;
+
+  for (let block = 0; block < blockCount; block += 1) {
+    if (offset + 6 > data.byteLength) {
+      throw new Error("Invalid .ase palette: truncated block");
+    }
+    const blockType = view.getUint16(offset);
+    const blockLength = view.getUint32(offset + 2);
+    const bodyStart = offset + 6;
+    offset = bodyStart + blockLength;
+
+    // 0x0001 is a color entry; group start/end blocks carry no colors.
+    if (blockType !== 0x0001) {
+      continue;
+    }
+
+    const nameLength = view.getUint16(bodyStart);
+    const modelStart = bodyStart + 2 + nameLength * 2;
+    const model = Buffer.from(data.subarray(modelStart, modelStart + 4)).toString("latin1");
+    const value = (index: number) => view.getFloat32(modelStart + 4 + index * 4);
+
+    if (model === "RGB ") {
+      colors.push({ r: clampChannel(value(0) * 255), g: clampChannel(value(1) * 255), b: clampChannel(value(2) * 255) });
+    } else if (model === "Gray") {
+      const gray = clampChannel(value(0) * 255);
+      colors.push({ r: gray, g: gray, b: gray });
+    } else if (model === "CMYK") {
+      const k = 1 - value(3);
+      colors.push({
+        r: clampChannel(255 * (1 - value(0)) * k),
+        g: clampChannel(255 * (1 - value(1)) * k),
+        b: clampChannel(255 * (1 - value(2)) * k)
+      });
+    } else if (model === "LAB ") {
+      colors.push(labToRgb(value(0), value(1), value(2)));
+    } else {
+      throw new Error(`Invalid .ase palette: unsupported color model '${model}'`);
+    }
+  }
+
+  return colors;
+}
+
+export function parsePaletteFile(fileName: string, data: Uint8Array): RgbColor[] {
+  const ext = path.extname(fileName).toLowerCase();
+  let colors: RgbColor[];
+  if (ext === ".hex") {
+    colors = parseHexPalette(data);
+  } else if (ext === ".gpl") {
+    colors = parseGimpPalette(data);
+  } else if (ext === ".pal") {
+    colors = parseJascPalette(data);
+  } else if (ext === ".ase") {
+    colors = parseAsePalette(data);
+  } else {
+    throw new Error(`Unsupported palette file type: ${ext || fileName}`);
+  }
+
+  if (colors.length === 0) {
+    throw new Error(`Palette file has no colors: ${fileName}`);
+  }
+  return colors;
+}
+
+export function formatHexPalette(colors: RgbColor[]): string {
+  return colors.map((color) => formatHexColor(color).slice(1)).join("\n") + "\n";
+}
+
+export function formatGimpPalette(colors: RgbColor[], name: string): string {
+  const lines = ["GIMP Palette", `Name: ${name}`, `Columns: ${Math.min(16, colors.length)}`, "#"];
+  for (const color of colors) {
+    const channels = [color.r, color.g, color.b].map((value) => String(value).padStart(3, " ")).join(" ");
+    lines.push(`${channels}\t${formatHexColor(color)}`);
+  }
+  return lines.join("\n") + "\n";
+}
+
+export function formatJascPalette(colors: RgbColor[]): string {
+  const lines = ["JASC-PAL", "0100", String(colors.length), ...colors.map((color) => `${color.r} ${color.g} ${color.b}`)];
+  return lines.join("\r\n") + "\r\n";
+}
+
+export function createSwatchImage(colors: RgbColor[], cell = 16): RgbaImage {
+  const columns = Math.max(1, Math.min(16, colors.length));
+  const rows = Math.max(1, Math.ceil(colors.length / columns));
+  const image = createRgbaImage(columns * cell, rows * cell);
+
+  colors.forEach((color, index) => {
+    const originX = (index % columns) * cell;
+    const originY = Math.floor(index / columns) * cell;
+    for (let y = originY; y < originY + cell; y += 1) {
+      for (let x = originX; x < originX + cell; x += 1) {
+        const offset = (y * image.width + x) * 4;
+        image.data[offset] = color.r;
+        image.data[offset + 1] = color.g;
+        image.data[offset + 2] = color.b;
+        image.data[offset + 3] = 255;
+      }
+    }
+  });
+
+  return image;
+}
+
+// Writes <base>_palette.{gpl,hex,pal,png} and returns the paths in that order.
+export async function writePaletteFiles(colors: RgbColor[], outputDir: string, base: string): Promise<string[]> {
+  const gplPath = path.join(outputDir, `${base}_palette.gpl`);
+  const hexPath = path.join(outputDir, `${base}_palette.hex`);
+  const palPath = path.join(outputDir, `${base}_palette.pal`);
+  const swatchPath = path.join(outputDir, `${base}_palette.png`);
+
+  await Promise.all([
+    fs.writeFile(gplPath, formatGimpPalette(colors, base), "utf8"),
+    fs.writeFile(hexPath, formatHexPalette(colors), "utf8"),
+    fs.writeFile(palPath, formatJascPalette(colors), "utf8"),
+    fs.writeFile(swatchPath, encodePng(createSwatchImage(colors)))
+  ]);
+
+  return [gplPath, hexPath, palPath, swatchPath];
+}
+
+export async function loadPaletteFile(filePath: string): Promise<RgbColor[]> {
+  const data = await fs.readFile(filePath);
+  return parsePaletteFile(filePath, data);
+}
+
+export async function resolvePaletteSource(source: PaletteSource): Promise<RgbColor[]> {
+  let colors: RgbColor[];
+  if (source.type === "preset") {
+    if (!isPalettePresetName(source.preset)) {
+      throw new Error(`Unknown palette preset: ${source.preset}`);
+    }
+    colors = palettePresets[source.preset].map((hex) => parseHexColor(hex) as RgbColor);
+  } else if (source.type === "inline") {
+    colors = source.colors.map((hex) => {
+      const color = parseHexColor(hex);
+      if (!color) {
+        throw new Error(`Invalid palette color: ${hex}`);
+      }
+      return color;
+    });
+  } else {
+    colors = await loadPaletteFile(source.path);
+  }
+
+  const unique = new Map<string, RgbColor>();
+  for (const color of colors) {
+    unique.set(formatHexColor(color), color);
+  }
+
+  if (unique.size > maxFixedPaletteColors) {
+    throw new Error(`Palette has ${unique.size} colors; at most ${maxFixedPaletteColors} are supported`);
+  }
+  return [...unique.values()];
+}
@@ -2,8 +2,14 @@ import fs from "node:fs/promises";
 import path from "node:path";
 import type { Dirent, Stats } from "node:fs";
 import { isSupportedAssetPath } from "./fileType";
+import { groupFrameSequences, isSequencePattern } from "./sequence";
 
-export async function expandInputPaths(inputPaths: string[]): Promise<string[]> {
+export type ExpandInputPathsOptions = {
+  // Collapse numbered PNG runs into one `name_%04d.png` sequence entry (default: true).
+  groupSequences?: boolean;
+};
+
+export async function expandInputPaths(inputPaths: string[], options: ExpandInputPathsOptions = {}): Promise<string[]> {
   const seen = new Set<string>();
   const files: string[] = [];
 
@@ -14,6 +20,11 @@ export async function expandInputPaths(inputPaths: string[]): Promise<string[]>
     }
     seen.add(resolved);
 
+    if (isSequencePattern(resolved)) {
+      files.push(resolved);
+      return;
+    }
+
     let stat: Stats;
     try {
       stat = await fs.stat(resolved);
@@ -45,5 +56,19 @@ export async function expandInputPaths(inputPaths: string[]): Promise<string[]>
     await walk(inputPath);
   }
 
-  return files;
+  return options.groupSequences === false ? files : groupFrameSequences(files);
+}
+
+// The folder an expanded file was discovered under: the deepest input directory containing it, or the file's own
+// folder when it was passed directly.
+export function findInputRoot(filePath: string, inputPaths: string[]): string {
+  const resolved = path.resolve(filePath);
+  let root: string | null = null;
+  for (const inputPath of inputPaths) {
+    const candidate = path.resolve(inputPath);
+    if (resolved.startsWith(candidate + path.sep) && (root === null || candidate.length > root.length)) {
+      root = candidate;
+    }
+  }
+  return root ?? path.dirname(resolved);
 }
@@ -0,0 +1,304 @@
+import zlib from "node:zlib";
+
+export type RgbaImage = {
+  width: number;
+  height: number;
+  data: Uint8Array;
+};
+
+const pngSignature = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+const adam7Passes: Array<[number, number, number, number]> = [
+  [0, 0, 8, 8],
+  [4, 0, 8, 8],
+  [0, 4, 4, 8],
+  [2, 0, 4, 4],
+  [0, 2, 2, 4],
+  [1, 0, 2, 2],
+  [0, 1, 1, 2]
+];
+
+const crcTable = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n += 1) {
+    let c = n;
+    for (let k = 0; k < 8; k += 1) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let index = 0; index < data.length; index += 1) {
+    crc = crcTable[(crc ^ data[index]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+export function createRgbaImage(width: number, height: number): RgbaImage {
+  return { width, height, data: new Uint8Array(width * height * 4) };
+}
+
+export function isPngData(data: Uint8Array): boolean {
+  return data.length >= 8 && pngSignature.equals(Buffer.from(data.subarray(0, 8)));
+}
+
+function channelsForColorType(colorType: number): number {
+  switch (colorType) {
+    case 0:
+      return 1;
+    case 2:
+      return 3;
+    case 3:
+      return 1;
+    case 4:
+      return 2;
+    case 6:
+      return 4;
+    default:
+      throw new Error(`Unsupported PNG color type: ${colorType}`);
+  }
+}
+
+function paeth(a: number, b: number, c: number): number {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  if (pa <= pb && pa <= pc) {
+    return a;
+  }
+  return pb <= pc ? b : c;
+}
+
+function unfilterScanline(filter: number, line: Uint8Array, previous: Uint8Array | null, bytesPerPixel: number): void {
+  for (let index = 0; index < line.length; index += 1) {
+    const left = index >= bytesPerPixel ? line[index - bytesPerPixel] : 0;
+    const up = previous ? previous[index] : 0;
+    const upLeft = previous && index >= bytesPerPixel ? previous[index - bytesPerPixel] : 0;
+
+    switch (filter) {
+      case 0:
+        break;
+      case 1:
+        line[index] = (line[index] + left) & 0xff;
+        break;
+      case 2:
+        line[index] = (line[index] + up) & 0xff;
+        break;
+      case 3:
+        line[index] = (line[index] + ((left + up) >> 1)) & 0xff;
+        break;
+      case 4:
+        line[index] = (line[index] + paeth(left, up, upLeft)) & 0xff;
+        break;
+      default:
+        throw new Error(`Invalid PNG filter type: ${filter}`);
+    }
+  }
+}
+
+function readSample(line: Uint8Array, sampleIndex: number, bitDepth: number): number {
+  if (bitDepth === 8) {
+    return line[sampleIndex];
+  }
+  if (bitDepth === 16) {
+    return (line[sampleIndex * 2] << 8) | line[sampleIndex * 2 + 1];
+  }
+  const bitOffset = sampleIndex * bitDepth;
+  const byte = line[bitOffset >> 3];
+  const shift = 8 - bitDepth - (bitOffset & 7);
+  return (byte >> shift) & ((1 << bitDepth) - 1);
+}
+
+export function decodePng(buffer: Uint8Array): RgbaImage {
+  if (!isPngData(buffer)) {
+    throw new Error("Invalid PNG: missing signature");
+  }
+
+  const view = new DataView(buffer.buffer, buffer.byteOffset, buffer.byteLength);
+  let offset = 8;
+  let width = 0;
+  let height = 0;
+  let bitDepth = 0;
+  let colorType = 0;
+  let interlace = 0;
+  let palette: Uint8Array | null = null;
+  let transparency: Uint8Array | null = null;
+  const idat: Uint8Array[] = [];
+
+  while (offset + 8 <= buffer.length) {
+    const length = view.getUint32(offset);
+    const type = Buffer.from(buffer.subarray(offset + 4, offset + 8)).toString("latin1");
+    const data = buffer.subarray(offset + 8, offset + 8 + length);
+    offset += 12 + length;
+
+    if (type === "IHDR") {
+      const header = new DataView(data.buffer, data.byteOffset, data.byteLength);
+      width = header.getUint32(0);
+      height = header.getUint32(4);
+      bitDepth = data[8];
+      colorType = data[9];
+      interlace = data[12];
+    } else if (type === "PLTE") {
+      palette = data;
+    } else if (type === "tRNS") {
+      transparency = data;
+    } else if (type === "IDAT") {
+      idat.push(data);
+    } else if (type === "IEND") {
+      break;
+    }
+  }
+
+  if (width <= 0 || height <= 0) {
+    throw new Error("Invalid PNG: missing IHDR");
+  }
+  if (colorType === 3 && !palette) {
+    throw new Error("Invalid PNG: indexed image without PLTE");
+  }
+
+  const channels = channelsForColorType(colorType);
+  const bitsPerPixel = channels * bitDepth;
+  const bytesPerPixel = Math.max(1, bitsPerPixel >> 3);
+  const maxSample = (1 << bitDepth) - 1;
+  const inflated = zlib.inflateSync(Buffer.concat(idat));
+  const image = createRgbaImage(width, height);
+  const out = image.data;
+
+  const toByte = (value: number) => (bitDepth === 16 ? value >> 8 : bitDepth === 8 ? value : Math.round((value * 255) / maxSample));
+  const transparentGray = colorType === 0 && transparency ? (transparency[0] << 8) | transparency[1] : -1;
+  const transparentRgb =
+    colorType === 2 && transparency
+      ? [(transparency[0] << 8) | transparency[1], (transparency[2] << 8) | transparency[3], (transparency[4] << 8) | transparency[5]]
+      : null;
+
+  const passes: Array<[number, number, number, number]> = interlace ? adam7Passes : [[0, 0, 1, 1]];
+  let cursor = 0;
+
+  for (const [startX, startY, stepX, stepY] of passes) {
+    const passWidth = Math.ceil((width - startX) / stepX);
+    const passHeight = Math.ceil((height - startY) / stepY);
+    if (passWidth <= 0 || passHeight <= 0) {
+      continue;
+    }
+
+    const stride = Math.ceil((passWidth * bitsPerPixel) / 8);
+    let previous: Uint8Array | null = null;
+
+    for (let row = 0; row < passHeight; row += 1) {
+      const filter = inflated[cursor];
+      const line = new Uint8Array(inflated.subarray(cursor + 1, cursor + 1 + stride));
+      cursor += 1 + stride;
+      unfilterScanline(filter, line, previous, bytesPerPixel);
+      previous = line;
+
+      const y = startY + row * stepY;
+      for (let column = 0; column < passWidth; column += 1) {
+        const x = startX + column * stepX;
+        const target = (y * width + x) * 4;
+
+        if (colorType === 3) {
+          const index = readSample(line, column, bitDepth);
+          out[target] = palette![index * 3];
+          out[target + 1] = palette![index * 3 + 1];
+          out[target + 2] = palette![index * 3 + 2];
+          out[target + 3] = transparency && index < transparency.length ? transparency[index] : 255;
+        } else if (colorType === 0 || colorType === 4) {
+          const gray = readSample(line, column * channels, bitDepth);
+          const value = toByte(gray);
+          out[target] = value;
+          out[target + 1] = value;
+          out[target + 2] = value;
+          out[target + 3] = colorType === 4 ? toByte(readSample(line, column * channels + 1, bitDepth)) : gray === transparentGray ? 0 : 255;
+        } else {
+          const r = readSample(line, column * channels, bitDepth);
+          const g = readSample(line, column * channels + 1, bitDepth);
+          const b = readSample(line, column * channels + 2, bitDepth);
+          out[target] = toByte(r);
+          out[target + 1] = toByte(g);
+          out[target + 2] = toByte(b);
+          if (colorType === 6) {
+            out[target + 3] = toByte(readSample(line, column * channels + 3, bitDepth));
+          } else {
+            const isTransparent = transparentRgb && r === transparentRgb[0] && g === transparentRgb[1] && b === transparentRgb[2];
+            out[target + 3] = isTransparent ? 0 : 255;
+          }
+        }
+      }
+    }
+  }
+
+  return image;
+}
+
+function createChunk(type: string, data: Uint8Array): Buffer {
+  const chunk = Buffer.alloc(12 + data.length);
+  chunk.writeUInt32BE(data.length, 0);
+  chunk.write(type, 4, "latin1");
+  Buffer.from(data.buffer, data.byteOffset, data.byteLength).copy(chunk, 8);
+  chunk.writeUInt32BE(crc32(chunk.subarray(4, 8 + data.length)), 8 + data.length);
+  return chunk;
+}
+
+export function encodePng(image: RgbaImage): Buffer {
+  const { width, height, data } = image;
+  const stride = width * 4;
+  const filtered = Buffer.alloc((stride + 1) * height);
+  const candidate = new Uint8Array(stride);
+
+  // Adaptive filtering: per row, keep the filter with the smallest sum of absolute signed residuals.
+  for (let y = 0; y < height; y += 1) {
+    const row = data.subarray(y * stride, (y + 1) * stride);
+    const previous = y > 0 ? data.subarray((y - 1) * stride, y * stride) : null;
+    let bestFilter = 0;
+    let bestScore = Number.POSITIVE_INFINITY;
+    let best = new Uint8Array(row);
+
+    for (let filter = 0; filter <= 4; filter += 1) {
+      let score = 0;
+      for (let index = 0; index < stride; index += 1) {
+        const left = index >= 4 ? row[index - 4] : 0;
+        const up = previous ? previous[index] : 0;
+        const upLeft = previous && index >= 4 ? previous[index - 4] : 0;
+        let predictor = 0;
+        if (filter === 1) {
+          predictor = left;
+        } else if (filter === 2) {
+          predictor = up;
+        } else if (filter === 3) {
+          predictor = (left + up) >> 1;
+        } else if (filter === 4) {
+          predictor = paeth(left, up, upLeft);
+        }
+        const value = (row[index] - predictor) & 0xff;
+        candidate[index] = value;
+        score += value < 128 ? value : 256 - value;
+      }
+      if (score < bestScore) {
+        bestScore = score;
+        bestFilter = filter;
+        best = new Uint8Array(candidate);
+      }
+    }
+
+    filtered[y * (stride + 1)] = bestFilter;
+    filtered.set(best, y * (stride + 1) + 1);
+  }
+
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8;
+  header[9] = 6;
+
+  return Buffer.concat([
+    pngSignature,
+    createChunk("IHDR", header),
+    createChunk("IDAT", zlib.deflateSync(filtered)),
+    createChunk("IEND", new Uint8Array(0))
+  ]);
+}
@@ -0,0 +1,450 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { collisionPolicies } from "./naming";
+import { isPalettePresetName, paletteFileExtensions, palettePresets, type PaletteSource } from "./palette";
+import { spritesheetFormats } from "./spritesheet";
+import { parseYaml } from "./yaml";
+import type { PixelConfig } from "./types";
+
+export type ProjectRule = {
+  // Globs matched against the input path relative to the project folder; a pattern without a slash matches the file
+  // name in any folder.
+  match: string[];
+  preset?: string;
+  config?: Partial<PixelConfig>;
+  // Subfolder of the output folder that matching inputs are written to.
+  output?: string;
+};
+
+// A pixel.config.json/.yaml: defaults for every input, named presets, and rules that layer presets and overrides
+// onto matching inputs. Later rules win over earlier ones.
+export type ProjectConfig = {
+  // The config file's folder; globs, palette file paths and rule outputs are relative to it.
+  rootDir: string;
+  defaults: Partial<PixelConfig>;
+  presets: Record<string, Partial<PixelConfig>>;
+  rules: ProjectRule[];
+};
+
+export type ProjectJob = {
+  config: Partial<PixelConfig>;
+  // Relative to the output folder; "" when no rule sets one.
+  outputSubdir: string;
+};
+
+type FieldCheck = (value: unknown, where: string, rootDir?: string) => unknown;
+
+function describe(value: unknown): string {
+  return typeof value === "string" ? `"${value}"` : JSON.stringify(value) ?? String(value);
+}
+
+function oneOf<T extends string | number>(values: readonly T[]): FieldCheck {
+  return (value, where) => {
+    if (!values.includes(value as T)) {
+      throw new Error(`${where} must be one of ${values.join("|")}, got ${describe(value)}`);
+    }
+    return value;
+  };
+}
+
+function integer(min: number, max = Number.MAX_SAFE_INTEGER): FieldCheck {
+  return (value, where) => {
+    if (typeof value !== "number" || !Number.isInteger(value) || value < min || value > max) {
+      const range = max === Number.MAX_SAFE_INTEGER ? `at least ${min}` : `between ${min} and ${max}`;
+      throw new Error(`${where} must be an integer ${range}, got ${describe(value)}`);
+    }
+    return value;
+  };
+}
+
+function seconds(value: unknown, where: string): unknown {
+  if (typeof value !== "number" || !Number.isFinite(value) || value < 0) {
+    throw new Error(`${where} must be a number of at least 0, got ${describe(value)}`);
+  }
+  return value;
+}
+
+function boolean(value: unknown, where: string): unknown {
+  if (typeof value !== "boolean") {
+    throw new Error(`${where} must be true or false, got ${describe(value)}`);
+  }
+  return value;
+}
+
+function text(value: unknown, where: string): unknown {
+  if (typeof value !== "string" || value.trim() === "") {
+    throw new Error(`${where} must be a non-empty string, got ${describe(value)}`);
+  }
+  return value;
+}
+
+function hexColor(value: unknown, where: string): unknown {
+  if (typeof value !== "string" || !/^#?[0-9a-f]{6}$/i.test(value)) {
+    throw new Error(`${where} must be a hex color like "#000000", got ${describe(value)}`);
+  }
+  return value;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function paletteSource(value: unknown, where: string, rootDir = "."): PaletteSource {
+  if (!isRecord(value)) {
+    throw new Error(`${where} must be an object with a type of preset|file|inline`);
+  }
+  if (value.type === "preset") {
+    if (typeof value.preset !== "string" || !isPalettePresetName(value.preset)) {
+      throw new Error(`${where}.preset must be one of ${Object.keys(palettePresets).join("|")}, got ${describe(value.preset)}`);
+    }
+    return { type: "preset", preset: value.preset };
+  }
+  if (value.type === "file") {
+    if (typeof value.path !== "string" || !paletteFileExtensions.has(path.extname(value.path).toLowerCase())) {
+      throw new Error(`${where}.path must point to a .hex, .gpl, .pal or .ase file, got ${describe(value.path)}`);
+    }
+    return { type: "file", path: path.resolve(rootDir, value.path) };
+  }
+  if (value.type === "inline") {
+    if (!Array.isArray(value.colors) || value.colors.length === 0) {
+      throw new Error(`${where}.colors must be a non-empty list of hex colors`);
+    }
+    value.colors.forEach((color, index) => hexColor(color, `${where}.colors[${index}]`));
+    return { type: "inline", colors: value.colors as string[] };
+  }
+  throw new Error(`${where}.type must be one of preset|file|inline, got ${describe(value.type)}`);
+}
+
+// Every PixelConfig field, so a new field fails to compile until it can be set from a config file.
+const configFields: { [K in keyof Required<PixelConfig>]: FieldCheck } = {
+  grid: (value, where) => {
+    if (value !== "auto" && !(typeof value === "number" && Number.isInteger(value) && value >= 1 && value <= 512)) {
+      throw new Error(`${where} must be "auto" or an integer between 1 and 512, got ${describe(value)}`);
+    }
+    return value;
+  },
+  gridMode: oneOf(["cell", "width", "height"]),
+  gridOffsetX: integer(0),
+  gridOffsetY: integer(0),
+  downsample: oneOf(["nearest", "area", "mode", "edge"]),
+  palette: integer(2, 256),
+  paletteSource,
+  exportPalette: boolean,
+  quantizer: oneOf(["median-cut", "kmeans"]),
+  dither: oneOf(["none", "bayer", "floyd"]),
+  videoPaletteMode: oneOf(["single-pass", "two-pass", "per-scene"]),
+  sceneThreshold: (value, where) => {
+    if (typeof value !== "number" || !(value > 0 && value <= 1)) {
+      throw new Error(`${where} must be greater than 0 and at most 1, got ${describe(value)}`);
+    }
+    return value;
+  },
+  stableDither: boolean,
+  trim: boolean,
+  trimPadding: integer(0),
+  alphaThreshold: integer(0, 255),
+  outline: boolean,
+  outlineColor: hexColor,
+  outlinePlacement: oneOf(["outer", "inner"]),
+  outlineConnectivity: oneOf([4, 8]),
+  scale: integer(1),
+  fps: integer(1),
+  rangeUnit: oneOf(["seconds", "frames"]),
+  rangeStart: seconds,
+  rangeEnd: seconds,
+  outputFormat: oneOf(["png", "svg", "mp4", "webm", "mov", "gif", "apng", "webp", "frames"]),
+  loopCount: integer(0, 65535),
+  videoCodec: oneOf(["auto", "h264", "vp9", "av1"]),
+  videoRateControl: oneOf(["crf", "bitrate", "lossless"]),
+  videoCrf: integer(0, 63),
+  videoBitrateKbps: integer(1),
+  audio: oneOf(["none", "copy", "encode"]),
+  audioBitrateKbps: integer(8),
+  alphaMask: boolean,
+  spritesheet: boolean,
+  spritesheetColumns: integer(0),
+  spritesheetRows: integer(0),
+  spritesheetPadding: integer(0),
+  spritesheetExtrude: integer(0),
+  spritesheetFrameStart: integer(0),
+  spritesheetFrameCount: integer(0),
+  spritesheetFormats: (value, where) => {
+    if (!Array.isArray(value) || value.length === 0) {
+      throw new Error(`${where} must be a non-empty list of ${spritesheetFormats.join("|")}`);
+    }
+    return value.map((format, index) => oneOf(spritesheetFormats)(format, `${where}[${index}]`));
+  },
+  outputTemplate: text,
+  mirrorInputTree: boolean,
+  outputCollision: oneOf(collisionPolicies)
+};
+
+export function validateConfigPatch(raw: unknown, where: string, rootDir: string): Partial<PixelConfig> {
+  if (!isRecord(raw)) {
+    throw new Error(`${where} must be an object of config options`);
+  }
+  const patch: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(raw)) {
+    if (!Object.prototype.hasOwnProperty.call(configFields, key)) {
+      throw new Error(`${where}.${key} is not a config option`);
+    }
+    patch[key] = configFields[key as keyof PixelConfig](value, `${where}.${key}`, rootDir);
+  }
+  return patch as Partial<PixelConfig>;
+}
+
+function relativeOutput(value: unknown, where: string): string {
+  text(value, where);
+  const normalized = path.normalize(value as string);
+  if (path.isAbsolute(normalized) || normalized === ".." || normalized.startsWith(`..${path.sep}`)) {
+    throw new Error(`${where} must be a folder inside the output folder, got ${describe(value)}`);
+  }
+  return normalized === "." ? "" : normalized;
+}
+
+function allowOnly(raw: Record<string, unknown>, keys: string[], where: string): void {
+  for (const key of Object.keys(raw)) {
+    if (!keys.includes(key)) {
+      throw new Error(`${where}.${key} is not allowed here; expected ${keys.join(", ")}`);
+    }
+  }
+}
+
+// Checks a parsed config file and resolves palette paths against rootDir. Errors name the offending field,
+// e.g. `rules[2].config.grid must be an integer between 1 and 512`.
+export function validateProjectConfig(raw: unknown, rootDir: string): ProjectConfig {
+  if (!isRecord(raw)) {
+    throw new Error("config must be an object with defaults, presets and rules");
+  }
+  allowOnly(raw, ["defaults", "presets", "rules"], "config");
+
+  const defaults = raw.defaults === undefined ? {} : validateConfigPatch(raw.defaults, "defaults", rootDir);
+
+  const presets: Record<string, Partial<PixelConfig>> = {};
+  if (raw.presets !== undefined) {
+    if (!isRecord(raw.presets)) {
+      throw new Error("presets must map preset names to config options");
+    }
+    for (const [name, preset] of Object.entries(raw.presets)) {
+      presets[name] = validateConfigPatch(preset, `presets.${name}`, rootDir);
+    }
+  }
+
+  const rules: ProjectRule[] = [];
+  if (raw.rules !== undefined) {
+    if (!Array.isArray(raw.rules)) {
+      throw new Error("rules must be a list");
+    }
+    raw.rules.forEach((entry: unknown, index) => {
+      const where = `rules[${index}]`;
+      if (!isRecord(entry)) {
+        throw new Error(`${where} must be an object with match and preset, config or output`);
+      }
+      allowOnly(entry, ["match", "preset", "config", "output"], where);
+
+      const patterns = typeof entry.match === "string" ? [entry.match] : entry.match;
+      if (!Array.isArray(patterns) || patterns.length === 0) {
+        throw new Error(`${where}.match must be a glob or a list of globs`);
+      }
+      patterns.forEach((pattern, patternIndex) => {
+        const label = `${where}.match[${patternIndex}]`;
+        text(pattern, label);
+        // Compiled now so a bad pattern fails the load, not every job that reaches the rule.
+        try {
+          globToRegExp(normalizeGlob(pattern as string));
+        } catch (error) {
+          throw new Error(`${label} is not a valid glob: ${error instanceof Error ? error.message : String(error)}`);
+        }
+      });
+
+      const rule: ProjectRule = { match: patterns as string[] };
+      if (entry.preset !== undefined) {
+        if (typeof entry.preset !== "string" || !Object.prototype.hasOwnProperty.call(presets, entry.preset)) {
+          const known = Object.keys(presets);
+          throw new Error(
+            `${where}.preset ${describe(entry.preset)} is not defined in presets${known.length > 0 ? ` (${known.join(", ")})` : ""}`
+          );
+        }
+        rule.preset = entry.preset;
+      }
+      if (entry.config !== undefined) {
+        rule.config = validateConfigPatch(entry.config, `${where}.config`, rootDir);
+      }
+      if (entry.output !== undefined) {
+        rule.output = relativeOutput(entry.output, `${where}.output`);
+      }
+      rules.push(rule);
+    });
+  }
+
+  return { rootDir, defaults, presets, rules };
+}
+
+export function parseProjectConfig(source: string, filePath: string): ProjectConfig {
+  const name = path.basename(filePath);
+  let raw: unknown;
+  try {
+    raw = /\.ya?ml$/i.test(filePath) ? parseYaml(source) : JSON.parse(source);
+  } catch (error) {
+    throw new Error(`${name}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  try {
+    return validateProjectConfig(raw, path.dirname(path.resolve(filePath)));
+  } catch (error) {
+    throw new Error(`${name}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+export async function loadProjectConfig(filePath: string): Promise<ProjectConfig> {
+  let source: string;
+  try {
+    source = await fs.readFile(filePath, "utf8");
+  } catch {
+    throw new Error(`Cannot read config file ${filePath}`);
+  }
+  return parseProjectConfig(source, filePath);
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+}
+
+// `*` and `?` stay within one folder, `**/` spans any number of folders, `{a,b}` picks alternatives (which may use
+// wildcards themselves).
+export function globToRegExp(pattern: string): RegExp {
+  return new RegExp(`^${globSource(pattern)}$`, "i");
+}
+
+// Index of the `}` closing the `{` at `start`, skipping nested groups; -1 when it is never closed.
+function closingBrace(pattern: string, start: number): number {
+  let depth = 0;
+  for (let index = start; index < pattern.length; index += 1) {
+    if (pattern[index] === "{") {
+      depth += 1;
+    } else if (pattern[index] === "}") {
+      depth -= 1;
+      if (depth === 0) {
+        return index;
+      }
+    }
+  }
+  return -1;
+}
+
+// A brace group's alternatives, split on the commas outside nested groups: `a,{b,c}` -> `a`, `{b,c}`.
+function braceAlternatives(body: string): string[] {
+  const alternatives: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let index = 0; index < body.length; index += 1) {
+    if (body[index] === "{") {
+      depth += 1;
+    } else if (body[index] === "}") {
+      depth = Math.max(0, depth - 1);
+    } else if (body[index] === "," && depth === 0) {
+      alternatives.push(body.slice(start, index));
+      start = index + 1;
+    }
+  }
+  return [...alternatives, body.slice(start)];
+}
+
+function globSource(pattern: string): string {
+  let source = "";
+  for (let index = 0; index < pattern.length; index += 1) {
+    const char = pattern[index];
+    if (char === "*" && pattern[index + 1] === "*") {
+      const slash = pattern[index + 2] === "/";
+      source += slash ? "(?:.*/)?" : ".*";
+      index += slash ? 2 : 1;
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "{") {
+      const end = closingBrace(pattern, index);
+      if (end < 0) {
+        source += "\\{";
+        continue;
+      }
+      source += `(?:${braceAlternatives(pattern.slice(index + 1, end)).map(globSource).join("|")})`;
+      index = end;
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+  return source;
+}
+
+function normalizeGlob(pattern: string): string {
+  return pattern.replace(/\\/g, "/").replace(/^\.\//, "");
+}
+
+export function matchesGlob(pattern: string, relativePath: string): boolean {
+  const normalized = normalizeGlob(pattern);
+  const target = normalized.includes("/") ? relativePath : relativePath.slice(relativePath.lastIndexOf("/") + 1);
+  return globToRegExp(normalized).test(target);
+}
+
+// Overrides and output subfolder from the rules that match an input, without the file's defaults.
+export function matchProjectRules(project: ProjectConfig, inputPath: string): ProjectJob {
+  const relative = path.relative(project.rootDir, path.resolve(inputPath));
+  const job: ProjectJob = { config: {}, outputSubdir: "" };
+  if (relative.startsWith("..") || path.isAbsolute(relative)) {
+    return job;
+  }
+
+  const relativePath = relative.split(path.sep).join("/");
+  for (const rule of project.rules) {
+    if (!rule.match.some((pattern) => matchesGlob(pattern, relativePath))) {
+      continue;
+    }
+    Object.assign(job.config, rule.preset ? project.presets[rule.preset] : undefined, rule.config);
+    if (rule.output !== undefined) {
+      job.outputSubdir = rule.output;
+    }
+  }
+  return job;
+}
+
+// Config overrides for one input: the file's defaults, the chosen preset, then every matching rule in order.
+export function resolveProjectJob(project: ProjectConfig, inputPath: string, presetName?: string): ProjectJob {
+  if (presetName !== undefined && !Object.prototype.hasOwnProperty.call(project.presets, presetName)) {
+    const known = Object.keys(project.presets);
+    throw new Error(`Unknown preset "${presetName}"${known.length > 0 ? `; defined presets: ${known.join(", ")}` : ""}`);
+  }
+  const matched = matchProjectRules(project, inputPath);
+  const preset = presetName === undefined ? {} : project.presets[presetName];
+  return { config: { ...project.defaults, ...preset, ...matched.config }, outputSubdir: matched.outputSubdir };
+}
+
+// The config file form of a project: palette paths relative to rootDir again, defaults reduced to the options that
+// differ from `base` (presets to those that differ from the defaults they layer on), and empty sections left out, so
+// a presets-only file is still a valid config.
+export function formatProjectConfig(project: ProjectConfig, base: Partial<PixelConfig> = {}): string {
+  const portable = (config: Partial<PixelConfig>): Partial<PixelConfig> => {
+    const source = config.paletteSource;
+    return source?.type === "file"
+      ? { ...config, paletteSource: { type: "file", path: path.relative(project.rootDir, source.path).split(path.sep).join("/") } }
+      : config;
+  };
+  const reduce = (config: Partial<PixelConfig>, against: Partial<PixelConfig>): Partial<PixelConfig> =>
+    portable(
+      Object.fromEntries(
+        Object.entries(config).filter(([key, value]) => JSON.stringify(value) !== JSON.stringify(against[key as keyof PixelConfig]))
+      )
+    );
+
+  const file: Record<string, unknown> = {};
+  const defaults = reduce(project.defaults, base);
+  if (Object.keys(defaults).length > 0) {
+    file.defaults = defaults;
+  }
+  if (Object.keys(project.presets).length > 0) {
+    file.presets = Object.fromEntries(Object.entries(project.presets).map(([name, preset]) => [name, reduce(preset, { ...base, ...project.defaults })]));
+  }
+  if (project.rules.length > 0) {
+    file.rules = project.rules.map((rule) => (rule.config ? { ...rule, config: portable(rule.config) } : rule));
+  }
+  return `${JSON.stringify(file, null, 2)}\n`;
+}
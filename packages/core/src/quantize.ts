@@ -0,0 +1,270 @@
+import type { RgbColor } from "./color";
+
+// Packed 0xRRGGBB -> pixel count.
+export type ColorHistogram = Map<number, number>;
+
+export function packRgb(r: number, g: number, b: number): number {
+  return (r << 16) | (g << 8) | b;
+}
+
+export function unpackRgb(key: number): RgbColor {
+  return { r: (key >> 16) & 0xff, g: (key >> 8) & 0xff, b: key & 0xff };
+}
+
+export function addRgbaToHistogram(histogram: ColorHistogram, data: Uint8Array): void {
+  for (let offset = 0; offset + 3 < data.length; offset += 4) {
+    if (data[offset + 3] === 0) {
+      continue;
+    }
+    const key = packRgb(data[offset], data[offset + 1], data[offset + 2]);
+    histogram.set(key, (histogram.get(key) ?? 0) + 1);
+  }
+}
+
+export function histogramColors(histogram: ColorHistogram): RgbColor[] {
+  return [...histogram.entries()].sort((a, b) => b[1] - a[1] || a[0] - b[0]).map(([key]) => unpackRgb(key));
+}
+
+type ColorBox = {
+  entries: Array<{ color: RgbColor; count: number }>;
+  total: number;
+};
+
+type Channel = "r" | "g" | "b";
+
+function channelRange(box: ColorBox, channel: Channel): number {
+  let min = 255;
+  let max = 0;
+  for (const { color } of box.entries) {
+    min = Math.min(min, color[channel]);
+    max = Math.max(max, color[channel]);
+  }
+  return max - min;
+}
+
+function widestChannel(box: ColorBox): { channel: Channel; range: number } {
+  return (["r", "g", "b"] as Channel[])
+    .map((channel) => ({ channel, range: channelRange(box, channel) }))
+    .reduce((best, next) => (next.range > best.range ? next : best));
+}
+
+function splitBox(box: ColorBox, channel: Channel): [ColorBox, ColorBox] {
+  const sorted = [...box.entries].sort((a, b) => a.color[channel] - b.color[channel]);
+  const half = box.total / 2;
+  let running = 0;
+  let cut = 1;
+  for (let index = 0; index < sorted.length - 1; index += 1) {
+    running += sorted[index].count;
+    cut = index + 1;
+    if (running >= half) {
+      break;
+    }
+  }
+
+  const left = sorted.slice(0, cut);
+  const right = sorted.slice(cut);
+  const sum = (entries: typeof sorted) => entries.reduce((total, entry) => total + entry.count, 0);
+  return [
+    { entries: left, total: sum(left) },
+    { entries: right, total: sum(right) }
+  ];
+}
+
+function averageColor(box: ColorBox): RgbColor {
+  let r = 0;
+  let g = 0;
+  let b = 0;
+  for (const { color, count } of box.entries) {
+    r += color.r * count;
+    g += color.g * count;
+    b += color.b * count;
+  }
+  return {
+    r: Math.round(r / box.total),
+    g: Math.round(g / box.total),
+    b: Math.round(b / box.total)
+  };
+}
+
+// Weighted median cut. Returns the histogram colors unchanged when they already fit in maxColors.
+export function medianCutPalette(histogram: ColorHistogram, maxColors: number): RgbColor[] {
+  const limit = Math.max(1, Math.floor(maxColors));
+  if (histogram.size <= limit) {
+    return histogramColors(histogram);
+  }
+
+  const boxes: ColorBox[] = [
+    {
+      entries: [...histogram.entries()].map(([key, count]) => ({ color: unpackRgb(key), count })),
+      total: [...histogram.values()].reduce((total, count) => total + count, 0)
+    }
+  ];
+
+  while (boxes.length < limit) {
+    let targetIndex = -1;
+    let targetScore = 0;
+    for (let index = 0; index < boxes.length; index += 1) {
+      if (boxes[index].entries.length < 2) {
+        continue;
+      }
+      const score = widestChannel(boxes[index]).range * boxes[index].total;
+      if (score > targetScore) {
+        targetScore = score;
+        targetIndex = index;
+      }
+    }
+
+    if (targetIndex < 0) {
+      break;
+    }
+
+    const [box] = boxes.splice(targetIndex, 1);
+    boxes.push(...splitBox(box, widestChannel(box).channel));
+  }
+
+  return boxes.sort((a, b) => b.total - a.total).map(averageColor);
+}
+
+// Lloyd refinement seeded from median cut, so results stay deterministic.
+export function kmeansPalette(histogram: ColorHistogram, maxColors: number, iterations = 8): RgbColor[] {
+  const centroids = medianCutPalette(histogram, maxColors);
+  if (histogram.size <= centroids.length) {
+    return centroids;
+  }
+
+  const entries = [...histogram.entries()].map(([key, count]) => ({ color: unpackRgb(key), count }));
+
+  for (let iteration = 0; iteration < iterations; iteration += 1) {
+    const sums = centroids.map(() => ({ r: 0, g: 0, b: 0, count: 0 }));
+    for (const { color, count } of entries) {
+      const sum = sums[nearestColorIndex(centroids, color.r, color.g, color.b)];
+      sum.r += color.r * count;
+      sum.g += color.g * count;
+      sum.b += color.b * count;
+      sum.count += count;
+    }
+
+    let moved = false;
+    sums.forEach((sum, index) => {
+      if (sum.count === 0) {
+        return;
+      }
+      const next = {
+        r: Math.round(sum.r / sum.count),
+        g: Math.round(sum.g / sum.count),
+        b: Math.round(sum.b / sum.count)
+      };
+      if (next.r !== centroids[index].r || next.g !== centroids[index].g || next.b !== centroids[index].b) {
+        centroids[index] = next;
+        moved = true;
+      }
+    });
+
+    if (!moved) {
+      break;
+    }
+  }
+
+  return centroids;
+}
+
+export function nearestColorIndex(palette: RgbColor[], r: number, g: number, b: number): number {
+  let bestIndex = 0;
+  let bestDistance = Number.POSITIVE_INFINITY;
+  for (let index = 0; index < palette.length; index += 1) {
+    const dr = palette[index].r - r;
+    const dg = palette[index].g - g;
+    const db = palette[index].b - b;
+    const distance = dr * dr + dg * dg + db * db;
+    if (distance < bestDistance) {
+      bestDistance = distance;
+      bestIndex = index;
+    }
+  }
+  return bestIndex;
+}
+
+function bayerMatrix(size: number): number[][] {
+  if (size === 1) {
+    return [[0]];
+  }
+  const half = bayerMatrix(size / 2);
+  const matrix: number[][] = [];
+  for (let y = 0; y < size; y += 1) {
+    matrix.push([]);
+    for (let x = 0; x < size; x += 1) {
+      const base = 4 * half[y % (size / 2)][x % (size / 2)];
+      const quadrant = [0, 2, 3, 1][(y < size / 2 ? 0 : 2) + (x < size / 2 ? 0 : 1)];
+      matrix[y].push(base + quadrant);
+    }
+  }
+  return matrix;
+}
+
+const bayer8 = bayerMatrix(8);
+
+const floydSteinbergWeights: Array<[number, number, number]> = [
+  [1, 0, 7 / 16],
+  [-1, 1, 3 / 16],
+  [0, 1, 5 / 16],
+  [1, 1, 1 / 16]
+];
+
+export type DitherMode = "none" | "bayer" | "floyd";
+
+// Maps every visible pixel onto the palette in place. Transparent pixels are left untouched.
+export function remapToPalette(
+  image: { width: number; height: number; data: Uint8Array },
+  palette: RgbColor[],
+  dither: DitherMode
+): void {
+  const { width, height, data } = image;
+  const clampChannel = (value: number) => Math.max(0, Math.min(255, value));
+  // Ordered-dither amplitude shrinks as the palette gets denser.
+  const spread = 255 / Math.max(2, Math.cbrt(palette.length));
+  const errors = dither === "floyd" ? new Float32Array(width * height * 3) : null;
+
+  for (let y = 0; y < height; y += 1) {
+    for (let x = 0; x < width; x += 1) {
+      const pixel = y * width + x;
+      const offset = pixel * 4;
+      if (data[offset + 3] === 0) {
+        continue;
+      }
+
+      let r = data[offset];
+      let g = data[offset + 1];
+      let b = data[offset + 2];
+
+      if (dither === "bayer") {
+        const bias = ((bayer8[y % 8][x % 8] + 0.5) / 64 - 0.5) * spread;
+        r = clampChannel(r + bias);
+        g = clampChannel(g + bias);
+        b = clampChannel(b + bias);
+      } else if (errors) {
+        r = clampChannel(r + errors[pixel * 3]);
+        g = clampChannel(g + errors[pixel * 3 + 1]);
+        b = clampChannel(b + errors[pixel * 3 + 2]);
+      }
+
+      const color = palette[nearestColorIndex(palette, r, g, b)];
+      data[offset] = color.r;
+      data[offset + 1] = color.g;
+      data[offset + 2] = color.b;
+
+      if (errors) {
+        for (const [dx, dy, weight] of floydSteinbergWeights) {
+          const nx = x + dx;
+          const ny = y + dy;
+          if (nx < 0 || nx >= width || ny >= height) {
+            continue;
+          }
+          const target = (ny * width + nx) * 3;
+          errors[target] += (r - color.r) * weight;
+          errors[target + 1] += (g - color.g) * weight;
+          errors[target + 2] += (b - color.b) * weight;
+        }
+      }
+    }
+  }
+}
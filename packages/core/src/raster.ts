@@ -0,0 +1,373 @@
+import type { RgbColor } from "./color";
+import { createRgbaImage, type RgbaImage } from "./png";
+import type { TrimBox } from "./trim";
+
+// "mode" keeps each cell's most frequent color; "edge" averages only the side of an edge covering most of the cell.
+export type DownsampleMode = "nearest" | "area" | "mode" | "edge";
+
+// "cell": `grid` is the cell size in source pixels; "width"/"height": `grid` is the output size in cells on that axis.
+export type GridMode = "cell" | "width" | "height";
+
+export type GridOptions = {
+  grid: number;
+  mode?: GridMode;
+  // Source pixels skipped before the first cell, to line cells up with art that was drawn on a grid.
+  offsetX?: number;
+  offsetY?: number;
+};
+
+export type GridLayout = {
+  // Source region covered by whole cells; in "cell" mode the partial cells past it are dropped.
+  crop: TrimBox;
+  width: number;
+  height: number;
+};
+
+export type OutlineOptions = {
+  color: RgbColor;
+  placement: "outer" | "inner";
+  connectivity: 4 | 8;
+};
+
+const orthogonalNeighbours: Array<[number, number]> = [
+  [0, -1],
+  [-1, 0],
+  [1, 0],
+  [0, 1]
+];
+
+const allNeighbours: Array<[number, number]> = [
+  [-1, -1],
+  [0, -1],
+  [1, -1],
+  [-1, 0],
+  [1, 0],
+  [-1, 1],
+  [0, 1],
+  [1, 1]
+];
+
+export function computeGridLayout(width: number, height: number, options: GridOptions): GridLayout {
+  const grid = Math.max(1, Math.floor(options.grid));
+  const offsetX = Math.min(width - 1, Math.max(0, Math.floor(options.offsetX ?? 0)));
+  const offsetY = Math.min(height - 1, Math.max(0, Math.floor(options.offsetY ?? 0)));
+  const availableWidth = width - offsetX;
+  const availableHeight = height - offsetY;
+  const crop = { x: offsetX, y: offsetY, width: availableWidth, height: availableHeight };
+
+  if (options.mode === "width" || options.mode === "height") {
+    // Never upsample: the target is capped at the source size on its axis, the other axis keeps the aspect ratio.
+    const horizontal = options.mode === "width";
+    const target = Math.min(grid, horizontal ? availableWidth : availableHeight);
+    const other = Math.max(
+      1,
+      Math.round(((horizontal ? availableHeight : availableWidth) * target) / (horizontal ? availableWidth : availableHeight))
+    );
+    return { crop, width: horizontal ? target : other, height: horizontal ? other : target };
+  }
+
+  const columns = Math.max(1, Math.trunc(availableWidth / grid));
+  const rows = Math.max(1, Math.trunc(availableHeight / grid));
+  return {
+    crop: { ...crop, width: Math.min(availableWidth, columns * grid), height: Math.min(availableHeight, rows * grid) },
+    width: columns,
+    height: rows
+  };
+}
+
+export function gridDimensions(width: number, height: number, grid: number): { width: number; height: number } {
+  const layout = computeGridLayout(width, height, { grid });
+  return { width: layout.width, height: layout.height };
+}
+
+function downsampleNearest(image: RgbaImage, width: number, height: number): RgbaImage {
+  const out = createRgbaImage(width, height);
+  for (let y = 0; y < height; y += 1) {
+    const sourceY = Math.min(image.height - 1, Math.floor(((y + 0.5) * image.height) / height));
+    for (let x = 0; x < width; x += 1) {
+      const sourceX = Math.min(image.width - 1, Math.floor(((x + 0.5) * image.width) / width));
+      const source = (sourceY * image.width + sourceX) * 4;
+      out.data.set(image.data.subarray(source, source + 4), (y * width + x) * 4);
+    }
+  }
+  return out;
+}
+
+// Box filter over each cell, alpha-weighted so transparent pixels don't darken edges.
+function downsampleArea(image: RgbaImage, width: number, height: number): RgbaImage {
+  const out = createRgbaImage(width, height);
+  for (let y = 0; y < height; y += 1) {
+    const y0 = Math.floor((y * image.height) / height);
+    const y1 = Math.max(y0 + 1, Math.floor(((y + 1) * image.height) / height));
+    for (let x = 0; x < width; x += 1) {
+      const x0 = Math.floor((x * image.width) / width);
+      const x1 = Math.max(x0 + 1, Math.floor(((x + 1) * image.width) / width));
+      let r = 0;
+      let g = 0;
+      let b = 0;
+      let a = 0;
+      for (let sy = y0; sy < y1; sy += 1) {
+        for (let sx = x0; sx < x1; sx += 1) {
+          const source = (sy * image.width + sx) * 4;
+          const alpha = image.data[source + 3];
+          r += image.data[source] * alpha;
+          g += image.data[source + 1] * alpha;
+          b += image.data[source + 2] * alpha;
+          a += alpha;
+        }
+      }
+      const target = (y * width + x) * 4;
+      const count = (x1 - x0) * (y1 - y0);
+      if (a > 0) {
+        out.data[target] = Math.round(r / a);
+        out.data[target + 1] = Math.round(g / a);
+        out.data[target + 2] = Math.round(b / a);
+      }
+      out.data[target + 3] = Math.round(a / count);
+    }
+  }
+  return out;
+}
+
+function cellBounds(index: number, cells: number, size: number): [number, number] {
+  const start = Math.floor((index * size) / cells);
+  return [start, Math.max(start + 1, Math.floor(((index + 1) * size) / cells))];
+}
+
+// Most frequent RGBA value in each cell; fully transparent pixels all count as one color.
+function downsampleMode(image: RgbaImage, width: number, height: number): RgbaImage {
+  const out = createRgbaImage(width, height);
+  const counts = new Map<number, number>();
+  for (let y = 0; y < height; y += 1) {
+    const [y0, y1] = cellBounds(y, height, image.height);
+    for (let x = 0; x < width; x += 1) {
+      const [x0, x1] = cellBounds(x, width, image.width);
+      counts.clear();
+      let best = 0;
+      let bestCount = 0;
+      for (let sy = y0; sy < y1; sy += 1) {
+        for (let sx = x0; sx < x1; sx += 1) {
+          const source = (sy * image.width + sx) * 4;
+          const alpha = image.data[source + 3];
+          const key =
+            alpha === 0
+              ? 0
+              : ((image.data[source] << 24) | (image.data[source + 1] << 16) | (image.data[source + 2] << 8) | alpha) >>> 0;
+          const count = (counts.get(key) ?? 0) + 1;
+          counts.set(key, count);
+          if (count > bestCount) {
+            best = key;
+            bestCount = count;
+          }
+        }
+      }
+      const target = (y * width + x) * 4;
+      out.data[target] = best >>> 24;
+      out.data[target + 1] = (best >>> 16) & 0xff;
+      out.data[target + 2] = (best >>> 8) & 0xff;
+      out.data[target + 3] = best & 0xff;
+    }
+  }
+  return out;
+}
+
+function luminance(data: Uint8Array, offset: number): number {
+  return data[offset] * 0.299 + data[offset + 1] * 0.587 + data[offset + 2] * 0.114;
+}
+
+// Splits each cell into transparent, darker-than-mean and lighter-than-mean pixels and averages only the largest
+// group, so a cell straddling an edge takes one side's color instead of a blend of both.
+function downsampleEdge(image: RgbaImage, width: number, height: number): RgbaImage {
+  const out = createRgbaImage(width, height);
+  for (let y = 0; y < height; y += 1) {
+    const [y0, y1] = cellBounds(y, height, image.height);
+    for (let x = 0; x < width; x += 1) {
+      const [x0, x1] = cellBounds(x, width, image.width);
+      let transparent = 0;
+      let opaque = 0;
+      let luminanceSum = 0;
+      for (let sy = y0; sy < y1; sy += 1) {
+        for (let sx = x0; sx < x1; sx += 1) {
+          const source = (sy * image.width + sx) * 4;
+          if (image.data[source + 3] === 0) {
+            transparent += 1;
+          } else {
+            opaque += 1;
+            luminanceSum += luminance(image.data, source);
+          }
+        }
+      }
+
+      const target = (y * width + x) * 4;
+      if (transparent >= opaque) {
+        continue;
+      }
+
+      const mean = luminanceSum / opaque;
+      const sums = [
+        [0, 0, 0, 0, 0],
+        [0, 0, 0, 0, 0]
+      ];
+      for (let sy = y0; sy < y1; sy += 1) {
+        for (let sx = x0; sx < x1; sx += 1) {
+          const source = (sy * image.width + sx) * 4;
+          const alpha = image.data[source + 3];
+          if (alpha === 0) {
+            continue;
+          }
+          const group = sums[luminance(image.data, source) <= mean ? 0 : 1];
+          group[0] += image.data[source] * alpha;
+          group[1] += image.data[source + 1] * alpha;
+          group[2] += image.data[source + 2] * alpha;
+          group[3] += alpha;
+          group[4] += 1;
+        }
+      }
+      const [r, g, b, alphaSum, count] = sums[0][4] >= sums[1][4] ? sums[0] : sums[1];
+      out.data[target] = Math.round(r / alphaSum);
+      out.data[target + 1] = Math.round(g / alphaSum);
+      out.data[target + 2] = Math.round(b / alphaSum);
+      out.data[target + 3] = Math.round(alphaSum / count);
+    }
+  }
+  return out;
+}
+
+export function downsampleImage(image: RgbaImage, width: number, height: number, mode: DownsampleMode): RgbaImage {
+  switch (mode) {
+    case "area":
+      return downsampleArea(image, width, height);
+    case "mode":
+      return downsampleMode(image, width, height);
+    case "edge":
+      return downsampleEdge(image, width, height);
+    default:
+      return downsampleNearest(image, width, height);
+  }
+}
+
+// Crops to the grid layout and reduces each cell to one pixel.
+export function downsampleToGrid(image: RgbaImage, layout: GridLayout, mode: DownsampleMode): RgbaImage {
+  const { crop } = layout;
+  const covered =
+    crop.x === 0 && crop.y === 0 && crop.width === image.width && crop.height === image.height ? image : cropImage(image, crop);
+  return downsampleImage(covered, layout.width, layout.height, mode);
+}
+
+export function applyAlphaThreshold(image: RgbaImage, threshold: number): void {
+  if (threshold <= 0) {
+    return;
+  }
+  for (let offset = 3; offset < image.data.length; offset += 4) {
+    image.data[offset] = image.data[offset] < threshold ? 0 : 255;
+  }
+}
+
+function alphaAt(image: RgbaImage, x: number, y: number): number {
+  if (x < 0 || y < 0 || x >= image.width || y >= image.height) {
+    return -1;
+  }
+  return image.data[(y * image.width + x) * 4 + 3];
+}
+
+export function padImage(image: RgbaImage, padding: number): RgbaImage {
+  if (padding <= 0) {
+    return image;
+  }
+  const out = createRgbaImage(image.width + padding * 2, image.height + padding * 2);
+  for (let y = 0; y < image.height; y += 1) {
+    const source = image.data.subarray(y * image.width * 4, (y + 1) * image.width * 4);
+    out.data.set(source, ((y + padding) * out.width + padding) * 4);
+  }
+  return out;
+}
+
+export function cropImage(image: RgbaImage, box: TrimBox): RgbaImage {
+  const out = createRgbaImage(box.width, box.height);
+  for (let y = 0; y < box.height; y += 1) {
+    const start = ((box.y + y) * image.width + box.x) * 4;
+    out.data.set(image.data.subarray(start, start + box.width * 4), y * box.width * 4);
+  }
+  return out;
+}
+
+// Mirrors the ffmpeg dilation/erosion graph: outer grows onto transparent cells, inner recolors edge cells.
+export function applyOutline(image: RgbaImage, options: OutlineOptions): RgbaImage {
+  const neighbours = options.connectivity === 4 ? orthogonalNeighbours : allNeighbours;
+  const source = options.placement === "inner" ? image : padImage(image, 1);
+  const out = createRgbaImage(source.width, source.height);
+  out.data.set(source.data);
+
+  for (let y = 0; y < source.height; y += 1) {
+    for (let x = 0; x < source.width; x += 1) {
+      const alpha = alphaAt(source, x, y);
+      const neighbourAlphas = neighbours.map(([dx, dy]) => alphaAt(source, x + dx, y + dy)).filter((value) => value >= 0);
+      let outlineAlpha = 0;
+
+      if (options.placement === "inner") {
+        outlineAlpha = Math.max(0, alpha - Math.min(alpha, ...neighbourAlphas));
+      } else if (alpha < 255) {
+        outlineAlpha = Math.max(0, ...neighbourAlphas);
+      }
+
+      if (outlineAlpha === 0) {
+        continue;
+      }
+
+      const target = (y * out.width + x) * 4;
+      if (options.placement === "inner") {
+        const blend = outlineAlpha / 255;
+        out.data[target] = Math.round(options.color.r * blend + out.data[target] * (1 - blend));
+        out.data[target + 1] = Math.round(options.color.g * blend + out.data[target + 1] * (1 - blend));
+        out.data[target + 2] = Math.round(options.color.b * blend + out.data[target + 2] * (1 - blend));
+      } else {
+        const keep = alpha / 255;
+        out.data[target] = Math.round(out.data[target] * keep + options.color.r * (1 - keep));
+        out.data[target + 1] = Math.round(out.data[target + 1] * keep + options.color.g * (1 - keep));
+        out.data[target + 2] = Math.round(out.data[target + 2] * keep + options.color.b * (1 - keep));
+        out.data[target + 3] = Math.max(alpha, outlineAlpha);
+      }
+    }
+  }
+
+  return out;
+}
+
+export function findAlphaBounds(image: RgbaImage): TrimBox | null {
+  let minX = image.width;
+  let minY = image.height;
+  let maxX = -1;
+  let maxY = -1;
+
+  for (let y = 0; y < image.height; y += 1) {
+    for (let x = 0; x < image.width; x += 1) {
+      if (image.data[(y * image.width + x) * 4 + 3] === 0) {
+        continue;
+      }
+      minX = Math.min(minX, x);
+      minY = Math.min(minY, y);
+      maxX = Math.max(maxX, x);
+      maxY = Math.max(maxY, y);
+    }
+  }
+
+  if (maxX < 0) {
+    return null;
+  }
+  return { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 };
+}
+
+export function upscaleNearest(image: RgbaImage, factor: number): RgbaImage {
+  if (factor <= 1) {
+    return image;
+  }
+  const out = createRgbaImage(image.width * factor, image.height * factor);
+  for (let y = 0; y < out.height; y += 1) {
+    const sourceRow = Math.floor(y / factor) * image.width;
+    for (let x = 0; x < out.width; x += 1) {
+      const source = (sourceRow + Math.floor(x / factor)) * 4;
+      out.data.set(image.data.subarray(source, source + 4), (y * out.width + x) * 4);
+    }
+  }
+  return out;
+}
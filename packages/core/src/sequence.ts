@@ -0,0 +1,155 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+
+// A frame sequence is addressed by an ffmpeg image2 pattern such as `/art/walk_%04d.png`.
+export type FrameSequence = {
+  pattern: string;
+  startNumber: number;
+  frames: string[];
+};
+
+const sequenceTokenPattern = /%(0\d+)?d/;
+const numberedFramePattern = /^(.*?)(\d+)(\.png)$/i;
+
+// Files like `icon1.png` and `icon2.png` are as likely separate assets as frames, so runs without zero padding need
+// this many files to count as a sequence; padded runs (`walk_01.png`, `walk_02.png`) need two.
+const minUnpaddedSequenceFrames = 3;
+
+export function isSequencePattern(inputPath: string): boolean {
+  const name = path.basename(inputPath);
+  return sequenceTokenPattern.test(name) && path.extname(name).toLowerCase() === ".png";
+}
+
+// Output base name for a pattern: `walk_%04d.png` -> `walk`.
+export function sequenceBaseName(pattern: string): string {
+  const name = path.basename(pattern, path.extname(pattern));
+  const base = name.replace(sequenceTokenPattern, "").replace(/[-_. ]+$/, "");
+  return base || "frames";
+}
+
+type NumberedFrame = {
+  filePath: string;
+  digits: string;
+  value: number;
+};
+
+function sequencePatternFor(frames: NumberedFrame[], dir: string, prefix: string, ext: string): string | null {
+  const lengths = new Set(frames.map((frame) => frame.digits.length));
+  let token: string;
+  if (lengths.size === 1) {
+    const [length] = lengths;
+    token = length > 1 ? `%0${length}d` : "%d";
+  } else if (frames.every((frame) => !frame.digits.startsWith("0"))) {
+    token = "%d";
+  } else {
+    return null;
+  }
+
+  // ffmpeg's image2 demuxer stops at the first missing number, so only contiguous runs form a sequence.
+  const sorted = [...frames].sort((a, b) => a.value - b.value);
+  if (sorted.some((frame, index) => frame.value !== sorted[0].value + index)) {
+    return null;
+  }
+
+  return path.join(dir, `${prefix}${token}${ext}`);
+}
+
+// Maps every numbered PNG that belongs to a sequence (`walk_0001.png`, `walk_0002.png`, ...) to its pattern.
+function detectFrameSequences(files: string[]): Map<string, string> {
+  const groups = new Map<string, NumberedFrame[]>();
+
+  for (const filePath of files) {
+    const match = path.basename(filePath).match(numberedFramePattern);
+    if (!match || match[1].includes("%")) {
+      continue;
+    }
+    const key = [path.dirname(filePath), match[1], match[3].toLowerCase()].join("\0");
+    const group = groups.get(key) ?? [];
+    group.push({ filePath, digits: match[2], value: Number.parseInt(match[2], 10) });
+    groups.set(key, group);
+  }
+
+  const patternByFile = new Map<string, string>();
+  for (const [key, frames] of groups) {
+    const padded = frames.some((frame) => frame.digits.length > 1 && frame.digits.startsWith("0"));
+    if (frames.length < (padded ? 2 : minUnpaddedSequenceFrames)) {
+      continue;
+    }
+    const [dir, prefix] = key.split("\0");
+    const pattern = sequencePatternFor(frames, dir, prefix, path.extname(frames[0].filePath));
+    if (pattern) {
+      for (const frame of frames) {
+        patternByFile.set(frame.filePath, pattern);
+      }
+    }
+  }
+  return patternByFile;
+}
+
+// Collapses each numbered PNG sequence into one pattern entry, placed where its first frame appeared.
+// Lone numbered files and broken runs stay as individual files.
+export function groupFrameSequences(files: string[]): string[] {
+  const patternByFile = detectFrameSequences(files);
+  const emitted = new Set<string>();
+  const result: string[] = [];
+  for (const filePath of files) {
+    const entry = patternByFile.get(filePath) ?? filePath;
+    if (!emitted.has(entry)) {
+      emitted.add(entry);
+      result.push(entry);
+    }
+  }
+  return result;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+export async function listSequenceFrames(pattern: string): Promise<FrameSequence> {
+  const dir = path.dirname(pattern);
+  const name = path.basename(pattern);
+  const token = name.match(sequenceTokenPattern);
+  if (!token || token.index === undefined) {
+    throw new Error(`Not a frame sequence pattern: ${pattern}`);
+  }
+
+  const width = token[1] ? Number.parseInt(token[1], 10) : 0;
+  const matcher = new RegExp(
+    `^${escapeRegExp(name.slice(0, token.index))}(${width > 0 ? `\\d{${width}}` : "\\d+"})${escapeRegExp(
+      name.slice(token.index + token[0].length)
+    )}$`
+  );
+
+  const numbered = (await fs.readdir(dir))
+    .map((entry) => ({ entry, match: entry.match(matcher) }))
+    .filter((candidate): candidate is { entry: string; match: RegExpMatchArray } => candidate.match !== null)
+    .map(({ entry, match }) => ({ filePath: path.join(dir, entry), value: Number.parseInt(match[1], 10) }))
+    .sort((a, b) => a.value - b.value);
+
+  if (numbered.length === 0) {
+    throw new Error(`No frames found for sequence ${pattern}`);
+  }
+
+  const frames: string[] = [];
+  for (const frame of numbered) {
+    if (frame.value !== numbered[0].value + frames.length) {
+      break;
+    }
+    frames.push(frame.filePath);
+  }
+
+  return { pattern, startNumber: numbered[0].value, frames };
+}
+
+// Maps a single changed frame back to the sequence pattern it belongs to (used by watchers).
+export async function resolveSequenceMember(filePath: string): Promise<string> {
+  const dir = path.dirname(filePath);
+  let siblings: string[];
+  try {
+    siblings = (await fs.readdir(dir)).map((entry) => path.join(dir, entry));
+  } catch {
+    return filePath;
+  }
+  return detectFrameSequences(siblings).get(filePath) ?? filePath;
+}
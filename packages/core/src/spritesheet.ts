@@ -0,0 +1,250 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { createRgbaImage, encodePng, type RgbaImage } from "./png";
+
+export type SpritesheetFormat = "texturepacker-hash" | "texturepacker-array" | "aseprite" | "csv";
+
+export const spritesheetFormats: SpritesheetFormat[] = ["texturepacker-hash", "texturepacker-array", "aseprite", "csv"];
+
+export type SpritesheetLayoutOptions = {
+  // 0 lets the layout pick a near-square grid.
+  columns?: number;
+  rows?: number;
+  // Transparent gap between cells and around the sheet edge.
+  padding?: number;
+  // Edge pixels repeated outward around each frame to avoid bleeding when sampled with filtering.
+  extrude?: number;
+};
+
+export type SpritesheetLayout = {
+  columns: number;
+  rows: number;
+  width: number;
+  height: number;
+  frameWidth: number;
+  frameHeight: number;
+  padding: number;
+  extrude: number;
+};
+
+export type SpritesheetFrame = {
+  name: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  durationMs: number;
+};
+
+export type SpritesheetMetadata = {
+  // File name of the sheet image, relative to the metadata files.
+  image: string;
+  width: number;
+  height: number;
+  frames: SpritesheetFrame[];
+};
+
+export function isSpritesheetFormat(value: string): value is SpritesheetFormat {
+  return (spritesheetFormats as string[]).includes(value);
+}
+
+export function computeSpritesheetLayout(
+  frameCount: number,
+  frameSize: { width: number; height: number },
+  options: SpritesheetLayoutOptions = {}
+): SpritesheetLayout {
+  const count = Math.max(1, frameCount);
+  const fixedColumns = Math.max(0, Math.floor(options.columns ?? 0));
+  const fixedRows = Math.max(0, Math.floor(options.rows ?? 0));
+
+  let columns: number;
+  let rows: number;
+  if (fixedColumns > 0 && fixedRows > 0) {
+    columns = fixedColumns;
+    rows = fixedRows;
+  } else if (fixedColumns > 0) {
+    columns = fixedColumns;
+    rows = Math.ceil(count / columns);
+  } else if (fixedRows > 0) {
+    rows = fixedRows;
+    columns = Math.ceil(count / rows);
+  } else {
+    columns = Math.ceil(Math.sqrt(count));
+    rows = Math.ceil(count / columns);
+  }
+
+  const padding = Math.max(0, Math.floor(options.padding ?? 0));
+  const extrude = Math.max(0, Math.floor(options.extrude ?? 0));
+  const cellWidth = frameSize.width + extrude * 2;
+  const cellHeight = frameSize.height + extrude * 2;
+
+  return {
+    columns,
+    rows,
+    width: padding + columns * (cellWidth + padding),
+    height: padding + rows * (cellHeight + padding),
+    frameWidth: frameSize.width,
+    frameHeight: frameSize.height,
+    padding,
+    extrude
+  };
+}
+
+// Position of a frame's own pixels (excluding extrusion) inside the sheet.
+export function spritesheetFrameOrigin(layout: SpritesheetLayout, index: number): { x: number; y: number } {
+  const column = index % layout.columns;
+  const row = Math.floor(index / layout.columns);
+  return {
+    x: layout.padding + column * (layout.frameWidth + layout.extrude * 2 + layout.padding) + layout.extrude,
+    y: layout.padding + row * (layout.frameHeight + layout.extrude * 2 + layout.padding) + layout.extrude
+  };
+}
+
+export function blitSpritesheetFrame(sheet: RgbaImage, layout: SpritesheetLayout, index: number, frame: RgbaImage): void {
+  const origin = spritesheetFrameOrigin(layout, index);
+  const { extrude } = layout;
+
+  for (let y = -extrude; y < frame.height + extrude; y += 1) {
+    const sourceY = Math.max(0, Math.min(frame.height - 1, y));
+    for (let x = -extrude; x < frame.width + extrude; x += 1) {
+      const sourceX = Math.max(0, Math.min(frame.width - 1, x));
+      const sourceOffset = (sourceY * frame.width + sourceX) * 4;
+      sheet.data.set(frame.data.subarray(sourceOffset, sourceOffset + 4), ((origin.y + y) * sheet.width + origin.x + x) * 4);
+    }
+  }
+}
+
+export function composeSpritesheet(
+  frames: RgbaImage[],
+  options: SpritesheetLayoutOptions = {}
+): { image: RgbaImage; layout: SpritesheetLayout } {
+  if (frames.length === 0) {
+    throw new Error("Cannot build a spritesheet without frames");
+  }
+
+  const layout = computeSpritesheetLayout(frames.length, frames[0], options);
+  const image = createRgbaImage(layout.width, layout.height);
+  const capacity = layout.columns * layout.rows;
+  frames.slice(0, capacity).forEach((frame, index) => blitSpritesheetFrame(image, layout, index, frame));
+  return { image, layout };
+}
+
+export function describeSpritesheetFrames(
+  layout: SpritesheetLayout,
+  frameCount: number,
+  durationMs: number,
+  baseName: string
+): SpritesheetFrame[] {
+  const count = Math.min(frameCount, layout.columns * layout.rows);
+  return Array.from({ length: count }, (_, index) => ({
+    name: `${baseName}_${String(index).padStart(4, "0")}`,
+    ...spritesheetFrameOrigin(layout, index),
+    width: layout.frameWidth,
+    height: layout.frameHeight,
+    durationMs
+  }));
+}
+
+function texturePackerFrame(frame: SpritesheetFrame) {
+  return {
+    frame: { x: frame.x, y: frame.y, w: frame.width, h: frame.height },
+    rotated: false,
+    trimmed: false,
+    spriteSourceSize: { x: 0, y: 0, w: frame.width, h: frame.height },
+    sourceSize: { w: frame.width, h: frame.height },
+    duration: frame.durationMs
+  };
+}
+
+function texturePackerMeta(metadata: SpritesheetMetadata) {
+  return {
+    app: "pixel-art-engine",
+    version: "1.0",
+    image: metadata.image,
+    format: "RGBA8888",
+    size: { w: metadata.width, h: metadata.height },
+    scale: "1"
+  };
+}
+
+export function formatSpritesheetMetadata(format: SpritesheetFormat, metadata: SpritesheetMetadata): string {
+  switch (format) {
+    case "texturepacker-hash":
+      return JSON.stringify(
+        {
+          frames: Object.fromEntries(metadata.frames.map((frame) => [`${frame.name}.png`, texturePackerFrame(frame)])),
+          meta: texturePackerMeta(metadata)
+        },
+        null,
+        2
+      );
+    case "texturepacker-array":
+      return JSON.stringify(
+        {
+          frames: metadata.frames.map((frame) => ({ filename: `${frame.name}.png`, ...texturePackerFrame(frame) })),
+          meta: texturePackerMeta(metadata)
+        },
+        null,
+        2
+      );
+    case "aseprite":
+      return JSON.stringify(
+        {
+          frames: Object.fromEntries(metadata.frames.map((frame) => [`${frame.name}.aseprite`, texturePackerFrame(frame)])),
+          meta: {
+            app: "http://www.aseprite.org/",
+            version: "1.3",
+            image: metadata.image,
+            format: "RGBA8888",
+            size: { w: metadata.width, h: metadata.height },
+            scale: "1",
+            frameTags: [],
+            layers: [{ name: "Layer", opacity: 255, blendMode: "normal" }],
+            slices: []
+          }
+        },
+        null,
+        2
+      );
+    case "csv":
+      return [
+        "name,x,y,width,height,duration_ms",
+        ...metadata.frames.map((frame) =>
+          [frame.name, frame.x, frame.y, frame.width, frame.height, frame.durationMs].join(",")
+        )
+      ].join("\n") + "\n";
+  }
+}
+
+const metadataFileSuffix: Record<SpritesheetFormat, string> = {
+  "texturepacker-hash": ".json",
+  "texturepacker-array": ".array.json",
+  aseprite: ".aseprite.json",
+  csv: ".csv"
+};
+
+// Writes <base>_spritesheet.png plus one metadata file per requested format; returns every path written.
+export async function writeSpritesheetFiles(
+  image: RgbaImage,
+  layout: SpritesheetLayout,
+  options: { outputDir: string; base: string; frameCount: number; durationMs: number; formats: SpritesheetFormat[] }
+): Promise<string[]> {
+  const stem = path.join(options.outputDir, `${options.base}_spritesheet`);
+  const imagePath = `${stem}.png`;
+  await fs.writeFile(imagePath, encodePng(image));
+
+  const metadata: SpritesheetMetadata = {
+    image: path.basename(imagePath),
+    width: layout.width,
+    height: layout.height,
+    frames: describeSpritesheetFrames(layout, options.frameCount, options.durationMs, options.base)
+  };
+
+  const written = [imagePath];
+  for (const format of new Set(options.formats)) {
+    const metaPath = `${stem}${metadataFileSuffix[format]}`;
+    await fs.writeFile(metaPath, formatSpritesheetMetadata(format, metadata), "utf8");
+    written.push(metaPath);
+  }
+  return written;
+}
@@ -0,0 +1,59 @@
+import fs from "node:fs/promises";
+
+export type TrimBox = {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+};
+
+export type TrimMetadataOptions = {
+  inputPath: string;
+  primaryPath: string;
+  scale: number;
+  padding: number;
+  // Untrimmed size of the downscaled grid, before the output upscale.
+  gridSize: { width: number; height: number };
+  trimBox: TrimBox;
+  // Video codecs need even dimensions, so the encoded sprite loses its last odd row/column.
+  evenDimensions: boolean;
+};
+
+export function unionTrimBox(current: TrimBox | null, next: TrimBox): TrimBox {
+  if (!current) {
+    return next;
+  }
+
+  const x = Math.min(current.x, next.x);
+  const y = Math.min(current.y, next.y);
+  return {
+    x,
+    y,
+    width: Math.max(current.x + current.width, next.x + next.width) - x,
+    height: Math.max(current.y + current.height, next.y + next.height) - y
+  };
+}
+
+export async function writeTrimMetadata(metaPath: string, options: TrimMetadataOptions): Promise<void> {
+  const { scale, padding, gridSize, trimBox } = options;
+  const evenDown = (value: number) => (options.evenDimensions ? value - (value % 2) : value);
+
+  const metadata = {
+    source: options.inputPath,
+    output: options.primaryPath,
+    generatedAt: new Date().toISOString(),
+    scale,
+    padding,
+    sourceSize: {
+      w: gridSize.width * scale,
+      h: gridSize.height * scale
+    },
+    spriteSourceSize: {
+      x: (trimBox.x - padding) * scale,
+      y: (trimBox.y - padding) * scale,
+      w: evenDown((trimBox.width + padding * 2) * scale),
+      h: evenDown((trimBox.height + padding * 2) * scale)
+    }
+  };
+  await fs.writeFile(metaPath, JSON.stringify(metadata, null, 2), "utf8");
+}
@@ -1,62 +1,227 @@
-export type JobStatus = "idle" | "queued" | "processing" | "done" | "error" | "canceled";
+import type { PixelErrorCode } from "./errors";
+import type { CollisionPolicy, OutputPlan } from "./naming";
+import type { PaletteSource } from "./palette";
+import type { DitherMode } from "./quantize";
+import type { DownsampleMode, GridMode } from "./raster";
+import type { SpritesheetFormat } from "./spritesheet";
 
-export type AssetType = "image" | "svg" | "video";
+// "paused": held in the queue until resumed. "interrupted": queued or running when the desktop app quit or crashed;
+// waiting to be resumed or discarded.
+export type JobStatus = "idle" | "queued" | "processing" | "paused" | "done" | "error" | "canceled" | "interrupted";
+
+// "animation" is a multi-frame GIF/WebP and "sequence" a numbered PNG run addressed by a `%04d` pattern;
+// both take the video pipeline.
+export type AssetType = "image" | "svg" | "video" | "animation" | "sequence";
+
+export type ConversionEngine = "ffmpeg" | "native";
+
+// "frames" writes every output frame as its own PNG into a `<name>_frames` folder.
+export type OutputFormat = "png" | "svg" | "mp4" | "webm" | "mov" | "gif" | "apng" | "webp" | "frames";
+
+// Formats a video input can be encoded to. Everything except mp4 keeps per-frame transparency:
+// webm as VP9 with an alpha plane, mov as QuickTime Animation, gif/apng/webp as animated images.
+export const videoOutputFormats: ReadonlySet<OutputFormat> = new Set<OutputFormat>([
+  "mp4",
+  "webm",
+  "mov",
+  "gif",
+  "apng",
+  "webp",
+  "frames"
+]);
+
+// Encoders for mp4/webm output; "auto" is H.264 in mp4 and VP9 in webm. AV1 needs an ffmpeg built with libaom.
+export type VideoCodec = "auto" | "h264" | "vp9" | "av1";
+
+export type VideoRateControl = "crf" | "bitrate" | "lossless";
+
+// "copy" passes the source audio through untouched, so it must already suit the container;
+// "encode" re-encodes to AAC (mp4/mov) or Opus (webm).
+export type AudioMode = "none" | "copy" | "encode";
+
+// How video palettes are built: "single-pass" quantizes inside the encode graph, "two-pass" writes one global
+// palette first and then applies it, "per-scene" builds one palette per detected scene.
+export type VideoPaletteMode = "single-pass" | "two-pass" | "per-scene";
+
+// Unit of rangeStart/rangeEnd; "frames" counts output frames at the configured fps.
+export type RangeUnit = "seconds" | "frames";
+
+export const videoCodecsByFormat: Partial<Record<OutputFormat, VideoCodec[]>> = {
+  mp4: ["auto", "h264", "vp9", "av1"],
+  webm: ["auto", "vp9", "av1"]
+};
+
+export type ResolvedVideoCodec = Exclude<VideoCodec, "auto">;
+
+// Highest CRF each encoder accepts; the lowest is always 0.
+export const maxVideoCrf: Record<ResolvedVideoCodec, number> = { h264: 51, vp9: 63, av1: 63 };
+
+// The encoder "auto" stands for in a format.
+export function resolveAutoVideoCodec(format: OutputFormat, codec: VideoCodec): ResolvedVideoCodec {
+  if (codec !== "auto") {
+    return codec;
+  }
+  return format === "webm" ? "vp9" : "h264";
+}
+
+// Formats without a codec choice (gif, mov, frames, ...) ignore the setting.
+export function isVideoCodecSupported(format: OutputFormat, codec: VideoCodec): boolean {
+  const codecs = videoCodecsByFormat[format];
+  return !codecs || codecs.includes(codec);
+}
+
+export function outputExtension(format: OutputFormat): string {
+  // APNG is a regular .png that browsers and image viewers animate.
+  return format === "apng" || format === "frames" ? "png" : format;
+}
 
 export type PixelConfig = {
-  grid: number;
+  // "auto" detects the cell size and offset of already-upscaled pixel art (see detectPixelGrid).
+  grid: number | "auto";
+  gridMode?: GridMode;
+  gridOffsetX?: number;
+  gridOffsetY?: number;
+  downsample?: DownsampleMode;
   palette: number;
-  dither: "none" | "bayer" | "floyd";
+  paletteSource?: PaletteSource;
+  exportPalette?: boolean;
+  quantizer?: "median-cut" | "kmeans";
+  dither: DitherMode;
+  videoPaletteMode?: VideoPaletteMode;
+  // Scene-change score (0-1) that starts a new palette in "per-scene" mode.
+  sceneThreshold?: number;
+  // Only re-dither the part of each frame that changed, so static areas keep their dither pattern.
+  stableDither?: boolean;
   trim: boolean;
+  trimPadding?: number;
   alphaThreshold: number;
   outline: boolean;
+  outlineColor?: string;
+  outlinePlacement?: "outer" | "inner";
+  outlineConnectivity?: 4 | 8;
   scale: number;
   fps?: number;
-  outputFormat?: "png" | "svg" | "mp4" | "webm";
+  // Part of a video/animation/sequence input to convert. Spritesheet frame numbers count from rangeStart.
+  rangeUnit?: RangeUnit;
+  rangeStart?: number;
+  // Exclusive; 0 = to the end of the input.
+  rangeEnd?: number;
+  outputFormat?: OutputFormat;
+  // Number of times gif/apng/webp outputs play; 0 loops forever.
+  loopCount?: number;
+  videoCodec?: VideoCodec;
+  videoRateControl?: VideoRateControl;
+  // Unset = the codec's default CRF; 0 is the best quality the codec offers.
+  videoCrf?: number;
+  videoBitrateKbps?: number;
+  audio?: AudioMode;
+  audioBitrateKbps?: number;
   alphaMask?: boolean;
   spritesheet?: boolean;
+  // 0 = auto (near-square grid).
+  spritesheetColumns?: number;
+  spritesheetRows?: number;
+  spritesheetPadding?: number;
+  spritesheetExtrude?: number;
+  spritesheetFrameStart?: number;
+  // 0 = every frame from spritesheetFrameStart to the end.
+  spritesheetFrameCount?: number;
+  spritesheetFormats?: SpritesheetFormat[];
+  // File name relative to the output folder, with {name}, {ext}, {grid}, {palette}, {date} and {relDir} tokens.
+  outputTemplate?: string;
+  // Recreate the input's folder structure (relative to the folder it was found in) under the output folder.
+  mirrorInputTree?: boolean;
+  outputCollision?: CollisionPolicy;
 };
 
 export type JobOutput = {
   primaryPath: string;
   extras?: string[];
   previewUrl?: string;
+  // The output already existed and the "skip" collision policy left it untouched.
+  skipped?: boolean;
 };
 
 export type Job = {
   id: string;
   inputPath: string;
+  // Folder the input was found under when a directory was added; drives {relDir} and mirrored output folders.
+  inputRoot?: string;
   type: AssetType;
   enabled: boolean;
   order: number;
   configMode: "global" | "local";
   localConfig?: PixelConfig;
+  // Named preset used instead of the global config when the job has no local config.
+  presetName?: string;
+  // Queue priority; higher runs before jobs queued earlier (default 0).
+  priority?: number;
   status: JobStatus;
   progress: number;
   output?: JobOutput;
   errorMessage?: string;
+  // Set with status "error": what kind of failure it was, what to do about it, and the tool output behind it.
+  errorCode?: PixelErrorCode;
+  errorHint?: string;
+  errorLog?: string;
 };
 
 export type ConvertRequest = {
   inputPath: string;
+  inputRoot?: string;
   type: AssetType;
   config: PixelConfig;
   outputDir: string;
   signal?: AbortSignal;
   onProgress?: (progress: number) => void;
+  // Called once the output names are settled, before anything is written (e.g. to journal them for crash cleanup).
+  onOutputPlanned?: (plan: OutputPlan) => void;
 };
 
 export type ConvertResult = JobOutput;
 
 export const defaultPixelConfig: PixelConfig = {
   grid: 32,
+  gridMode: "cell",
+  gridOffsetX: 0,
+  gridOffsetY: 0,
+  downsample: "nearest",
   palette: 64,
+  exportPalette: false,
+  quantizer: "median-cut",
   dither: "bayer",
+  videoPaletteMode: "single-pass",
+  sceneThreshold: 0.3,
+  stableDither: false,
   trim: false,
+  trimPadding: 0,
   alphaThreshold: 8,
   outline: false,
+  outlineColor: "#000000",
+  outlinePlacement: "outer",
+  outlineConnectivity: 8,
   scale: 2,
   fps: 24,
+  rangeUnit: "seconds",
+  rangeStart: 0,
+  rangeEnd: 0,
   outputFormat: "png",
+  loopCount: 0,
+  videoCodec: "auto",
+  videoRateControl: "crf",
+  videoBitrateKbps: 4000,
+  audio: "none",
+  audioBitrateKbps: 160,
   alphaMask: false,
-  spritesheet: false
+  spritesheet: false,
+  spritesheetColumns: 0,
+  spritesheetRows: 0,
+  spritesheetPadding: 0,
+  spritesheetExtrude: 0,
+  spritesheetFrameStart: 0,
+  spritesheetFrameCount: 0,
+  spritesheetFormats: ["texturepacker-hash"],
+  outputTemplate: "{name}_pixel.{ext}",
+  mirrorInputTree: false,
+  outputCollision: "overwrite"
 };
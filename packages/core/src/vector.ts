@@ -0,0 +1,94 @@
+import { formatHexColor } from "./color";
+import type { RgbaImage } from "./png";
+
+type PixelRect = {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+};
+
+function pixelKey(data: Uint8Array, offset: number): number {
+  return ((data[offset] << 24) | (data[offset + 1] << 16) | (data[offset + 2] << 8) | data[offset + 3]) >>> 0;
+}
+
+// Greedy rectangle cover: take the longest same-color run from each unclaimed pixel, then grow it
+// downward while the rows below repeat that run exactly.
+function collectColorRects(image: RgbaImage): Map<number, PixelRect[]> {
+  const { width, height, data } = image;
+  const claimed = new Uint8Array(width * height);
+  const rectsByColor = new Map<number, PixelRect[]>();
+
+  const matches = (x: number, y: number, key: number) => {
+    const index = y * width + x;
+    return claimed[index] === 0 && pixelKey(data, index * 4) === key;
+  };
+
+  for (let y = 0; y < height; y += 1) {
+    for (let x = 0; x < width; x += 1) {
+      const index = y * width + x;
+      if (claimed[index] !== 0 || data[index * 4 + 3] === 0) {
+        continue;
+      }
+
+      const key = pixelKey(data, index * 4);
+      let runWidth = 1;
+      while (x + runWidth < width && matches(x + runWidth, y, key)) {
+        runWidth += 1;
+      }
+
+      let runHeight = 1;
+      growDown: while (y + runHeight < height) {
+        for (let dx = 0; dx < runWidth; dx += 1) {
+          if (!matches(x + dx, y + runHeight, key)) {
+            break growDown;
+          }
+        }
+        runHeight += 1;
+      }
+
+      for (let dy = 0; dy < runHeight; dy += 1) {
+        claimed.fill(1, (y + dy) * width + x, (y + dy) * width + x + runWidth);
+      }
+
+      const rects = rectsByColor.get(key) ?? [];
+      rects.push({ x, y, width: runWidth, height: runHeight });
+      rectsByColor.set(key, rects);
+      x += runWidth - 1;
+    }
+  }
+
+  return rectsByColor;
+}
+
+function formatOpacity(alpha: number): string {
+  return String(Math.round((alpha / 255) * 1000) / 1000);
+}
+
+// Emits one <path> per color (a <rect> when the color is a single rectangle) in grid units;
+// `scale` only sets the rendered size, so the viewBox stays at the grid resolution.
+export function vectorizeImage(image: RgbaImage, scale = 1): string {
+  const elements: string[] = [];
+
+  for (const [key, rects] of collectColorRects(image)) {
+    const alpha = key & 0xff;
+    const fill = formatHexColor({ r: key >>> 24, g: (key >>> 16) & 0xff, b: (key >>> 8) & 0xff });
+    const paint = alpha < 255 ? `fill="${fill}" fill-opacity="${formatOpacity(alpha)}"` : `fill="${fill}"`;
+
+    if (rects.length === 1) {
+      const [rect] = rects;
+      elements.push(`<rect x="${rect.x}" y="${rect.y}" width="${rect.width}" height="${rect.height}" ${paint}/>`);
+      continue;
+    }
+
+    const d = rects.map((rect) => `M${rect.x} ${rect.y}h${rect.width}v${rect.height}h-${rect.width}z`).join("");
+    elements.push(`<path ${paint} d="${d}"/>`);
+  }
+
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${image.width * scale}" height="${image.height * scale}" viewBox="0 0 ${image.width} ${image.height}" shape-rendering="crispEdges">`,
+    ...elements,
+    `</svg>`
+  ].join("");
+}
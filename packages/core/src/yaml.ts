@@ -0,0 +1,268 @@
+// The YAML subset config files need: block mappings and sequences, flow `[a, b]` / `{ a: 1 }` collections,
+// quoted and plain scalars, and comments. Anchors, tags, multi-document streams and block scalars are
+// rejected rather than misread.
+
+type YamlLine = {
+  number: number;
+  indent: number;
+  text: string;
+};
+
+function yamlError(line: YamlLine | undefined, message: string): Error {
+  return new Error(line ? `YAML line ${line.number}: ${message}` : `YAML: ${message}`);
+}
+
+// Drops a trailing `# comment` that sits outside quotes.
+function stripComment(text: string): string {
+  let quote: string | null = null;
+  for (let index = 0; index < text.length; index += 1) {
+    const char = text[index];
+    if (quote) {
+      if (char === "\\" && quote === '"') {
+        index += 1;
+      } else if (char === quote) {
+        quote = null;
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === "#" && (index === 0 || /\s/.test(text[index - 1]))) {
+      return text.slice(0, index);
+    }
+  }
+  return text;
+}
+
+function tokenize(source: string): YamlLine[] {
+  const lines: YamlLine[] = [];
+  source.split(/\r?\n/).forEach((raw, index) => {
+    const line = { number: index + 1, indent: 0, text: "" };
+    const leading = raw.match(/^[ \t]*/)?.[0] ?? "";
+    if (leading.includes("\t") && raw.trim() !== "") {
+      throw yamlError(line, "tabs are not allowed for indentation");
+    }
+    const text = stripComment(raw).trimEnd().slice(leading.length);
+    if (text === "" || (lines.length === 0 && text === "---")) {
+      return;
+    }
+    if (text === "---" || text === "...") {
+      throw yamlError(line, "only a single document is supported");
+    }
+    lines.push({ ...line, indent: leading.length, text });
+  });
+  return lines;
+}
+
+// Reads a flow collection (`[a, { b: 1 }]`) starting at `text[start]`; returns the value and the index after it.
+function parseFlow(text: string, start: number, line: YamlLine): [unknown, number] {
+  const close = text[start] === "[" ? "]" : "}";
+  const result: unknown = close === "]" ? [] : {};
+  let index = start + 1;
+
+  const skipSpace = () => {
+    while (index < text.length && /\s/.test(text[index])) {
+      index += 1;
+    }
+  };
+
+  // A nested collection, a quoted string, or a plain scalar up to the next delimiter.
+  const readValue = (stopAtColon: boolean): unknown => {
+    skipSpace();
+    const char = text[index];
+    if (char === "[" || char === "{") {
+      const [value, next] = parseFlow(text, index, line);
+      index = next;
+      return value;
+    }
+    const begin = index;
+    if (char === '"' || char === "'") {
+      const match = text.slice(index).match(char === '"' ? /^"(?:[^"\\]|\\.)*"/ : /^'(?:[^']|'')*'/);
+      if (!match) {
+        throw yamlError(line, `unterminated string ${text.slice(index)}`);
+      }
+      index += match[0].length;
+    } else {
+      while (index < text.length && !",[]{}".includes(text[index]) && !(stopAtColon && text[index] === ":")) {
+        index += 1;
+      }
+    }
+    return parseScalar(text.slice(begin, index), line);
+  };
+
+  for (;;) {
+    skipSpace();
+    if (index >= text.length) {
+      throw yamlError(line, `unterminated flow collection ${text.slice(start)}`);
+    }
+    if (text[index] === close) {
+      return [result, index + 1];
+    }
+
+    if (Array.isArray(result)) {
+      result.push(readValue(false));
+    } else {
+      const key = readValue(true);
+      skipSpace();
+      if (text[index] !== ":" || (typeof key !== "string" && typeof key !== "number")) {
+        throw yamlError(line, `expected "key: value" in ${text.slice(start)}`);
+      }
+      index += 1;
+      (result as Record<string, unknown>)[String(key)] = readValue(false);
+    }
+
+    skipSpace();
+    if (text[index] === ",") {
+      index += 1;
+    } else if (text[index] !== close) {
+      throw yamlError(line, `expected "," or "${close}" in ${text.slice(start)}`);
+    }
+  }
+}
+
+const keyPattern = /^("(?:[^"\\]|\\.)*"|'(?:[^']|'')*'|[^\s"'#\-?:,[\]{}][^:]*?|-[^\s:][^:]*?)\s*:(?:\s+(.*))?$/;
+
+function parseKey(raw: string, line: YamlLine): string {
+  const key = parseScalar(raw, line);
+  if (typeof key !== "string" && typeof key !== "number") {
+    throw yamlError(line, `invalid mapping key ${raw}`);
+  }
+  return String(key);
+}
+
+function parseScalar(raw: string, line: YamlLine): unknown {
+  const text = raw.trim();
+  if (text.startsWith('"')) {
+    if (!/^"(?:[^"\\]|\\.)*"$/.test(text)) {
+      throw yamlError(line, `unterminated string ${text}`);
+    }
+    return JSON.parse(text);
+  }
+  if (text.startsWith("'")) {
+    if (!/^'(?:[^']|'')*'$/.test(text)) {
+      throw yamlError(line, `unterminated string ${text}`);
+    }
+    return text.slice(1, -1).replace(/''/g, "'");
+  }
+  if (text.startsWith("[") || text.startsWith("{")) {
+    const [value, end] = parseFlow(text, 0, line);
+    if (end !== text.length) {
+      throw yamlError(line, `unexpected content after ${text.slice(0, end)}`);
+    }
+    return value;
+  }
+  if (/^[&*!|>%@`]/.test(text)) {
+    throw yamlError(line, `unsupported YAML syntax ${text} (quote the value if it is a string)`);
+  }
+  if (text === "" || text === "~" || /^null$/i.test(text)) {
+    return null;
+  }
+  if (/^(true|false)$/i.test(text)) {
+    return text.toLowerCase() === "true";
+  }
+  if (/^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/.test(text)) {
+    return Number(text);
+  }
+  return text;
+}
+
+function isSequenceItem(text: string): boolean {
+  return text === "-" || text.startsWith("- ");
+}
+
+class YamlParser {
+  private index = 0;
+
+  constructor(private readonly lines: YamlLine[]) {}
+
+  parseDocument(): unknown {
+    if (this.lines.length === 0) {
+      return null;
+    }
+    const first = this.lines[0];
+    let value: unknown;
+    if (isSequenceItem(first.text) || keyPattern.test(first.text)) {
+      value = this.parseBlock(first.indent);
+    } else {
+      value = parseScalar(first.text, first);
+      this.index = 1;
+    }
+    const extra = this.lines[this.index];
+    if (extra) {
+      throw yamlError(extra, "unexpected content");
+    }
+    return value;
+  }
+
+  private parseBlock(indent: number): unknown {
+    return isSequenceItem(this.lines[this.index].text) ? this.parseSequence(indent) : this.parseMapping(indent);
+  }
+
+  // A value that starts on the lines after `key:` or `-`: a nested block, or null when nothing is indented under it.
+  private parseNested(parentIndent: number, allowSameIndentSequence: boolean): unknown {
+    const next = this.lines[this.index];
+    if (!next) {
+      return null;
+    }
+    // `key:` may be followed by a sequence at its own indentation.
+    const sameIndentSequence = allowSameIndentSequence && next.indent === parentIndent && isSequenceItem(next.text);
+    return next.indent > parentIndent || sameIndentSequence ? this.parseBlock(next.indent) : null;
+  }
+
+  private parseMapping(indent: number): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+    while (this.index < this.lines.length) {
+      const line = this.lines[this.index];
+      if (line.indent < indent) {
+        break;
+      }
+      if (line.indent > indent) {
+        throw yamlError(line, "unexpected indentation");
+      }
+      if (isSequenceItem(line.text)) {
+        break;
+      }
+      const match = line.text.match(keyPattern);
+      if (!match) {
+        throw yamlError(line, `expected "key: value", got ${line.text}`);
+      }
+      const key = parseKey(match[1], line);
+      if (Object.prototype.hasOwnProperty.call(result, key)) {
+        throw yamlError(line, `duplicate key ${key}`);
+      }
+      this.index += 1;
+      result[key] = match[2] === undefined ? this.parseNested(indent, true) : parseScalar(match[2], line);
+    }
+    return result;
+  }
+
+  private parseSequence(indent: number): unknown[] {
+    const result: unknown[] = [];
+    while (this.index < this.lines.length) {
+      const line = this.lines[this.index];
+      if (line.indent < indent || (line.indent === indent && !isSequenceItem(line.text))) {
+        break;
+      }
+      if (line.indent > indent) {
+        throw yamlError(line, "unexpected indentation");
+      }
+
+      const rest = line.text.slice(1).trimStart();
+      if (rest === "") {
+        this.index += 1;
+        result.push(this.parseNested(indent, false));
+      } else if (isSequenceItem(rest) || keyPattern.test(rest)) {
+        // `- key: value` opens a mapping (or `- - x` a sequence) whose entries line up with `key`.
+        const itemIndent = indent + (line.text.length - rest.length);
+        this.lines[this.index] = { ...line, indent: itemIndent, text: rest };
+        result.push(this.parseBlock(itemIndent));
+      } else {
+        this.index += 1;
+        result.push(parseScalar(rest, line));
+      }
+    }
+    return result;
+  }
+}
+
+export function parseYaml(source: string): unknown {
+  return new YamlParser(tokenize(source)).parseDocument();
+}
@@ -7,14 +7,62 @@ import { pathToFileURL } from "node:url";
 import { promisify } from "node:util";
 import { execFile } from "node:child_process";
 import { Resvg } from "@resvg/resvg-js";
-import type { ConvertRequest, ConvertResult, PixelConfig } from "@pixel/core";
+import {
+  addRgbaToHistogram,
+  composeSpritesheet,
+  computeGridLayout,
+  createRgbaImage,
+  decodePng,
+  downsampleImage,
+  gridCellSize,
+  histogramColors,
+  isVideoCodecSupported,
+  listSequenceFrames,
+  maxVideoCrf,
+  medianCutPalette,
+  outputExtension,
+  parseHexColor,
+  PixelError,
+  planOutput,
+  resolveAutoGrid,
+  resolveAutoVideoCodec,
+  releaseOutputPlan,
+  resolveOutputCollision,
+  resolvePaletteSource,
+  sequenceBaseName,
+  toPixelError,
+  unionTrimBox,
+  vectorizeImage,
+  videoOutputFormats,
+  writePaletteFiles,
+  writeSpritesheetFiles,
+  writeTrimMetadata
+} from "@pixel/core";
+import type {
+  AssetType,
+  ColorHistogram,
+  ConvertRequest,
+  ConvertResult,
+  FrameSequence,
+  GridOptions,
+  OutputFormat,
+  OutputPlan,
+  PixelConfig,
+  ResolvedVideoCodec,
+  RgbaImage,
+  RgbColor,
+  TrimBox
+} from "@pixel/core";
 
 const execFileAsync = promisify(execFile);
 
 export type FfmpegOptions = {
   ffmpegBin?: string;
   signal?: AbortSignal;
+  // Kills ffmpeg when it writes nothing to stdout or stderr for this long (a hung decode); off when unset or 0.
+  stallTimeoutMs?: number;
   onStderrLine?: (line: string) => void;
+  onStdoutData?: (chunk: Buffer) => void;
 };
 
 export type FfprobeOptions = {
@@ -24,35 +72,49 @@ export type FfprobeOptions = {
 export type ConvertWithFfmpegOptions = ConvertRequest & {
   ffmpegBin?: string;
   ffprobeBin?: string;
+  stallTimeoutMs?: number;
 };
 
-type FilterSpec =
-  | {
-      args: ["-vf", string];
-    }
-  | {
-      args: ["-filter_complex", string, "-map", "[vout]"];
-    };
+type FilterSpec = {
+  args: string[];
+  captureArgs: string[];
+  // Maps the alpha-mask stream; the caller appends codec args and the mask path.
+  alphaMaskArgs: string[];
+  // Index of the input that carries the source audio.
+  audioInput: number;
+};
 
 function abortError(): Error {
-  const error = new Error("Conversion canceled");
-  error.name = "AbortError";
-  return error;
+  return new PixelError("canceled", "Conversion canceled");
+}
+
+function stallError(stallTimeoutMs: number, log: string): Error {
+  return new PixelError("timeout", `ffmpeg made no progress for ${Math.round(stallTimeoutMs / 1000)}s and was stopped`, {
+    log
+  });
 }
 
 function clamp(value: number, min: number, max: number): number {
   return Math.max(min, Math.min(max, value));
 }
 
-function formatOutputByType(type: ConvertRequest["type"], config: PixelConfig): "png" | "svg" | "mp4" | "webm" {
-  if (type === "video") {
-    if (config.outputFormat === "webm") {
-      return "webm";
+function formatOutputByType(type: ConvertRequest["type"], config: PixelConfig, inputPath: string): OutputFormat {
+  if (type === "video" || type === "animation" || type === "sequence") {
+    if (config.outputFormat && videoOutputFormats.has(config.outputFormat)) {
+      return config.outputFormat;
+    }
+    // Animated GIF/WebP inputs default to their own container and PNG sequences stay PNG frames,
+    // rather than becoming an H.264 video.
+    if (type === "animation") {
+      return path.extname(inputPath).toLowerCase() === ".webp" ? "webp" : "gif";
+    }
+    if (type === "sequence") {
+      return "frames";
     }
     return "mp4";
   }
 
-  if (type === "svg" && config.outputFormat === "svg") {
+  if (config.outputFormat === "svg") {
     return "svg";
   }
 
@@ -69,59 +131,295 @@ function ditherMode(dither: PixelConfig["dither"]): string {
   return "none";
 }
 
-function createBaseFilter(config: PixelConfig, isVideo: boolean): string {
-  const grid = clamp(Math.floor(config.grid || 32), 1, 512);
-  const scale = clamp(Math.floor(config.scale || 1), 1, 16);
-  const alphaThreshold = clamp(Math.floor(config.alphaThreshold || 0), 0, 255);
+function trimPadding(config: PixelConfig): number {
+  return clamp(Math.floor(config.trimPadding || 0), 0, 256);
+}
+
+function outlineCoordinates(connectivity: PixelConfig["outlineConnectivity"]): number {
+  // dilation/erosion neighbour mask: bits 2,8,16,64 are the orthogonal neighbours.
+  return connectivity === 4 ? 90 : 255;
+}
+
+function createOutlineChains(config: PixelConfig, input: string, output: string): string[] {
+  const color = parseHexColor(config.outlineColor ?? "") ?? { r: 0, g: 0, b: 0 };
+  const coordinates = outlineCoordinates(config.outlineConnectivity);
+  const tint = `lutrgb=r=${color.r}:g=${color.g}:b=${color.b}`;
+
+  if (config.outlinePlacement === "inner") {
+    return [
+      `[${input}]split=3[olBase][olColor][olAlpha]`,
+      `[olAlpha]alphaextract,split=2[olSolid][olErodeIn]`,
+      `[olErodeIn]erosion=coordinates=${coordinates}[olEroded]`,
+      `[olSolid][olEroded]blend=all_mode=subtract[olMask]`,
+      `[olColor]${tint}[olTint]`,
+      `[olTint][olMask]alphamerge[olRing]`,
+      `[olBase][olRing]overlay=format=rgb,format=rgba[${output}]`
+    ];
+  }
 
-  const parts: string[] = [
-    `scale=max(1\\,trunc(iw/${grid})):max(1\\,trunc(ih/${grid})):flags=neighbor`
+  // Outer outlines grow the sprite by one cell, so pad first to keep edge-touching sprites outlined.
+  return [
+    `[${input}]pad=iw+2:ih+2:1:1:color=black@0,split=3[olBase][olColor][olAlpha]`,
+    `[olAlpha]alphaextract,dilation=coordinates=${coordinates}[olMask]`,
+    `[olColor]${tint}[olTint]`,
+    `[olTint][olMask]alphamerge[olRing]`,
+    `[olRing][olBase]overlay=format=rgb,format=rgba[${output}]`
   ];
+}
 
-  if (scale > 1) {
-    parts.push(`scale=iw*${scale}:ih*${scale}:flags=neighbor`);
+// Mirrors computeGridLayout: crop past the grid offset (and, in cell mode, to whole cells), then one pixel per cell.
+function gridDownscaleFilters(config: PixelConfig): string[] {
+  const grid = gridCellSize(config);
+  const offsetX = Math.max(0, Math.floor(config.gridOffsetX || 0));
+  const offsetY = Math.max(0, Math.floor(config.gridOffsetY || 0));
+  // With whole cells, neighbor scaling samples each cell's center pixel.
+  const flags = config.downsample === "area" ? "area" : "neighbor";
+
+  if (config.gridMode === "width" || config.gridMode === "height") {
+    const offsetCrop = offsetX > 0 || offsetY > 0 ? [`crop=iw-${offsetX}:ih-${offsetY}:${offsetX}:${offsetY}`] : [];
+    const size =
+      config.gridMode === "width"
+        ? `min(iw\\,${grid}):max(1\\,round(ih*min(iw\\,${grid})/iw))`
+        : `max(1\\,round(iw*min(ih\\,${grid})/ih)):min(ih\\,${grid})`;
+    return [...offsetCrop, `scale=${size}:flags=${flags}`];
+  }
+
+  const cellCrop = (axis: "iw" | "ih", offset: number) =>
+    `min(${axis}-${offset}\\,max(1\\,trunc((${axis}-${offset})/${grid}))*${grid})`;
+  return [
+    `crop=${cellCrop("iw", offsetX)}:${cellCrop("ih", offsetY)}:${offsetX}:${offsetY}`,
+    `scale=max(1\\,trunc(iw/${grid})):max(1\\,trunc(ih/${grid})):flags=${flags}`
+  ];
+}
+
+function gridOptions(config: PixelConfig): GridOptions {
+  return {
+    grid: gridCellSize(config),
+    mode: config.gridMode,
+    offsetX: config.gridOffsetX,
+    offsetY: config.gridOffsetY
+  };
+}
+
+function createGridChains(config: PixelConfig, input: string, output: string): string[] {
+  const alphaThreshold = clamp(Math.floor(config.alphaThreshold || 0), 0, 255);
+  const downscale = gridDownscaleFilters(config);
+
+  if (alphaThreshold > 0 || config.outline || config.trim) {
+    downscale.push("format=rgba");
   }
 
   if (alphaThreshold > 0) {
-    parts.push("format=rgba");
-    parts.push(`lut=a='if(lt(val\\,${alphaThreshold})\\,0\\,255)'`);
+    downscale.push(`lut=a='if(lt(val\\,${alphaThreshold})\\,0\\,255)'`);
   }
 
-  // ffmpeg trim by transparency needs probe+2pass. Keep deterministic even-dimension crop for codecs.
-  if (config.trim || isVideo) {
-    parts.push("crop=iw-mod(iw\\,2):ih-mod(ih\\,2)");
+  if (!config.outline) {
+    return [`[${input}]${downscale.join(",")}[${output}]`];
   }
 
-  if (isVideo) {
-    const fps = clamp(Math.floor(config.fps || 24), 1, 120);
-    parts.push(`fps=${fps}`);
-    parts.push("pad=ceil(iw/2)*2:ceil(ih/2)*2");
+  // The outline is drawn on the downscaled grid so it stays exactly one art pixel wide.
+  return [`[${input}]${downscale.join(",")}[pixGrid]`, ...createOutlineChains(config, "pixGrid", output)];
+}
+
+// How the graph output is consumed: stills keep every frame as-is, animations resample to the configured fps,
+// and yuv420p video codecs additionally need even dimensions.
+type GraphTarget = "still" | "animation" | "video";
+
+function graphTargetForFormat(outputFormat: OutputFormat): GraphTarget {
+  if (outputFormat === "mp4" || outputFormat === "webm") {
+    return "video";
   }
+  return videoOutputFormats.has(outputFormat) ? "animation" : "still";
+}
+
+function createBaseGraph(
+  config: PixelConfig,
+  target: GraphTarget,
+  input: string,
+  output: string,
+  trimBox: TrimBox | null = null
+): string[] {
+  const scale = clamp(Math.floor(config.scale || 1), 1, 16);
+  const upscale: string[] = [];
+
+  if (trimBox) {
+    const padding = trimPadding(config);
+    upscale.push(`crop=${trimBox.width}:${trimBox.height}:${trimBox.x}:${trimBox.y}`);
+    if (padding > 0) {
+      upscale.push(`pad=iw+${padding * 2}:ih+${padding * 2}:${padding}:${padding}:color=black@0`);
+    }
+  }
+
+  if (scale > 1) {
+    upscale.push(`scale=iw*${scale}:ih*${scale}:flags=neighbor`);
+  }
+
+  if (target === "video") {
+    upscale.push("crop=iw-mod(iw\\,2):ih-mod(ih\\,2)");
+  }
+  if (target !== "still") {
+    upscale.push(`fps=${clamp(Math.floor(config.fps || 24), 1, 120)}`);
+  }
+  if (target === "video") {
+    upscale.push("pad=ceil(iw/2)*2:ceil(ih/2)*2");
+  }
+
+  return [
+    ...createGridChains(config, input, "pixGridOut"),
+    `[pixGridOut]${upscale.length > 0 ? upscale.join(",") : "null"}[${output}]`
+  ];
+}
 
-  return parts.join(",");
+// Frame size produced by createBaseGraph, mirroring its downscale, outline, trim and upscale steps.
+function graphOutputSize(
+  config: PixelConfig,
+  inputSize: { width: number; height: number },
+  trimBox: TrimBox | null,
+  target: GraphTarget
+): { width: number; height: number } {
+  const scale = clamp(Math.floor(config.scale || 1), 1, 16);
+  const gridSize = graphGridSize(config, inputSize);
+  const padding = trimPadding(config);
+  const width = (trimBox ? trimBox.width + padding * 2 : gridSize.width) * scale;
+  const height = (trimBox ? trimBox.height + padding * 2 : gridSize.height) * scale;
+
+  if (target === "video") {
+    return { width: width - (width % 2), height: height - (height % 2) };
+  }
+  return { width, height };
 }
 
-function buildFilterSpec(config: PixelConfig, isVideo: boolean): FilterSpec {
-  const baseFilter = createBaseFilter(config, isVideo);
-  const palette = clamp(Math.floor(config.palette || 256), 2, 256);
+type FilterSpecOptions = {
+  trimBox?: TrimBox | null;
+  paletteInput?: PaletteInput | null;
+  captureColors?: boolean;
+  // Always run palettegen/paletteuse, even for a 256-color budget, so the output is indexed (GIF).
+  forcePalette?: boolean;
+  // Extra output carrying the alpha channel of the pixelated frames as grayscale, taken before any lossy encode.
+  alphaMask?: boolean;
+  // Separate audio input, added after the palette input (see MediaInput.audioSourceArgs).
+  audioSourceArgs?: string[];
+};
 
-  if (palette >= 256) {
-    return {
-      args: ["-vf", baseFilter]
-    };
+function buildFilterSpec(config: PixelConfig, target: GraphTarget, options: FilterSpecOptions = {}): FilterSpec {
+  const {
+    trimBox = null,
+    paletteInput = null,
+    captureColors = false,
+    forcePalette = false,
+    alphaMask = false,
+    audioSourceArgs = []
+  } = options;
+  const palette = clamp(Math.floor(config.palette || 256), 2, 256);
+  const scale = clamp(Math.floor(config.scale || 1), 1, 16);
+  const outputLabel = captureColors || alphaMask ? "vquant" : "vout";
+  const inputArgs: string[] = [];
+  let chains: string[];
+
+  if (paletteInput) {
+    inputArgs.push(...paletteInput.args);
+    chains = [
+      ...createBaseGraph(config, target, "0:v", "pix", trimBox),
+      `[pix][1:v]${paletteUseFilter(config, paletteInput.dynamic)}[${outputLabel}]`
+    ];
+  } else if (palette >= 256 && !forcePalette) {
+    chains = createBaseGraph(config, target, "0:v", outputLabel, trimBox);
+  } else {
+    chains = [
+      ...createBaseGraph(config, target, "0:v", "base", trimBox),
+      `[base]split=2[pix][pal]`,
+      `[pal]${paletteGenFilter(config)}[palette]`,
+      `[pix][palette]${paletteUseFilter(config, false)}[${outputLabel}]`
+    ];
   }
 
-  const complexFilter = [
-    `[0:v]${baseFilter},split=2[pix][pal]`,
-    `[pal]palettegen=max_colors=${palette}:reserve_transparent=1[palette]`,
-    `[pix][palette]paletteuse=dither=${ditherMode(config.dither)}[vout]`
-  ].join(";");
+  const branches = ["[vout]"];
+  const branchChains: string[] = [];
+  const captureArgs: string[] = [];
+  const alphaMaskArgs: string[] = [];
+  if (captureColors) {
+    // Extra output: the quantized frames back at grid resolution, streamed as raw RGBA for palette export.
+    const downscale = scale > 1 ? `scale=iw/${scale}:ih/${scale}:flags=neighbor,` : "";
+    branches.push("[vcap]");
+    branchChains.push(`[vcap]${downscale}format=rgba[vcolors]`);
+    captureArgs.push("-map", "[vcolors]", "-f", "rawvideo", "-pix_fmt", "rgba", "pipe:1");
+  }
+  if (alphaMask) {
+    branches.push("[vmask]");
+    branchChains.push(`[vmask]format=rgba,alphaextract[valpha]`);
+    alphaMaskArgs.push("-map", "[valpha]");
+  }
+  if (branches.length > 1) {
+    chains.push(`[vquant]split=${branches.length}${branches.join("")}`, ...branchChains);
+  }
 
   return {
-    args: ["-filter_complex", complexFilter, "-map", "[vout]"]
+    args: [...inputArgs, ...audioSourceArgs, "-filter_complex", chains.join(";"), "-map", "[vout]"],
+    captureArgs,
+    alphaMaskArgs,
+    audioInput: audioSourceArgs.length > 0 ? (paletteInput ? 2 : 1) : 0
   };
 }
 
+// Writes a 16x16 raw RGBA palette for paletteuse. The final entry is transparent, like palettegen's reserve_transparent.
+async function writeFixedPaletteInput(colors: RgbColor[], filePath: string): Promise<void> {
+  const data = Buffer.alloc(256 * 4);
+  const last = colors[colors.length - 1];
+  for (let index = 0; index < 255; index += 1) {
+    const color = colors[index] ?? last;
+    data[index * 4] = color.r;
+    data[index * 4 + 1] = color.g;
+    data[index * 4 + 2] = color.b;
+    data[index * 4 + 3] = 255;
+  }
+  await fs.writeFile(filePath, data);
+}
+
+async function prepareFixedPalette(config: PixelConfig, tempArtifacts: string[]): Promise<string | null> {
+  if (!config.paletteSource) {
+    return null;
+  }
+
+  const colors = await resolvePaletteSource(config.paletteSource);
+  const palettePath = path.join(os.tmpdir(), `pixel-palette-${randomUUID()}.rgba`);
+  tempArtifacts.push(palettePath);
+  await writeFixedPaletteInput(colors, palettePath);
+  return palettePath;
+}
+
+type PaletteInput = {
+  // ffmpeg input arguments for the palette stream; it becomes input 1, after the media input.
+  args: string[];
+  // The stream switches palettes over time (one per scene), so paletteuse has to pick up each new one.
+  dynamic: boolean;
+};
+
+function rawPaletteInput(palettePath: string): PaletteInput {
+  return { args: ["-f", "rawvideo", "-pixel_format", "rgba", "-video_size", "16x16", "-i", palettePath], dynamic: false };
+}
+
+function paletteGenFilter(config: PixelConfig): string {
+  const palette = clamp(Math.floor(config.palette || 256), 2, 256);
+  return `palettegen=max_colors=${palette}:reserve_transparent=1`;
+}
+
+function paletteUseFilter(config: PixelConfig, dynamic: boolean): string {
+  const options = [`dither=${ditherMode(config.dither)}`];
+  if (config.stableDither) {
+    // Only the rectangle that changed since the previous frame is re-dithered; the rest keeps its pixels.
+    options.push("diff_mode=rectangle");
+  }
+  if (dynamic) {
+    options.push("new=1");
+  }
+  return `paletteuse=${options.join(":")}`;
+}
+
+const maxStderrLogLines = 5000;
+
+// How long ffmpeg gets to exit after SIGTERM before it is killed outright.
+const killGraceMs = 1500;
+
 function splitLines(buffer: string): { lines: string[]; rest: string } {
   const chunks = buffer.split(/\r?\n/);
   const rest = chunks.pop() ?? "";
@@ -145,8 +443,13 @@ export function runFfmpeg(args: string[], options: FfmpegOptions = {}): Promise<
     });
 
     let settled = false;
+    let stalled = false;
+    let stallTimer: NodeJS.Timeout | undefined;
+    let killTimer: NodeJS.Timeout | undefined;
     let stderrBuffer = "";
     const stderrTail: string[] = [];
+    // Attached to errors in full, minus the `key=value` lines of -progress, bounded for very long runs.
+    const stderrLog: string[] = [];
 
     const rememberStderr = (line: string) => {
       if (!line.trim()) {
@@ -156,6 +459,12 @@ export function runFfmpeg(args: string[], options: FfmpegOptions = {}): Promise<
       if (stderrTail.length > 10) {
         stderrTail.shift();
       }
+      if (!/^\w+=\S*$/.test(line.trim())) {
+        stderrLog.push(line);
+        if (stderrLog.length > maxStderrLogLines) {
+          stderrLog.shift();
+        }
+      }
     };
 
     const complete = (err?: Error) => {
@@ -163,6 +472,8 @@ export function runFfmpeg(args: string[], options: FfmpegOptions = {}): Promise<
         return;
       }
       settled = true;
+      clearTimeout(stallTimer);
+      clearTimeout(killTimer);
       if (options.signal) {
         options.signal.removeEventListener("abort", onAbort);
       }
@@ -173,21 +484,40 @@ export function runFfmpeg(args: string[], options: FfmpegOptions = {}): Promise<
       }
     };
 
+    // `child.killed` only says a signal was sent; a child still without an exit code or signal ignored SIGTERM.
     const onAbort = () => {
+      if (killTimer) {
+        return;
+      }
       child.kill("SIGTERM");
-      setTimeout(() => {
-        if (!child.killed) {
+      killTimer = setTimeout(() => {
+        if (child.exitCode === null && child.signalCode === null) {
           child.kill("SIGKILL");
         }
-      }, 1500);
+      }, killGraceMs);
     };
 
     if (options.signal) {
       options.signal.addEventListener("abort", onAbort);
     }
 
+    // Any output counts as progress: stats lines end in \r, so they arrive as data long before they make a line.
+    const stallTimeoutMs = options.stallTimeoutMs ?? 0;
+    const armStallTimer = () => {
+      if (stallTimeoutMs <= 0 || settled || stalled) {
+        return;
+      }
+      clearTimeout(stallTimer);
+      stallTimer = setTimeout(() => {
+        stalled = true;
+        onAbort();
+      }, stallTimeoutMs);
+    };
+    armStallTimer();
+
     child.stderr.setEncoding("utf8");
     child.stderr.on("data", (chunk) => {
+      armStallTimer();
       stderrBuffer += String(chunk);
       const { lines, rest } = splitLines(stderrBuffer);
       stderrBuffer = rest;
@@ -197,11 +527,23 @@ export function runFfmpeg(args: string[], options: FfmpegOptions = {}): Promise<
       }
     });
 
+    const onStdoutData = options.onStdoutData;
+    if (onStdoutData) {
+      child.stdout.on("data", (chunk: Buffer) => {
+        armStallTimer();
+        onStdoutData(chunk);
+      });
+    } else {
+      child.stdout.on("data", armStallTimer);
+    }
+
+    // A missing binary surfaces here as spawn ENOENT.
     child.on("error", (error) => {
-      complete(error instanceof Error ? error : new Error(String(error)));
+      complete(toPixelError(error));
     });
 
-    child.on("exit", (code, signal) => {
+    // "close" rather than "exit": stdout consumers must see every chunk before we resolve.
+    child.on("close", (code, signal) => {
       if (stderrBuffer.trim().length > 0) {
         rememberStderr(stderrBuffer.trim());
         options.onStderrLine?.(stderrBuffer.trim());
@@ -212,6 +554,11 @@ export function runFfmpeg(args: string[], options: FfmpegOptions = {}): Promise<
         return;
       }
 
+      if (stalled) {
+        complete(stallError(stallTimeoutMs, stderrLog.join("\n")));
+        return;
+      }
+
       if (code === 0) {
         complete();
         return;
@@ -219,11 +566,17 @@ export function runFfmpeg(args: string[], options: FfmpegOptions = {}): Promise<
 
       const reason = signal ? `signal ${signal}` : `code ${code}`;
       const details = stderrTail.length > 0 ? ` | ${stderrTail.join(" | ")}` : "";
-      complete(new Error(`ffmpeg exited with ${reason}${details}`));
+      complete(toPixelError(new Error(`ffmpeg exited with ${reason}${details}`), stderrLog.join("\n")));
     });
   });
 }
 
+// The build's version line, e.g. `ffmpeg version 6.1.1 Copyright ...`; outputs can change between ffmpeg releases.
+export async function probeFfmpegVersion(options: Pick<FfmpegOptions, "ffmpegBin"> = {}): Promise<string> {
+  const { stdout } = await execFileAsync(options.ffmpegBin ?? "ffmpeg", ["-version"]);
+  return stdout.split(/\r?\n/, 1)[0].trim();
+}
+
 export async function probeDurationSeconds(inputPath: string, options: FfprobeOptions = {}): Promise<number> {
   const ffprobeBin = options.ffprobeBin ?? "ffprobe";
 
@@ -277,12 +630,273 @@ function parseOutTimeMs(line: string): number | null {
   return Number.isFinite(value) ? value : null;
 }
 
-function videoCodecArgs(outputFormat: "mp4" | "webm"): string[] {
-  if (outputFormat === "webm") {
-    return ["-an", "-c:v", "libvpx-vp9", "-crf", "33", "-b:v", "0", "-pix_fmt", "yuv420p"];
+function parseBboxLine(line: string): TrimBox | null {
+  const match = line.match(/x1:(\d+) x2:(\d+) y1:(\d+) y2:(\d+)/);
+  if (!match) {
+    return null;
+  }
+
+  const [x1, x2, y1, y2] = match.slice(1).map((value) => Number.parseInt(value, 10));
+  return { x: x1, y: y1, width: x2 - x1 + 1, height: y2 - y1 + 1 };
+}
+
+type ProbeAlphaBoundsOptions = {
+  ffmpegBin?: string;
+  signal?: AbortSignal;
+  stallTimeoutMs?: number;
+  durationSeconds?: number;
+  onProgress?: (progress: number) => void;
+};
+
+// First pass of trim: bounding box of visible grid cells, unioned across every frame so animations don't jitter.
+async function probeAlphaBounds(
+  inputArgs: string[],
+  config: PixelConfig,
+  options: ProbeAlphaBoundsOptions = {}
+): Promise<TrimBox | null> {
+  const durationSeconds = options.durationSeconds ?? 0;
+  const graph = [...createGridChains(config, "0:v", "grid"), "[grid]alphaextract,bbox=min_val=0[vout]"].join(";");
+  let bounds: TrimBox | null = null;
+
+  await runFfmpeg([...inputArgs, "-filter_complex", graph, "-map", "[vout]", "-progress", "pipe:2", "-f", "null", "-"], {
+    ffmpegBin: options.ffmpegBin,
+    signal: options.signal,
+    stallTimeoutMs: options.stallTimeoutMs,
+    onStderrLine: (line) => {
+      const box = parseBboxLine(line);
+      if (box) {
+        bounds = unionTrimBox(bounds, box);
+        return;
+      }
+
+      const outTimeMs = parseOutTimeMs(line);
+      if (outTimeMs !== null && durationSeconds > 0) {
+        options.onProgress?.(clamp(outTimeMs / (durationSeconds * 1_000_000), 0, 1));
+      }
+    }
+  });
+
+  return bounds;
+}
+
+type TrimSidecarOptions = {
+  inputPath: string;
+  primaryPath: string;
+  config: PixelConfig;
+  trimBox: TrimBox;
+  inputSize: { width: number; height: number };
+  evenDimensions: boolean;
+};
+
+// Downscaled grid size before trimming, including the ring an outer outline adds.
+function graphGridSize(config: PixelConfig, inputSize: { width: number; height: number }): { width: number; height: number } {
+  const layout = computeGridLayout(inputSize.width, inputSize.height, gridOptions(config));
+  const outlineGrowth = config.outline && config.outlinePlacement !== "inner" ? 2 : 0;
+  return {
+    width: layout.width + outlineGrowth,
+    height: layout.height + outlineGrowth
+  };
+}
+
+async function writeTrimSidecar(metaPath: string, options: TrimSidecarOptions): Promise<void> {
+  const { config, inputSize } = options;
+
+  await writeTrimMetadata(metaPath, {
+    inputPath: options.inputPath,
+    primaryPath: options.primaryPath,
+    scale: clamp(Math.floor(config.scale || 1), 1, 16),
+    padding: trimPadding(config),
+    gridSize: graphGridSize(config, inputSize),
+    trimBox: options.trimBox,
+    evenDimensions: options.evenDimensions
+  });
+}
+
+type RgbaCollector = {
+  histogram: ColorHistogram;
+  push: (chunk: Buffer) => void;
+};
+
+// Accumulates raw RGBA stdout into a histogram, carrying pixels split across chunk boundaries.
+function createRgbaCollector(histogram: ColorHistogram = new Map()): RgbaCollector {
+  let carry = Buffer.alloc(0);
+  return {
+    histogram,
+    push(chunk) {
+      const data = carry.length > 0 ? Buffer.concat([carry, chunk]) : chunk;
+      const usable = data.length - (data.length % 4);
+      addRgbaToHistogram(histogram, data.subarray(0, usable));
+      carry = Buffer.from(data.subarray(usable));
+    }
+  };
+}
+
+type FrameCollector = {
+  frames: RgbaImage[];
+  push: (chunk: Buffer) => void;
+};
+
+// Splits a raw RGBA stream into frames; `wanted` decides which frame indices are copied out at all.
+function createFrameReader(
+  size: { width: number; height: number },
+  onFrame: (frame: RgbaImage) => void,
+  wanted: (index: number) => boolean = () => true
+): { push: (chunk: Buffer) => void } {
+  const frameBytes = size.width * size.height * 4;
+  let current = createRgbaImage(size.width, size.height);
+  let filled = 0;
+  let index = 0;
+
+  return {
+    push(chunk) {
+      let offset = 0;
+      while (offset < chunk.length) {
+        const take = Math.min(frameBytes - filled, chunk.length - offset);
+        if (wanted(index)) {
+          current.data.set(chunk.subarray(offset, offset + take), filled);
+        }
+        filled += take;
+        offset += take;
+
+        if (filled === frameBytes) {
+          if (wanted(index)) {
+            onFrame(current);
+            current = createRgbaImage(size.width, size.height);
+          }
+          filled = 0;
+          index += 1;
+        }
+      }
+    }
+  };
+}
+
+// Splits raw RGBA stdout into frames, keeping only those inside [start, start + count).
+function createFrameCollector(size: { width: number; height: number }, start: number, count: number): FrameCollector {
+  const frames: RgbaImage[] = [];
+  const reader = createFrameReader(
+    size,
+    (frame) => frames.push(frame),
+    (index) => index >= start && (count === 0 || index < start + count)
+  );
+  return { frames, push: reader.push };
+}
+
+// GIF counts extra repeats (-1 = play once), APNG and WebP count total plays; 0 means forever everywhere.
+function loopArgs(outputFormat: OutputFormat, loopCount: number): string[] {
+  if (outputFormat === "gif") {
+    return ["-loop", String(loopCount === 0 ? 0 : loopCount === 1 ? -1 : loopCount - 1)];
+  }
+  if (outputFormat === "apng") {
+    return ["-plays", String(loopCount)];
+  }
+  return ["-loop", String(loopCount)];
+}
+
+const defaultCrf: Record<ResolvedVideoCodec, number> = { h264: 20, vp9: 33, av1: 32 };
+
+function resolveVideoCodec(outputFormat: OutputFormat, config: PixelConfig): ResolvedVideoCodec {
+  const codec = config.videoCodec ?? "auto";
+  if (!isVideoCodecSupported(outputFormat, codec)) {
+    throw new Error(`${codec} video cannot be written to ${outputFormat}`);
+  }
+  return resolveAutoVideoCodec(outputFormat, codec);
+}
+
+function rateControlArgs(codec: ResolvedVideoCodec, config: PixelConfig): string[] {
+  const mode = config.videoRateControl ?? "crf";
+  if (mode === "bitrate") {
+    const kbps = Math.max(1, Math.floor(config.videoBitrateKbps || 4000));
+    return ["-b:v", `${kbps}k`];
+  }
+  if (mode === "lossless") {
+    // libaom has no lossless switch in older builds; CRF 0 with an unconstrained bitrate is its lossless mode.
+    return codec === "vp9" ? ["-lossless", "1"] : codec === "av1" ? ["-crf", "0", "-b:v", "0"] : ["-qp", "0"];
+  }
+  const crf = config.videoCrf === undefined ? defaultCrf[codec] : Math.floor(config.videoCrf);
+  if (crf < 0 || crf > maxVideoCrf[codec]) {
+    throw new Error(`CRF ${crf} is out of range for ${codec} video (0-${maxVideoCrf[codec]})`);
+  }
+  // VP9 and AV1 only honor CRF as a constant-quality target when the bitrate cap is 0.
+  return codec === "h264" ? ["-crf", String(crf)] : ["-crf", String(crf), "-b:v", "0"];
+}
+
+// mp4/webm encoder settings for the configured codec and rate control.
+function encoderArgs(outputFormat: OutputFormat, config: PixelConfig): string[] {
+  const codec = resolveVideoCodec(outputFormat, config);
+  const rate = rateControlArgs(codec, config);
+
+  switch (codec) {
+    case "vp9":
+      // In webm, VP9 carries the alpha plane alongside the color planes (yuva420p), so transparency survives.
+      return ["-c:v", "libvpx-vp9", ...rate, "-pix_fmt", outputFormat === "webm" ? "yuva420p" : "yuv420p"];
+    case "av1":
+      return ["-c:v", "libaom-av1", "-strict", "experimental", "-cpu-used", "6", ...rate, "-pix_fmt", "yuv420p"];
+    default:
+      // Lossless H.264 goes through libx264rgb so pixel colors aren't rounded by a YUV conversion.
+      return config.videoRateControl === "lossless"
+        ? ["-c:v", "libx264rgb", "-preset", "veryfast", ...rate, "-pix_fmt", "rgb24"]
+        : ["-c:v", "libx264", "-preset", "veryfast", ...rate, "-pix_fmt", "yuv420p"];
   }
+}
 
-  return ["-an", "-c:v", "libx264", "-preset", "veryfast", "-crf", "20", "-pix_fmt", "yuv420p"];
+function videoCodecArgs(outputFormat: OutputFormat, config: PixelConfig): string[] {
+  const loopCount = Math.max(0, Math.floor(config.loopCount || 0));
+
+  switch (outputFormat) {
+    case "mov":
+      // QuickTime Animation: lossless RLE with a full alpha channel, readable by most editors.
+      return ["-c:v", "qtrle", "-pix_fmt", "argb", "-f", "mov"];
+    case "gif":
+      return ["-c:v", "gif", "-f", "gif", ...loopArgs(outputFormat, loopCount)];
+    case "apng":
+      return ["-c:v", "apng", "-pix_fmt", "rgba", "-f", "apng", ...loopArgs(outputFormat, loopCount)];
+    case "frames":
+      return ["-c:v", "png", "-pix_fmt", "rgba", "-f", "image2", "-start_number", "1"];
+    case "webp":
+      return ["-c:v", "libwebp_anim", "-lossless", "1", "-pix_fmt", "bgra", "-f", "webp", ...loopArgs(outputFormat, loopCount)];
+    default:
+      return encoderArgs(outputFormat, config);
+  }
+}
+
+const audioEncoderArgs: Partial<Record<OutputFormat, string[]>> = {
+  mp4: ["-c:a", "aac"],
+  mov: ["-c:a", "aac"],
+  webm: ["-c:a", "libopus"]
+};
+
+function audioArgs(outputFormat: OutputFormat, config: PixelConfig, audioInput = 0): string[] {
+  const mode = config.audio ?? "none";
+  const encoder = audioEncoderArgs[outputFormat];
+  if (mode === "none" || !encoder) {
+    return ["-an"];
+  }
+  // The optional `a?` map keeps silent clips, animations and sequences converting without error.
+  const map = ["-map", `${audioInput}:a?`];
+  if (mode === "copy") {
+    return [...map, "-c:a", "copy"];
+  }
+  const kbps = Math.max(8, Math.floor(config.audioBitrateKbps || 160));
+  return [...map, ...encoder, "-b:a", `${kbps}k`];
+}
+
+// Pixel formats for the grayscale alpha-mask companion output; formats not listed keep their primary settings.
+const alphaMaskPixelFormats: Partial<Record<OutputFormat, string>> = {
+  webm: "yuv420p",
+  mov: "gray",
+  apng: "gray",
+  frames: "gray"
+};
+
+function alphaMaskCodecArgs(outputFormat: OutputFormat, config: PixelConfig): string[] {
+  const args = videoCodecArgs(outputFormat, config);
+  const pixelFormat = alphaMaskPixelFormats[outputFormat];
+  const index = args.indexOf("-pix_fmt");
+  if (pixelFormat && index >= 0) {
+    args[index + 1] = pixelFormat;
+  }
+  return args;
 }
 
 function createPreviewUrl(filePath: string): string {
@@ -291,15 +905,6 @@ function createPreviewUrl(filePath: string): string {
   return url.toString();
 }
 
-function buildEmbeddedRasterSvg(width: number, height: number, pngBase64: string): string {
-  return [
-    `<?xml version="1.0" encoding="UTF-8"?>`,
-    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" shape-rendering="crispEdges">`,
-    `<image width="${width}" height="${height}" href="data:image/png;base64,${pngBase64}" style="image-rendering:pixelated" />`,
-    `</svg>`
-  ].join("");
-}
-
 async function rasterizeSvgInputToPng(inputSvgPath: string, outputPngPath: string): Promise<void> {
   const svgData = await fs.readFile(inputSvgPath);
   const resvg = new Resvg(svgData, {
@@ -311,147 +916,890 @@ async function rasterizeSvgInputToPng(inputSvgPath: string, outputPngPath: strin
   await fs.writeFile(outputPngPath, rendered.asPng());
 }
 
-export async function convertAssetWithFfmpeg(request: ConvertWithFfmpegOptions): Promise<ConvertResult> {
-  const { inputPath, outputDir, signal, onProgress, ffmpegBin, ffprobeBin } = request;
+type MediaInput = {
+  // ffmpeg input arguments, ending with `-i <path or pattern>`.
+  args: string[];
+  // A single file ffprobe can read for the frame size.
+  probePath: string;
+  durationSeconds: number;
+  // Output frames a bounded range yields at the configured fps (the fps filter can emit one extra at the cut); 0 = no cap.
+  frameLimit: number;
+  // Frame size when `args` no longer point at the source (frames already reduced to the grid).
+  size?: { width: number; height: number };
+  // Input arguments for the source's audio when `args` carry video only.
+  audioSourceArgs?: string[];
+};
 
-  await fs.mkdir(outputDir, { recursive: true });
+function mediaInputSize(input: MediaInput, options: FfprobeOptions = {}): Promise<{ width: number; height: number }> {
+  return input.size ? Promise.resolve(input.size) : probeImageDimensions(input.probePath, options);
+}
 
-  const base = path.basename(inputPath, path.extname(inputPath));
-  const outputFormat = formatOutputByType(request.type, request.config);
-  const primaryPath = path.join(outputDir, `${base}_pixel.${outputFormat}`);
-  const extras: string[] = [];
+function sequenceInputArgs(sequence: FrameSequence, fps: number): string[] {
+  return ["-framerate", String(fps), "-start_number", String(sequence.startNumber), "-i", sequence.pattern];
+}
 
-  if (request.type === "video") {
-    const durationSeconds = await probeDurationSeconds(inputPath, { ffprobeBin }).catch(() => 0);
-    const filterSpec = buildFilterSpec(request.config, true);
+type ClipRange = {
+  startSeconds: number;
+  // null = to the end of the input.
+  endSeconds: number | null;
+};
 
-    await runFfmpeg(
-      [
-        "-y",
-        "-i",
-        inputPath,
-        ...filterSpec.args,
-        ...videoCodecArgs(outputFormat === "webm" ? "webm" : "mp4"),
-        "-progress",
-        "pipe:2",
-        "-nostats",
-        primaryPath
-      ],
+function resolveClipRange(config: PixelConfig): ClipRange | null {
+  const start = Math.max(0, config.rangeStart || 0);
+  const end = Math.max(0, config.rangeEnd || 0);
+  if (start === 0 && end === 0) {
+    return null;
+  }
+  if (end > 0 && end <= start) {
+    throw new Error(`Range end (${end}) must be after its start (${start})`);
+  }
+
+  const secondsPerUnit = config.rangeUnit === "frames" ? 1 / clamp(Math.floor(config.fps || 24), 1, 120) : 1;
+  return {
+    startSeconds: start * secondsPerUnit,
+    endSeconds: end > 0 ? end * secondsPerUnit : null
+  };
+}
+
+function formatSeconds(seconds: number): string {
+  return String(Number(seconds.toFixed(6)));
+}
+
+// Input-side `-ss`/`-t` seek straight to the range and, because the stream is decoded, cut frame-accurately.
+// Every pass that reuses the input args (trim probe, encode, spritesheet, shared palette) sees the same range.
+function applyClipRange(input: MediaInput, range: ClipRange | null, fps: number): MediaInput {
+  if (!range) {
+    return input;
+  }
+
+  const available = input.durationSeconds > 0 ? input.durationSeconds : Number.POSITIVE_INFINITY;
+  if (range.startSeconds >= available) {
+    throw new Error(
+      `Range starts at ${formatSeconds(range.startSeconds)}s but the input is only ${formatSeconds(available)}s long`
+    );
+  }
+
+  const endSeconds = Math.min(range.endSeconds ?? available, available);
+  const bounded = Number.isFinite(endSeconds);
+  return {
+    ...input,
+    args: [
+      "-ss",
+      formatSeconds(range.startSeconds),
+      ...(bounded ? ["-t", formatSeconds(endSeconds - range.startSeconds)] : []),
+      ...input.args
+    ],
+    durationSeconds: bounded ? endSeconds - range.startSeconds : 0,
+    frameLimit: bounded ? Math.max(1, Math.round((endSeconds - range.startSeconds) * fps)) : 0
+  };
+}
+
+async function resolveMediaInput(
+  inputPath: string,
+  type: AssetType,
+  config: PixelConfig,
+  options: FfprobeOptions = {}
+): Promise<MediaInput> {
+  const range = resolveClipRange(config);
+  const fps = clamp(Math.floor(config.fps || 24), 1, 120);
+
+  if (type === "sequence") {
+    const sequence = await listSequenceFrames(inputPath);
+    return applyClipRange(
       {
-        ffmpegBin,
-        signal,
-        onStderrLine: (line) => {
-          const outTimeMs = parseOutTimeMs(line);
-          if (outTimeMs === null || durationSeconds <= 0) {
-            return;
-          }
+        args: sequenceInputArgs(sequence, fps),
+        probePath: sequence.frames[0],
+        durationSeconds: sequence.frames.length / fps,
+        frameLimit: 0
+      },
+      range,
+      fps
+    );
+  }
 
-          const progress = Math.max(0, Math.min(0.99, outTimeMs / (durationSeconds * 1_000_000)));
-          onProgress?.(progress);
+  return applyClipRange(
+    {
+      args: ["-i", inputPath],
+      probePath: inputPath,
+      durationSeconds:
+        type === "video" || type === "animation" ? await probeDurationSeconds(inputPath, options).catch(() => 0) : 0,
+      frameLimit: 0
+    },
+    range,
+    fps
+  );
+}
+
+// `grid: "auto"` is detected on one frame; for animated inputs the thumbnail filter picks a representative one,
+// so a fade-in or a blank first frame doesn't decide the grid.
+async function resolveInputGrid(
+  input: MediaInput,
+  config: PixelConfig,
+  options: FfprobeOptions & { ffmpegBin?: string; signal?: AbortSignal; stallTimeoutMs?: number }
+): Promise<PixelConfig> {
+  if (config.grid !== "auto") {
+    return config;
+  }
+
+  const size = await mediaInputSize(input, { ffprobeBin: options.ffprobeBin });
+  let sample: RgbaImage | null = null;
+  const reader = createFrameReader(size, (frame) => {
+    sample ??= frame;
+  });
+  await runFfmpeg(
+    ["-y", ...input.args, "-map", "0:v:0", "-vf", "thumbnail", "-frames:v", "1", "-f", "rawvideo", "-pix_fmt", "rgba", "pipe:1"],
+    { ffmpegBin: options.ffmpegBin, signal: options.signal, stallTimeoutMs: options.stallTimeoutMs, onStdoutData: reader.push }
+  );
+
+  if (!sample) {
+    throw new Error("No frame decoded for grid detection");
+  }
+  return resolveAutoGrid(config, sample);
+}
+
+// ffmpeg has no scaler for "mode" or "edge" downsampling, so those frames are cropped to the grid and reduced in JS
+// first; every later pass then reads the grid-sized frames with a pass-through grid (see passThroughGrid).
+function usesJsDownsample(config: PixelConfig): boolean {
+  return config.downsample === "mode" || config.downsample === "edge";
+}
+
+const passThroughGrid: Partial<PixelConfig> = { grid: 1, gridMode: "cell", gridOffsetX: 0, gridOffsetY: 0, downsample: "nearest" };
+
+type JsDownsampleOptions = {
+  animated: boolean;
+  tempArtifacts: string[];
+  ffmpegBin?: string;
+  ffprobeBin?: string;
+  signal?: AbortSignal;
+  stallTimeoutMs?: number;
+  onProgress?: (progress: number) => void;
+};
+
+async function downsampleInputInJs(input: MediaInput, config: PixelConfig, options: JsDownsampleOptions): Promise<MediaInput> {
+  const sourceSize = await mediaInputSize(input, { ffprobeBin: options.ffprobeBin });
+  const layout = computeGridLayout(sourceSize.width, sourceSize.height, gridOptions(config));
+  const { crop } = layout;
+  const fps = clamp(Math.floor(config.fps || 24), 1, 120);
+  const mode = config.downsample ?? "nearest";
+  const gridFrames: Buffer[] = [];
+  // ffmpeg applies the crop, so each frame arriving here is exactly the covered region.
+  const reader = createFrameReader(crop, (frame) => {
+    gridFrames.push(Buffer.from(downsampleImage(frame, layout.width, layout.height, mode).data));
+  });
+  const filters = [`crop=${crop.width}:${crop.height}:${crop.x}:${crop.y}`, ...(options.animated ? [`fps=${fps}`] : []), "format=rgba"];
+
+  await runFfmpeg(
+    [
+      "-y",
+      ...input.args,
+      "-filter_complex",
+      `[0:v]${filters.join(",")}[vout]`,
+      "-map",
+      "[vout]",
+      "-f",
+      "rawvideo",
+      "-pix_fmt",
+      "rgba",
+      "-progress",
+      "pipe:2",
+      "-nostats",
+      "pipe:1"
+    ],
+    {
+      ffmpegBin: options.ffmpegBin,
+      signal: options.signal,
+      stallTimeoutMs: options.stallTimeoutMs,
+      onStdoutData: reader.push,
+      onStderrLine: (line) => {
+        const outTimeMs = parseOutTimeMs(line);
+        if (outTimeMs !== null && input.durationSeconds > 0) {
+          options.onProgress?.(clamp(outTimeMs / (input.durationSeconds * 1_000_000), 0, 1));
         }
       }
-    );
+    }
+  );
 
-    onProgress?.(1);
+  if (gridFrames.length === 0) {
+    throw new Error("No frames decoded for downsampling");
+  }
 
-    if (request.config.spritesheet) {
-      const fps = clamp(Math.floor(request.config.fps || 24), 1, 120);
-      const spritesheetPath = path.join(outputDir, `${base}_spritesheet.png`);
-      const metaPath = path.join(outputDir, `${base}_spritesheet.json`);
+  // The range cap is applied here rather than with `-frames:v`, which would end the encode before the audio input
+  // (a separate file) is read.
+  const frames = input.frameLimit > 0 ? gridFrames.slice(0, input.frameLimit) : gridFrames;
+  const gridPath = path.join(os.tmpdir(), `pixel-grid-${randomUUID()}.rgba`);
+  options.tempArtifacts.push(gridPath);
+  await fs.writeFile(gridPath, Buffer.concat(frames));
 
-      await runFfmpeg(
-        ["-y", "-i", primaryPath, "-vf", "fps=1,tile=8x8", "-frames:v", "1", spritesheetPath],
-        { ffmpegBin, signal }
-      );
+  return {
+    args: [
+      "-f",
+      "rawvideo",
+      "-pixel_format",
+      "rgba",
+      "-video_size",
+      `${layout.width}x${layout.height}`,
+      ...(options.animated ? ["-framerate", String(fps)] : []),
+      "-i",
+      gridPath
+    ],
+    probePath: input.probePath,
+    durationSeconds: input.durationSeconds,
+    frameLimit: 0,
+    size: { width: layout.width, height: layout.height },
+    audioSourceArgs: options.animated ? input.args : undefined
+  };
+}
+
+type VideoPaletteOptions = {
+  inputArgs: string[];
+  config: PixelConfig;
+  target: GraphTarget;
+  trimBox: TrimBox | null;
+  durationSeconds: number;
+  tempArtifacts: string[];
+  ffmpegBin?: string;
+  signal?: AbortSignal;
+  stallTimeoutMs?: number;
+};
+
+// Upper bound on palettes in per-scene mode; only the strongest cuts are kept beyond it.
+const maxScenePalettes = 64;
 
-      const metadata = {
-        source: primaryPath,
-        generatedAt: new Date().toISOString(),
-        tile: "8x8",
-        fps
-      };
-      await fs.writeFile(metaPath, JSON.stringify(metadata, null, 2), "utf8");
-      extras.push(spritesheetPath, metaPath);
+function palettePassOptions(options: VideoPaletteOptions, onProgress?: (progress: number) => void) {
+  return {
+    ffmpegBin: options.ffmpegBin,
+    signal: options.signal,
+    stallTimeoutMs: options.stallTimeoutMs,
+    onStderrLine: (line: string) => {
+      const outTimeMs = parseOutTimeMs(line);
+      if (outTimeMs !== null && options.durationSeconds > 0) {
+        onProgress?.(clamp(outTimeMs / (options.durationSeconds * 1_000_000), 0, 1));
+      }
     }
+  };
+}
 
-    if (request.config.alphaMask) {
-      const alphaMaskPath = path.join(outputDir, `${base}_alpha.${outputFormat}`);
-      await runFfmpeg(["-y", "-i", primaryPath, "-vf", "alphaextract", "-an", alphaMaskPath], {
+// First pass of "two-pass" mode: one palette over every frame, written to disk before the encode applies it.
+async function generateGlobalPalette(
+  options: VideoPaletteOptions,
+  onProgress?: (progress: number) => void
+): Promise<PaletteInput> {
+  const { config, target, trimBox } = options;
+  const palettePath = path.join(os.tmpdir(), `pixel-palette-${randomUUID()}.rgba`);
+  options.tempArtifacts.push(palettePath);
+  const graph = [...createBaseGraph(config, target, "0:v", "base", trimBox), `[base]${paletteGenFilter(config)}[palette]`];
+
+  await runFfmpeg(
+    [
+      "-y",
+      ...options.inputArgs,
+      "-filter_complex",
+      graph.join(";"),
+      "-map",
+      "[palette]",
+      "-f",
+      "rawvideo",
+      "-pix_fmt",
+      "rgba",
+      "-progress",
+      "pipe:2",
+      "-nostats",
+      palettePath
+    ],
+    palettePassOptions(options, onProgress)
+  );
+
+  return rawPaletteInput(palettePath);
+}
+
+// Times (seconds from the start of the converted range) where the pixelated stream cuts to a new scene.
+async function detectSceneCuts(options: VideoPaletteOptions, onProgress?: (progress: number) => void): Promise<number[]> {
+  const { config, target, trimBox } = options;
+  const threshold = clamp(config.sceneThreshold ?? 0.3, 0.01, 1);
+  const graph = [
+    ...createBaseGraph(config, target, "0:v", "base", trimBox),
+    `[base]select='gt(scene,${threshold})',metadata=print[vout]`
+  ];
+  const cuts: Array<{ time: number; score: number }> = [];
+  let frameTime: number | null = null;
+  const passOptions = palettePassOptions(options, onProgress);
+
+  await runFfmpeg(
+    ["-y", ...options.inputArgs, "-filter_complex", graph.join(";"), "-map", "[vout]", "-progress", "pipe:2", "-f", "null", "-"],
+    {
+      ...passOptions,
+      onStderrLine: (line) => {
+        // metadata=print logs `frame:.. pts:.. pts_time:<t>` followed by `lavfi.scene_score=<score>`.
+        const time = line.match(/pts_time:(\d+(?:\.\d+)?)/);
+        if (time) {
+          frameTime = Number(time[1]);
+          return;
+        }
+        const score = line.match(/lavfi\.scene_score=(\d+(?:\.\d+)?)/);
+        if (score && frameTime !== null) {
+          cuts.push({ time: frameTime, score: Number(score[1]) });
+          frameTime = null;
+          return;
+        }
+        passOptions.onStderrLine(line);
+      }
+    }
+  );
+
+  return cuts
+    .filter((cut) => cut.time > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, maxScenePalettes - 1)
+    .map((cut) => cut.time)
+    .sort((a, b) => a - b);
+}
+
+// Second pass of "per-scene" mode: one palettegen per scene in a single decode, stitched into a palette stream
+// whose frames start at each scene's first frame, so paletteuse switches palettes exactly on the cuts.
+async function generateScenePalettes(
+  options: VideoPaletteOptions,
+  cuts: number[],
+  onProgress?: (progress: number) => void
+): Promise<PaletteInput> {
+  const { config, target, trimBox } = options;
+  const sceneDir = await fs.mkdtemp(path.join(os.tmpdir(), "pixel-scenes-"));
+  options.tempArtifacts.push(sceneDir);
+
+  const starts = [0, ...cuts];
+  const chains = [
+    ...createBaseGraph(config, target, "0:v", "base", trimBox),
+    `[base]split=${starts.length}${starts.map((_, index) => `[s${index}]`).join("")}`
+  ];
+  const outputArgs: string[] = [];
+  starts.forEach((start, index) => {
+    const end = index + 1 < starts.length ? `:end=${formatSeconds(starts[index + 1])}` : "";
+    chains.push(`[s${index}]trim=start=${formatSeconds(start)}${end},${paletteGenFilter(config)}[p${index}]`);
+    outputArgs.push("-map", `[p${index}]`, "-frames:v", "1", path.join(sceneDir, `scene_${index}.png`));
+  });
+
+  await runFfmpeg(
+    ["-y", ...options.inputArgs, "-filter_complex", chains.join(";"), "-progress", "pipe:2", "-nostats", ...outputArgs],
+    palettePassOptions(options, onProgress)
+  );
+
+  // A scene whose trim caught no frames writes no palette; the previous palette simply runs on through it.
+  const scenes: Array<{ file: string; start: number }> = [];
+  for (const [index, start] of starts.entries()) {
+    const file = `scene_${index}.png`;
+    if (await fs.stat(path.join(sceneDir, file)).then(() => true, () => false)) {
+      scenes.push({ file, start });
+    }
+  }
+  if (scenes.length === 0) {
+    throw new Error("No scene palettes could be generated");
+  }
+
+  const listPath = path.join(sceneDir, "palettes.ffconcat");
+  const entries = scenes.map((scene, index) => {
+    const next = scenes[index + 1];
+    return next ? `file '${scene.file}'\nduration ${formatSeconds(next.start - scene.start)}` : `file '${scene.file}'`;
+  });
+  await fs.writeFile(listPath, ["ffconcat version 1.0", ...entries, ""].join("\n"), "utf8");
+
+  return { args: ["-f", "concat", "-i", listPath], dynamic: true };
+}
+
+// Extra ffmpeg passes the configured video palette mode runs before the encode.
+function videoPalettePasses(config: PixelConfig): number {
+  const mode = config.videoPaletteMode ?? "single-pass";
+  return mode === "per-scene" ? 2 : mode === "two-pass" ? 1 : 0;
+}
+
+// `passProgress` holds one progress callback per pass, in order.
+async function prepareVideoPalette(
+  options: VideoPaletteOptions,
+  passProgress: Array<(progress: number) => void>
+): Promise<PaletteInput | null> {
+  const mode = options.config.videoPaletteMode ?? "single-pass";
+  if (mode === "two-pass") {
+    return generateGlobalPalette(options, passProgress[0]);
+  }
+  if (mode === "per-scene") {
+    const cuts = await detectSceneCuts(options, passProgress[0]);
+    return cuts.length > 0
+      ? generateScenePalettes(options, cuts, passProgress[1])
+      : generateGlobalPalette(options, passProgress[1]);
+  }
+  return null;
+}
+
+type ConversionContext = {
+  request: ConvertWithFfmpegOptions;
+  // Folder the planned output lands in (the output folder, or a mirrored/templated subfolder of it).
+  outputDir: string;
+  base: string;
+  outputFormat: OutputFormat;
+  primaryPath: string;
+  extras: string[];
+  tempArtifacts: string[];
+};
+
+async function convertVideoWithFfmpeg(context: ConversionContext): Promise<void> {
+  const { request, outputDir, base, outputFormat, primaryPath, extras, tempArtifacts } = context;
+  const { inputPath, signal, onProgress, ffmpegBin, ffprobeBin, stallTimeoutMs } = request;
+
+  const sourceInput = await resolveMediaInput(inputPath, request.type, request.config, { ffprobeBin });
+  const { durationSeconds } = sourceInput;
+  const pixelConfig = await resolveInputGrid(sourceInput, request.config, { ffmpegBin, ffprobeBin, signal, stallTimeoutMs });
+  const jsDownsample = usesJsDownsample(pixelConfig);
+  // Filter graphs see grid-sized frames when the JS pre-pass already reduced them.
+  const graphConfig = jsDownsample ? { ...pixelConfig, ...passThroughGrid } : pixelConfig;
+  const fixedPalettePath = await prepareFixedPalette(request.config, tempArtifacts);
+  // GIF needs a palette, and so does an exported one: without quantization it would list every color of every frame.
+  const forcePalette = outputFormat === "gif" || Boolean(request.config.exportPalette);
+  // Palette modes only matter when the encode generates its own palette.
+  const generatesPalette = !fixedPalettePath && (clamp(Math.floor(request.config.palette || 256), 2, 256) < 256 || forcePalette);
+  const palettePasses = generatesPalette ? videoPalettePasses(request.config) : 0;
+
+  // Preparatory passes (JS downsampling, alpha-bounds probe, palette passes) share the first 30% of progress.
+  const preparePasses = (jsDownsample ? 1 : 0) + (request.config.trim ? 1 : 0) + palettePasses;
+  const encodeOffset = preparePasses > 0 ? 0.3 : 0;
+  let passIndex = 0;
+  const nextPass = () => {
+    const pass = passIndex;
+    passIndex += 1;
+    return (progress: number) => onProgress?.((encodeOffset * (pass + progress)) / preparePasses);
+  };
+
+  const input = jsDownsample
+    ? await downsampleInputInJs(sourceInput, pixelConfig, {
+        animated: true,
+        tempArtifacts,
         ffmpegBin,
-        signal
-      });
-      extras.push(alphaMaskPath);
+        ffprobeBin,
+        signal,
+        stallTimeoutMs,
+        onProgress: nextPass()
+      })
+    : sourceInput;
+  const trimBox = request.config.trim
+    ? await probeAlphaBounds(input.args, graphConfig, {
+        ffmpegBin,
+        signal,
+        stallTimeoutMs,
+        durationSeconds,
+        onProgress: nextPass()
+      })
+    : null;
+  const colorCollector = request.config.exportPalette ? createRgbaCollector() : null;
+  const target = graphTargetForFormat(outputFormat);
+  const paletteInput = fixedPalettePath
+    ? rawPaletteInput(fixedPalettePath)
+    : palettePasses > 0
+      ? await prepareVideoPalette(
+          { inputArgs: input.args, config: graphConfig, target, trimBox, durationSeconds, tempArtifacts, ffmpegBin, signal, stallTimeoutMs },
+          [nextPass(), nextPass()]
+        )
+      : null;
+  const filterSpec = buildFilterSpec(graphConfig, target, {
+    trimBox,
+    paletteInput,
+    captureColors: Boolean(colorCollector),
+    forcePalette,
+    alphaMask: request.config.alphaMask,
+    audioSourceArgs: input.audioSourceArgs
+  });
+
+  // Frame output writes a numbered PNG per frame into a fresh folder; primaryPath is its first frame.
+  let encodeTarget = primaryPath;
+  let alphaMaskTarget = path.join(outputDir, `${base}_alpha.${outputExtension(outputFormat)}`);
+  let alphaMaskPath = alphaMaskTarget;
+  if (outputFormat === "frames") {
+    const framesDir = path.dirname(primaryPath);
+    await fs.rm(framesDir, { recursive: true, force: true });
+    await fs.mkdir(framesDir, { recursive: true });
+    encodeTarget = path.join(framesDir, `${base}_%04d.png`);
+
+    if (request.config.alphaMask) {
+      const alphaDir = path.join(outputDir, `${base}_alpha_frames`);
+      await fs.rm(alphaDir, { recursive: true, force: true });
+      await fs.mkdir(alphaDir, { recursive: true });
+      alphaMaskTarget = path.join(alphaDir, `${base}_alpha_%04d.png`);
+      alphaMaskPath = path.join(alphaDir, `${base}_alpha_0001.png`);
+    }
+  }
+
+  const rangeFrameArgs = input.frameLimit > 0 ? ["-frames:v", String(input.frameLimit)] : [];
+  // The mask is split off the pixelated frames inside the same graph, so lossy or alpha-less codecs can't flatten it.
+  const alphaMaskOutputArgs = request.config.alphaMask
+    ? [
+        ...filterSpec.alphaMaskArgs,
+        "-an",
+        ...alphaMaskCodecArgs(outputFormat, request.config),
+        ...rangeFrameArgs,
+        alphaMaskTarget
+      ]
+    : [];
+
+  await runFfmpeg(
+    [
+      "-y",
+      ...input.args,
+      ...filterSpec.args,
+      ...videoCodecArgs(outputFormat, request.config),
+      ...audioArgs(outputFormat, request.config, filterSpec.audioInput),
+      ...rangeFrameArgs,
+      "-progress",
+      "pipe:2",
+      "-nostats",
+      encodeTarget,
+      ...alphaMaskOutputArgs,
+      ...filterSpec.captureArgs
+    ],
+    {
+      ffmpegBin,
+      signal,
+      stallTimeoutMs,
+      onStdoutData: colorCollector?.push,
+      onStderrLine: (line) => {
+        const outTimeMs = parseOutTimeMs(line);
+        if (outTimeMs === null || durationSeconds <= 0) {
+          return;
+        }
+
+        const ratio = outTimeMs / (durationSeconds * 1_000_000);
+        const progress = Math.max(0, Math.min(0.99, encodeOffset + ratio * (1 - encodeOffset)));
+        onProgress?.(progress);
+      }
     }
+  );
+
+  onProgress?.(1);
 
-    return {
+  if (colorCollector) {
+    extras.push(...(await writePaletteFiles(histogramColors(colorCollector.histogram), outputDir, base)));
+  }
+
+  if (trimBox) {
+    const trimMetaPath = path.join(outputDir, `${base}_trim.json`);
+    await writeTrimSidecar(trimMetaPath, {
+      inputPath,
       primaryPath,
-      extras: extras.length > 0 ? extras : undefined,
-      previewUrl: createPreviewUrl(primaryPath)
-    };
+      config: graphConfig,
+      trimBox,
+      inputSize: await mediaInputSize(input, { ffprobeBin }),
+      evenDimensions: target === "video"
+    });
+    extras.push(trimMetaPath);
   }
 
-  const filterSpec = buildFilterSpec(request.config, false);
-  const tempArtifacts: string[] = [];
-  let ffmpegInputPath = inputPath;
+  if (request.config.spritesheet) {
+    const fps = clamp(Math.floor(request.config.fps || 24), 1, 120);
+    const frameStart = Math.max(0, Math.floor(request.config.spritesheetFrameStart || 0));
+    const frameCount = Math.max(0, Math.floor(request.config.spritesheetFrameCount || 0));
+    // Re-run the graph to raw RGBA rather than decoding the encoded video, so frames keep alpha and exact colors.
+    const inputSize = await mediaInputSize(input, { ffprobeBin });
+    const frameCollector = createFrameCollector(
+      graphOutputSize(graphConfig, inputSize, trimBox, "animation"),
+      frameStart,
+      frameCount
+    );
+    const sheetSpec = buildFilterSpec(graphConfig, "animation", { trimBox, paletteInput });
+    const sheetFrames = Math.min(
+      frameCount > 0 ? frameStart + frameCount : Number.POSITIVE_INFINITY,
+      input.frameLimit > 0 ? input.frameLimit : Number.POSITIVE_INFINITY
+    );
+    const frameLimit = Number.isFinite(sheetFrames) ? ["-frames:v", String(sheetFrames)] : [];
 
-  try {
-    if (request.type === "svg") {
-      const rasterizedSvgInputPath = path.join(os.tmpdir(), `pixel-svg-input-${randomUUID()}.png`);
-      tempArtifacts.push(rasterizedSvgInputPath);
-      await rasterizeSvgInputToPng(inputPath, rasterizedSvgInputPath);
-      ffmpegInputPath = rasterizedSvgInputPath;
+    await runFfmpeg(
+      ["-y", ...input.args, ...sheetSpec.args, ...frameLimit, "-f", "rawvideo", "-pix_fmt", "rgba", "pipe:1"],
+      { ffmpegBin, signal, stallTimeoutMs, onStdoutData: frameCollector.push }
+    );
+
+    if (frameCollector.frames.length === 0) {
+      throw new Error(`No frames available for the spritesheet starting at frame ${frameStart}`);
     }
 
-    if (outputFormat === "svg") {
-      const tempPngPath = path.join(os.tmpdir(), `pixel-svg-output-${randomUUID()}.png`);
-      tempArtifacts.push(tempPngPath);
+    const { image, layout } = composeSpritesheet(frameCollector.frames, {
+      columns: request.config.spritesheetColumns,
+      rows: request.config.spritesheetRows,
+      padding: request.config.spritesheetPadding,
+      extrude: request.config.spritesheetExtrude
+    });
+    extras.push(
+      ...(await writeSpritesheetFiles(image, layout, {
+        outputDir,
+        base,
+        frameCount: frameCollector.frames.length,
+        durationMs: Math.round(1000 / fps),
+        formats: request.config.spritesheetFormats ?? ["texturepacker-hash"]
+      }))
+    );
+  }
 
-      onProgress?.(0.1);
-      await runFfmpeg(["-y", "-i", ffmpegInputPath, ...filterSpec.args, tempPngPath], {
-        ffmpegBin,
-        signal
-      });
-      onProgress?.(0.7);
+  if (request.config.alphaMask) {
+    extras.push(alphaMaskPath);
+  }
+}
+
+async function convertStillWithFfmpeg(context: ConversionContext): Promise<void> {
+  const { request, outputDir, base, outputFormat, primaryPath, extras, tempArtifacts } = context;
+  const { inputPath, signal, onProgress, ffmpegBin, ffprobeBin, stallTimeoutMs } = request;
+  let ffmpegInputPath = inputPath;
+
+  if (request.type === "svg") {
+    const rasterizedSvgInputPath = path.join(os.tmpdir(), `pixel-svg-input-${randomUUID()}.png`);
+    tempArtifacts.push(rasterizedSvgInputPath);
+    await rasterizeSvgInputToPng(inputPath, rasterizedSvgInputPath);
+    ffmpegInputPath = rasterizedSvgInputPath;
+  }
+
+  const sourceInput: MediaInput = { args: ["-i", ffmpegInputPath], probePath: ffmpegInputPath, durationSeconds: 0, frameLimit: 0 };
+  const pixelConfig = await resolveInputGrid(sourceInput, request.config, { ffmpegBin, ffprobeBin, signal, stallTimeoutMs });
+  const jsDownsample = usesJsDownsample(pixelConfig);
+  const input = jsDownsample
+    ? await downsampleInputInJs(sourceInput, pixelConfig, { animated: false, tempArtifacts, ffmpegBin, ffprobeBin, signal, stallTimeoutMs })
+    : sourceInput;
+  const graphConfig = jsDownsample ? { ...pixelConfig, ...passThroughGrid } : pixelConfig;
+
+  const trimBox = request.config.trim ? await probeAlphaBounds(input.args, graphConfig, { ffmpegBin, signal, stallTimeoutMs }) : null;
+  const fixedPalettePath = await prepareFixedPalette(request.config, tempArtifacts);
+  const colorCollector = request.config.exportPalette ? createRgbaCollector() : null;
+  // SVG output is vectorized from the grid itself; the scale is applied through the SVG size instead.
+  const gridConfig = outputFormat === "svg" ? { ...graphConfig, scale: 1 } : graphConfig;
+  const filterSpec = buildFilterSpec(gridConfig, "still", {
+    trimBox,
+    paletteInput: fixedPalettePath ? rawPaletteInput(fixedPalettePath) : null,
+    captureColors: Boolean(colorCollector),
+    // Quantizes even at 256 colors so the exported palette fits a .pal/.gpl.
+    forcePalette: Boolean(colorCollector)
+  });
+
+  if (outputFormat === "svg") {
+    const tempPngPath = path.join(os.tmpdir(), `pixel-svg-output-${randomUUID()}.png`);
+    tempArtifacts.push(tempPngPath);
+
+    onProgress?.(0.1);
+    await runFfmpeg(["-y", ...input.args, ...filterSpec.args, tempPngPath, ...filterSpec.captureArgs], {
+      ffmpegBin,
+      signal,
+      stallTimeoutMs,
+      onStdoutData: colorCollector?.push
+    });
+    onProgress?.(0.7);
 
-      const [{ width, height }, pngBuffer] = await Promise.all([
-        probeImageDimensions(tempPngPath, { ffprobeBin }),
-        fs.readFile(tempPngPath)
-      ]);
+    const grid = decodePng(await fs.readFile(tempPngPath));
+    const svg = vectorizeImage(grid, clamp(Math.floor(request.config.scale || 1), 1, 16));
+    await fs.writeFile(primaryPath, svg, "utf8");
+    onProgress?.(1);
+  } else {
+    onProgress?.(0.1);
+    await runFfmpeg(["-y", ...input.args, ...filterSpec.args, primaryPath, ...filterSpec.captureArgs], {
+      ffmpegBin,
+      signal,
+      stallTimeoutMs,
+      onStdoutData: colorCollector?.push
+    });
+    onProgress?.(1);
+  }
+
+  if (colorCollector) {
+    extras.push(...(await writePaletteFiles(histogramColors(colorCollector.histogram), outputDir, base)));
+  }
+
+  // Only once the encode succeeded, so a failed run leaves no sidecar for an output that doesn't exist.
+  if (trimBox) {
+    const trimMetaPath = path.join(outputDir, `${base}_trim.json`);
+    await writeTrimSidecar(trimMetaPath, {
+      inputPath,
+      primaryPath,
+      config: graphConfig,
+      trimBox,
+      inputSize: await mediaInputSize(input, { ffprobeBin }),
+      evenDimensions: false
+    });
+    extras.push(trimMetaPath);
+  }
+}
 
-      const svg = buildEmbeddedRasterSvg(width, height, pngBuffer.toString("base64"));
-      await fs.writeFile(primaryPath, svg, "utf8");
-      onProgress?.(1);
+// Failures are PixelErrors with a code and, when ffmpeg itself failed, its log.
+export async function convertAssetWithFfmpeg(request: ConvertWithFfmpegOptions): Promise<ConvertResult> {
+  try {
+    return await convertWithFfmpeg(request);
+  } catch (error) {
+    throw toPixelError(error);
+  }
+}
+
+async function convertWithFfmpeg(request: ConvertWithFfmpegOptions): Promise<ConvertResult> {
+  const { inputPath, config } = request;
+
+  const outputFormat = formatOutputByType(request.type, config, inputPath);
+  const planned = planOutput({
+    inputPath,
+    inputRoot: request.inputRoot,
+    outputDir: request.outputDir,
+    name: request.type === "sequence" ? sequenceBaseName(inputPath) : path.basename(inputPath, path.extname(inputPath)),
+    ext: outputExtension(outputFormat),
+    config
+  });
+  // Per-frame output is a folder of PNGs; the folder is what must not exist yet.
+  const primaryPathOf = (plan: OutputPlan) =>
+    outputFormat === "frames"
+      ? path.join(plan.dir, `${plan.base}_frames`, `${plan.base}_0001.png`)
+      : path.join(plan.dir, plan.fileName);
+  const plan = await resolveOutputCollision(planned, config.outputCollision ?? "overwrite", (candidate) =>
+    outputFormat === "frames" ? path.dirname(primaryPathOf(candidate)) : primaryPathOf(candidate)
+  );
+  if (!plan) {
+    const existingPath = primaryPathOf(planned);
+    request.onProgress?.(1);
+    return { primaryPath: existingPath, previewUrl: createPreviewUrl(existingPath), skipped: true };
+  }
+
+  const primaryPath = primaryPathOf(plan);
+  const context: ConversionContext = {
+    request,
+    outputDir: plan.dir,
+    base: plan.base,
+    outputFormat,
+    primaryPath,
+    extras: [],
+    tempArtifacts: []
+  };
+
+  try {
+    request.onOutputPlanned?.(plan);
+    await fs.mkdir(plan.dir, { recursive: true });
+    if (request.type === "video" || request.type === "animation" || request.type === "sequence") {
+      await convertVideoWithFfmpeg(context);
     } else {
-      onProgress?.(0.1);
-      await runFfmpeg(["-y", "-i", ffmpegInputPath, ...filterSpec.args, primaryPath], {
-        ffmpegBin,
-        signal
-      });
-      onProgress?.(1);
+      await convertStillWithFfmpeg(context);
     }
   } finally {
-    await Promise.all(tempArtifacts.map((artifactPath) => fs.rm(artifactPath, { force: true })));
+    releaseOutputPlan(plan);
+    await Promise.all(
+      context.tempArtifacts.map((artifactPath) => fs.rm(artifactPath, { recursive: true, force: true }))
+    );
   }
 
   return {
-    primaryPath,
-    previewUrl: createPreviewUrl(primaryPath)
+    primaryPath: context.primaryPath,
+    extras: context.extras.length > 0 ? context.extras : undefined,
+    previewUrl: createPreviewUrl(context.primaryPath)
   };
 }
 
-export async function extractFrames(inputPath: string, outputPattern: string): Promise<void> {
-  await runFfmpeg(["-y", "-i", inputPath, "-vsync", "0", outputPattern]);
+export type SharedPaletteInput = {
+  inputPath: string;
+  type: AssetType;
+  config: PixelConfig;
+};
+
+export type ExtractSharedPaletteOptions = {
+  maxColors: number;
+  ffmpegBin?: string;
+  ffprobeBin?: string;
+  signal?: AbortSignal;
+  stallTimeoutMs?: number;
+};
+
+// Builds one palette for a whole batch from every input's downscaled grid, so a sprite set shares its colors.
+export async function extractSharedPalette(
+  inputs: SharedPaletteInput[],
+  options: ExtractSharedPaletteOptions
+): Promise<RgbColor[]> {
+  const { ffmpegBin, ffprobeBin, signal, stallTimeoutMs } = options;
+  const histogram: ColorHistogram = new Map();
+  const maxColors = clamp(Math.floor(options.maxColors || 255), 1, 255);
+
+  for (const input of inputs) {
+    const tempArtifacts: string[] = [];
+    let ffmpegInputPath = input.inputPath;
+
+    try {
+      if (input.type === "svg") {
+        ffmpegInputPath = path.join(os.tmpdir(), `pixel-svg-input-${randomUUID()}.png`);
+        tempArtifacts.push(ffmpegInputPath);
+        await rasterizeSvgInputToPng(input.inputPath, ffmpegInputPath);
+      }
+
+      const mediaInput = await resolveMediaInput(ffmpegInputPath, input.type, input.config, { ffprobeBin });
+      const config = await resolveInputGrid(mediaInput, input.config, { ffmpegBin, ffprobeBin, signal, stallTimeoutMs });
+      const collector = createRgbaCollector(histogram);
+      const graph = [...createGridChains(config, "0:v", "grid"), "[grid]format=rgba[vcolors]"].join(";");
+      await runFfmpeg(
+        [...mediaInput.args, "-filter_complex", graph, "-map", "[vcolors]", "-f", "rawvideo", "-pix_fmt", "rgba", "pipe:1"],
+        { ffmpegBin, signal, stallTimeoutMs, onStdoutData: collector.push }
+      );
+    } finally {
+      await Promise.all(tempArtifacts.map((artifactPath) => fs.rm(artifactPath, { force: true })));
+    }
+  }
+
+  return medianCutPalette(histogram, maxColors);
+}
+
+export type FrameSequenceOptions = {
+  ffmpegBin?: string;
+  ffprobeBin?: string;
+  signal?: AbortSignal;
+  stallTimeoutMs?: number;
+  onProgress?: (progress: number) => void;
+};
+
+function parseProgressFrame(line: string): number | null {
+  const match = line.match(/^frame=(\d+)$/);
+  return match ? Number.parseInt(match[1], 10) : null;
 }
 
-export async function encodeVideo(inputPattern: string, outputPath: string, fps: number): Promise<void> {
-  await runFfmpeg([
-    "-y",
-    "-framerate",
-    String(fps),
-    "-i",
-    inputPattern,
-    "-pix_fmt",
-    "yuv420p",
-    outputPath
-  ]);
+// Splits a video into numbered frames, e.g. `frames/walk_%04d.png`.
+export async function extractFrames(inputPath: string, outputPattern: string, options: FrameSequenceOptions = {}): Promise<void> {
+  const durationSeconds = await probeDurationSeconds(inputPath, { ffprobeBin: options.ffprobeBin }).catch(() => 0);
+  await fs.mkdir(path.dirname(outputPattern), { recursive: true });
+
+  await runFfmpeg(["-y", "-i", inputPath, "-vsync", "0", "-progress", "pipe:2", "-nostats", outputPattern], {
+    ffmpegBin: options.ffmpegBin,
+    signal: options.signal,
+    stallTimeoutMs: options.stallTimeoutMs,
+    onStderrLine: (line) => {
+      const outTimeMs = parseOutTimeMs(line);
+      if (outTimeMs !== null && durationSeconds > 0) {
+        options.onProgress?.(clamp(outTimeMs / (durationSeconds * 1_000_000), 0, 0.99));
+      }
+    }
+  });
+  options.onProgress?.(1);
+}
+
+// Encodes a numbered frame sequence (see listSequenceFrames) into a yuv420p video.
+export async function encodeVideo(
+  inputPattern: string,
+  outputPath: string,
+  fps: number,
+  options: FrameSequenceOptions = {}
+): Promise<void> {
+  const sequence = await listSequenceFrames(inputPattern);
+
+  await runFfmpeg(
+    [
+      "-y",
+      ...sequenceInputArgs(sequence, fps),
+      "-vf",
+      "crop=iw-mod(iw\\,2):ih-mod(ih\\,2)",
+      "-pix_fmt",
+      "yuv420p",
+      "-progress",
+      "pipe:2",
+      "-nostats",
+      outputPath
+    ],
+    {
+      ffmpegBin: options.ffmpegBin,
+      signal: options.signal,
+      stallTimeoutMs: options.stallTimeoutMs,
+      onStderrLine: (line) => {
+        const frame = parseProgressFrame(line);
+        if (frame !== null) {
+          options.onProgress?.(clamp(frame / sequence.frames.length, 0, 0.99));
+        }
+      }
+    }
+  );
+  options.onProgress?.(1);
 }
@@ -1,10 +1,16 @@
 import { EventEmitter } from "node:events";
 
+export * from "./journal";
+
 export type QueueWorkerContext<TPayload> = {
   id: string;
   payload: TPayload;
   signal: AbortSignal;
+  // 1 for the first run, 2 for the first retry, ...
+  attempt: number;
   reportProgress: (progress: number) => void;
+  // Marks the job as skipped (nothing to do, e.g. its output is up to date); its result is emitted as "skipped".
+  reportSkipped: () => void;
 };
 
 export type QueueWorker<TPayload, TResult> = (
@@ -14,37 +20,136 @@ export type QueueWorker<TPayload, TResult> = (
 export type QueueItem<TPayload> = {
   id: string;
   payload: TPayload;
+  // Higher runs first; items of equal priority run in queue order (default 0).
+  priority?: number;
+  // Share of the queue's budget the job takes while running (default 1), e.g. more for videos than for images.
+  cost?: number;
+  // Groups jobs for per-kind limits, e.g. the asset type.
+  kind?: string;
+  // Overrides the queue's job timeout for this job; 0 turns it off.
+  timeoutMs?: number;
+};
+
+// Failed jobs run again up to `retries` more times, waiting `delayMs` before the first retry and `factor` times
+// longer before each following one, capped at `maxDelayMs`.
+export type RetryPolicy = {
+  retries: number;
+  delayMs?: number;
+  factor?: number;
+  maxDelayMs?: number;
+  // Timed-out jobs are only retried when set: a job that hung once usually hangs again.
+  retryTimeouts?: boolean;
+  // Return false for errors that will fail the same way again.
+  shouldRetry?: (error: unknown) => boolean;
 };
 
+export type JobQueueOptions = {
+  retry?: RetryPolicy;
+  // Most total cost running at once (default: unlimited, so only concurrency applies).
+  budget?: number;
+  // Most jobs of a kind running at once, e.g. `{ video: 1 }`.
+  kindLimits?: Record<string, number>;
+  // Stops a job running longer than this and reports it with kind "timeout" (default: no limit).
+  timeoutMs?: number;
+};
+
+// "timeout": the job ran past its time limit or the worker threw an error named "TimeoutError" (e.g. a stall watchdog).
+export type QueueErrorKind = "failed" | "timeout";
+
 export type QueueEvent<TResult> =
   | { type: "queued"; jobId: string }
   | { type: "start"; jobId: string }
   | { type: "progress"; jobId: string; progress: number }
   | { type: "done"; jobId: string; result: TResult }
-  | { type: "error"; jobId: string; message: string }
+  | { type: "skipped"; jobId: string; result: TResult }
+  // `code` and `log` come from the worker's error when it has them (like @pixel/core's PixelError); `code` is the kind
+  // otherwise.
+  | { type: "error"; jobId: string; message: string; kind: QueueErrorKind; code: string; log?: string }
   | { type: "canceled"; jobId: string }
+  // Without a jobId the whole queue was paused.
+  | { type: "paused"; jobId?: string }
+  | { type: "retrying"; jobId: string; attempt: number; delayMs: number; message: string }
   | { type: "idle" };
 
+type PendingItem<TPayload> = {
+  item: QueueItem<TPayload>;
+  priority: number;
+  attempt: number;
+  // Paused on its own; stays pending until resumed.
+  held: boolean;
+};
+
+type RunningItem<TPayload> = {
+  entry: PendingItem<TPayload>;
+  controller: AbortController;
+};
+
+const defaultRetryDelayMs = 1000;
+
 function isAbortError(error: unknown): boolean {
   return error instanceof Error && error.name === "AbortError";
 }
 
+function isTimeoutError(error: unknown): boolean {
+  return error instanceof Error && error.name === "TimeoutError";
+}
+
+function errorField(error: unknown, key: "code" | "log"): string | undefined {
+  const value = error && typeof error === "object" ? (error as Record<string, unknown>)[key] : undefined;
+  return typeof value === "string" && value.length > 0 ? value : undefined;
+}
+
+function jobTimeoutError(timeoutMs: number): Error {
+  const error = new Error(`Job timed out after ${timeoutMs / 1000}s`);
+  error.name = "TimeoutError";
+  return error;
+}
+
 export class JobQueue<TPayload, TResult> {
   private readonly worker: QueueWorker<TPayload, TResult>;
 
   private readonly emitter = new EventEmitter();
 
-  private readonly pending: Array<QueueItem<TPayload>> = [];
+  // Run order: highest priority first, then array order.
+  private readonly pending: Array<PendingItem<TPayload>> = [];
 
-  private readonly running = new Map<string, AbortController>();
+  private readonly running = new Map<string, RunningItem<TPayload>>();
+
+  // Failed jobs waiting out their backoff delay.
+  private readonly retrying = new Map<string, { entry: PendingItem<TPayload>; timer: NodeJS.Timeout }>();
 
   private readonly canceled = new Set<string>();
 
+  // Running jobs being stopped by pause(jobId); they go back to pending instead of reporting canceled.
+  private readonly pausing = new Set<string>();
+
   private concurrency = 1;
 
-  constructor(worker: QueueWorker<TPayload, TResult>, concurrency = 1) {
+  private paused = false;
+
+  private retryPolicy: RetryPolicy = { retries: 0 };
+
+  private budget = Number.POSITIVE_INFINITY;
+
+  private kindLimits: Record<string, number> = {};
+
+  private timeoutMs = 0;
+
+  constructor(worker: QueueWorker<TPayload, TResult>, concurrency = 1, options: JobQueueOptions = {}) {
     this.worker = worker;
     this.concurrency = Math.max(1, concurrency);
+    if (options.retry) {
+      this.setRetryPolicy(options.retry);
+    }
+    if (options.budget !== undefined) {
+      this.setBudget(options.budget);
+    }
+    if (options.kindLimits) {
+      this.setKindLimits(options.kindLimits);
+    }
+    if (options.timeoutMs !== undefined) {
+      this.setJobTimeout(options.timeoutMs);
+    }
   }
 
   onEvent(listener: (event: QueueEvent<TResult>) => void): () => void {
@@ -54,7 +159,7 @@ export class JobQueue<TPayload, TResult> {
 
   enqueue(items: Array<QueueItem<TPayload>>): void {
     for (const item of items) {
-      this.pending.push(item);
+      this.pending.push({ item, priority: item.priority ?? 0, attempt: 1, held: false });
       this.emit({ type: "queued", jobId: item.id });
     }
     this.drain();
@@ -66,85 +171,316 @@ export class JobQueue<TPayload, TResult> {
     return this.concurrency;
   }
 
+  // A job costing more than the whole budget still runs, but only while nothing else does.
+  setBudget(budget: number): number {
+    this.budget = Number.isFinite(budget) ? Math.max(1, budget) : Number.POSITIVE_INFINITY;
+    this.drain();
+    return this.budget;
+  }
+
+  setKindLimits(limits: Record<string, number>): void {
+    this.kindLimits = Object.fromEntries(
+      Object.entries(limits).map(([kind, limit]) => [kind, Math.max(1, Math.floor(limit))])
+    );
+    this.drain();
+  }
+
+  // Applies to jobs started from now on; 0 turns the limit off.
+  setJobTimeout(timeoutMs: number): void {
+    this.timeoutMs = Number.isFinite(timeoutMs) ? Math.max(0, timeoutMs) : 0;
+  }
+
+  setRetryPolicy(policy: RetryPolicy): void {
+    this.retryPolicy = { ...policy, retries: Math.max(0, Math.floor(policy.retries)) };
+  }
+
+  setPriority(jobId: string, priority: number): void {
+    const entry = this.pending.find((candidate) => candidate.item.id === jobId) ?? this.retrying.get(jobId)?.entry;
+    if (entry) {
+      entry.priority = priority;
+      this.drain();
+    }
+  }
+
+  // Moves the listed pending jobs into the given order, in the slots they already take up; other jobs keep their
+  // place. Priority still wins over this order.
+  reorder(jobIds: string[]): void {
+    const rank = new Map(jobIds.map((jobId, index) => [jobId, index]));
+    const slots: number[] = [];
+    const moved: Array<PendingItem<TPayload>> = [];
+    this.pending.forEach((entry, index) => {
+      if (rank.has(entry.item.id)) {
+        slots.push(index);
+        moved.push(entry);
+      }
+    });
+    moved.sort((a, b) => (rank.get(a.item.id) ?? 0) - (rank.get(b.item.id) ?? 0));
+    slots.forEach((slot, index) => {
+      this.pending[slot] = moved[index];
+    });
+  }
+
+  isPaused(): boolean {
+    return this.paused;
+  }
+
+  // Without a jobId, stops starting new jobs (running ones finish). With one, holds a pending job, or stops a running
+  // one and puts it back as held so it starts over when resumed.
+  pause(jobId?: string): void {
+    if (jobId === undefined) {
+      if (!this.paused) {
+        this.paused = true;
+        this.emit({ type: "paused" });
+        this.emitIdleIfNeeded();
+      }
+      return;
+    }
+
+    const entry = this.pending.find((candidate) => candidate.item.id === jobId);
+    if (entry) {
+      if (!entry.held) {
+        entry.held = true;
+        this.emit({ type: "paused", jobId });
+        this.emitIdleIfNeeded();
+      }
+      return;
+    }
+
+    const waiting = this.retrying.get(jobId);
+    if (waiting) {
+      clearTimeout(waiting.timer);
+      this.retrying.delete(jobId);
+      this.pending.unshift({ ...waiting.entry, held: true });
+      this.emit({ type: "paused", jobId });
+      this.emitIdleIfNeeded();
+      return;
+    }
+
+    const running = this.running.get(jobId);
+    if (running) {
+      this.pausing.add(jobId);
+      running.controller.abort();
+    }
+  }
+
+  resume(jobId?: string): void {
+    if (jobId === undefined) {
+      this.paused = false;
+      this.drain();
+      return;
+    }
+
+    const entry = this.pending.find((candidate) => candidate.item.id === jobId);
+    if (entry?.held) {
+      entry.held = false;
+      this.emit({ type: "queued", jobId });
+      this.drain();
+    }
+  }
+
   cancel(jobId: string): void {
-    const pendingIndex = this.pending.findIndex((item) => item.id === jobId);
+    const pendingIndex = this.pending.findIndex((entry) => entry.item.id === jobId);
     if (pendingIndex >= 0) {
       this.pending.splice(pendingIndex, 1);
-      this.canceled.add(jobId);
       this.emit({ type: "canceled", jobId });
       this.emitIdleIfNeeded();
       return;
     }
 
-    const controller = this.running.get(jobId);
-    if (controller) {
+    const waiting = this.retrying.get(jobId);
+    if (waiting) {
+      clearTimeout(waiting.timer);
+      this.retrying.delete(jobId);
+      this.emit({ type: "canceled", jobId });
+      this.emitIdleIfNeeded();
+      return;
+    }
+
+    const running = this.running.get(jobId);
+    if (running) {
       this.canceled.add(jobId);
-      controller.abort();
+      running.controller.abort();
     }
   }
 
   cancelAll(): void {
-    for (const item of this.pending) {
-      this.canceled.add(item.id);
-      this.emit({ type: "canceled", jobId: item.id });
+    for (const entry of this.pending) {
+      this.emit({ type: "canceled", jobId: entry.item.id });
     }
     this.pending.length = 0;
 
-    for (const [jobId, controller] of this.running.entries()) {
+    for (const [jobId, waiting] of this.retrying.entries()) {
+      clearTimeout(waiting.timer);
+      this.emit({ type: "canceled", jobId });
+    }
+    this.retrying.clear();
+
+    for (const [jobId, running] of this.running.entries()) {
       this.canceled.add(jobId);
-      controller.abort();
+      running.controller.abort();
     }
 
     this.emitIdleIfNeeded();
   }
 
+  private hasRunnable(): boolean {
+    return this.pending.some((entry) => !entry.held);
+  }
+
+  private withinKindLimit(entry: PendingItem<TPayload>): boolean {
+    const { kind } = entry.item;
+    const limit = kind === undefined ? undefined : this.kindLimits[kind];
+    if (limit === undefined) {
+      return true;
+    }
+    return [...this.running.values()].filter((active) => active.entry.item.kind === kind).length < limit;
+  }
+
+  // Whether the job fits next to the running ones: within its kind's limit and the budget left after `reserved`.
+  private fits(entry: PendingItem<TPayload>, reserved = 0): boolean {
+    if (!this.withinKindLimit(entry)) {
+      return false;
+    }
+    const runningCost = [...this.running.values()].reduce((total, active) => total + (active.entry.item.cost ?? 1), 0);
+    return this.running.size === 0 || runningCost + (entry.item.cost ?? 1) + reserved <= this.budget;
+  }
+
+  // The first job in run order that fits now. Cheaper jobs further back may start while a costly one waits for room,
+  // but only in budget it doesn't need: the first job waiting on the budget keeps its cost reserved, so a steady stream
+  // of images can't starve a video.
+  private nextRunnableIndex(): number {
+    const order = this.pending
+      .map((entry, index) => ({ entry, index }))
+      .filter(({ entry }) => !entry.held)
+      .sort((a, b) => b.entry.priority - a.entry.priority || a.index - b.index);
+    let reserved = 0;
+    for (const { entry, index } of order) {
+      if (this.fits(entry, reserved)) {
+        return index;
+      }
+      if (reserved === 0 && this.withinKindLimit(entry)) {
+        reserved = entry.item.cost ?? 1;
+      }
+    }
+    return -1;
+  }
+
   private drain(): void {
-    while (this.running.size < this.concurrency && this.pending.length > 0) {
-      const next = this.pending.shift();
-      if (!next) {
-        return;
+    while (!this.paused && this.running.size < this.concurrency) {
+      const index = this.nextRunnableIndex();
+      if (index < 0) {
+        break;
       }
+      const [next] = this.pending.splice(index, 1);
       this.run(next);
     }
     this.emitIdleIfNeeded();
   }
 
-  private run(item: QueueItem<TPayload>): void {
+  private retryDelay(attempt: number): number {
+    const { delayMs = defaultRetryDelayMs, factor = 2, maxDelayMs = Number.POSITIVE_INFINITY } = this.retryPolicy;
+    return Math.min(maxDelayMs, delayMs * factor ** (attempt - 1));
+  }
+
+  private shouldRetry(entry: PendingItem<TPayload>, error: unknown): boolean {
+    const { retries, retryTimeouts = false, shouldRetry } = this.retryPolicy;
+    if (entry.attempt > retries || (isTimeoutError(error) && !retryTimeouts)) {
+      return false;
+    }
+    return shouldRetry ? shouldRetry(error) : true;
+  }
+
+  private scheduleRetry(entry: PendingItem<TPayload>, message: string): void {
+    const jobId = entry.item.id;
+    const delayMs = this.retryDelay(entry.attempt);
+    const next = { ...entry, attempt: entry.attempt + 1 };
+    const timer = setTimeout(() => {
+      this.retrying.delete(jobId);
+      // Ahead of jobs that haven't started yet, as it was when it first ran.
+      this.pending.unshift(next);
+      this.drain();
+    }, delayMs);
+    this.retrying.set(jobId, { entry: next, timer });
+    this.emit({ type: "retrying", jobId, attempt: next.attempt, delayMs, message });
+  }
+
+  private run(entry: PendingItem<TPayload>): void {
+    const { item } = entry;
     const controller = new AbortController();
-    this.running.set(item.id, controller);
+    this.running.set(item.id, { entry, controller });
     this.emit({ type: "start", jobId: item.id });
+    let skipped = false;
+    let timedOut = false;
+    const timeoutMs = item.timeoutMs ?? this.timeoutMs;
+    const timer =
+      timeoutMs > 0
+        ? setTimeout(() => {
+            timedOut = true;
+            controller.abort();
+          }, timeoutMs)
+        : undefined;
 
     this.worker({
       id: item.id,
       payload: item.payload,
       signal: controller.signal,
+      attempt: entry.attempt,
       reportProgress: (progress) => {
         this.emit({ type: "progress", jobId: item.id, progress });
+      },
+      reportSkipped: () => {
+        skipped = true;
       }
     })
       .then((result) => {
         if (this.canceled.has(item.id)) {
           return;
         }
-        this.emit({ type: "done", jobId: item.id, result });
+        this.emit({ type: skipped ? "skipped" : "done", jobId: item.id, result });
       })
       .catch((error) => {
-        if (this.canceled.has(item.id) || isAbortError(error)) {
+        if (this.pausing.has(item.id) && !this.canceled.has(item.id)) {
+          this.pending.unshift({ ...entry, held: true });
+          this.emit({ type: "paused", jobId: item.id });
+          return;
+        }
+        if (this.canceled.has(item.id)) {
+          this.emit({ type: "canceled", jobId: item.id });
+          return;
+        }
+        const failure = timedOut ? jobTimeoutError(timeoutMs) : error;
+        if (isAbortError(failure)) {
           this.emit({ type: "canceled", jobId: item.id });
           return;
         }
-        const message = error instanceof Error ? error.message : "Unknown queue error";
-        this.emit({ type: "error", jobId: item.id, message });
+        const message = failure instanceof Error ? failure.message : "Unknown queue error";
+        if (this.shouldRetry(entry, failure)) {
+          this.scheduleRetry(entry, message);
+          return;
+        }
+        const kind = isTimeoutError(failure) ? "timeout" : "failed";
+        const log = errorField(failure, "log");
+        this.emit({
+          type: "error",
+          jobId: item.id,
+          message,
+          kind,
+          code: errorField(failure, "code") ?? kind,
+          ...(log ? { log } : {})
+        });
       })
       .finally(() => {
+        clearTimeout(timer);
         this.running.delete(item.id);
         this.canceled.delete(item.id);
+        this.pausing.delete(item.id);
         this.drain();
       });
   }
 
+  // Idle once nothing runs or waits to retry and nothing pending can start (the queue or every pending job is paused).
   private emitIdleIfNeeded(): void {
-    if (this.pending.length === 0 && this.running.size === 0) {
+    if (this.running.size === 0 && this.retrying.size === 0 && (this.paused || !this.hasRunnable())) {
       this.emit({ type: "idle" });
     }
   }
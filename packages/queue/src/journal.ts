@@ -0,0 +1,194 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import type { JobQueue, QueueItem } from "./index";
+
+const journalVersion = 1;
+
+const lockRetryMs = 20;
+
+const lockStaleMs = 5000;
+
+export type JournalEntry<TPayload, TMeta = unknown> = {
+  id: string;
+  payload: TPayload;
+  state: "queued" | "processing";
+  // Process that queued the job. While it is alive the entry is its own; once it is gone, the job was interrupted.
+  pid?: number;
+  // When the worker picked the job up; files it wrote are at least this new.
+  startedAt?: number;
+  // Whatever the worker records while running, e.g. where its outputs go, so an interrupted job can be cleaned up.
+  meta?: TMeta;
+};
+
+type JournalFile<TPayload, TMeta> = {
+  version: number;
+  entries: Array<JournalEntry<TPayload, TMeta>>;
+};
+
+function isProcessAlive(pid: number | undefined): boolean {
+  if (pid === undefined) {
+    return false;
+  }
+  if (pid === process.pid) {
+    return true;
+  }
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM: the process exists but belongs to another user.
+    return (error as NodeJS.ErrnoException).code === "EPERM";
+  }
+}
+
+async function readEntries<TPayload, TMeta>(filePath: string): Promise<Array<JournalEntry<TPayload, TMeta>>> {
+  try {
+    const file = JSON.parse(await fs.readFile(filePath, "utf8")) as JournalFile<TPayload, TMeta>;
+    return file.version === journalVersion && Array.isArray(file.entries) ? file.entries : [];
+  } catch {
+    return [];
+  }
+}
+
+// Unfinished work of a JobQueue on disk, so a batch survives a crash or quit. Entries leave the journal once the
+// queue reports them done, skipped, failed or canceled; whatever a process that is gone left behind was interrupted.
+// Several processes can share one journal (e.g. two CLI runs into the same folder): each only loads and changes the
+// entries of dead processes and its own, and saves merge with what the others wrote.
+export class QueueJournal<TPayload, TMeta = unknown> {
+  readonly filePath: string;
+
+  private readonly entries: Map<string, JournalEntry<TPayload, TMeta>>;
+
+  // Removed here, so a save must not bring them back from the file.
+  private readonly dropped = new Set<string>();
+
+  private saving: Promise<void> = Promise.resolve();
+
+  private constructor(filePath: string, entries: Array<JournalEntry<TPayload, TMeta>>) {
+    this.filePath = filePath;
+    this.entries = new Map(entries.map((entry) => [entry.id, entry]));
+  }
+
+  // A missing, unreadable or older-version journal starts empty. Entries of processes still running are left to them.
+  static async load<TPayload, TMeta = unknown>(filePath: string): Promise<QueueJournal<TPayload, TMeta>> {
+    const entries = await readEntries<TPayload, TMeta>(filePath);
+    return new QueueJournal(path.resolve(filePath), entries.filter((entry) => !isProcessAlive(entry.pid)));
+  }
+
+  // Every unfinished entry this journal holds, in queue order.
+  pending(): Array<JournalEntry<TPayload, TMeta>> {
+    return [...this.entries.values()];
+  }
+
+  // Entries that were running when their process stopped; their outputs may be half-written.
+  interrupted(): Array<JournalEntry<TPayload, TMeta>> {
+    return this.pending().filter((entry) => entry.state === "processing" && entry.pid !== process.pid);
+  }
+
+  // Call before JobQueue.enqueue with the same items. Re-adding an entry (to resume it) starts it over as this
+  // process's own.
+  add(items: Array<QueueItem<TPayload>>): Promise<void> {
+    for (const item of items) {
+      this.entries.delete(item.id);
+      this.entries.set(item.id, { id: item.id, payload: item.payload, state: "queued", pid: process.pid });
+    }
+    return this.persist();
+  }
+
+  setMeta(id: string, meta: TMeta): Promise<void> {
+    const entry = this.entries.get(id);
+    if (!entry) {
+      return this.saving;
+    }
+    entry.meta = meta;
+    return this.persist();
+  }
+
+  remove(ids: string[]): Promise<void> {
+    for (const id of ids) {
+      this.entries.delete(id);
+      this.dropped.add(id);
+    }
+    return this.persist();
+  }
+
+  clear(): Promise<void> {
+    return this.remove([...this.entries.keys()]);
+  }
+
+  // Follows the queue's events; returns the unsubscribe function. A failed write here surfaces on the next flush().
+  attach<TResult>(queue: JobQueue<TPayload, TResult>): () => void {
+    return queue.onEvent((event) => {
+      if (event.type === "start") {
+        const entry = this.entries.get(event.jobId);
+        if (entry) {
+          entry.state = "processing";
+          entry.startedAt = Date.now();
+          this.persist().catch(() => undefined);
+        }
+      } else if (event.type === "done" || event.type === "skipped" || event.type === "error" || event.type === "canceled") {
+        if (this.entries.has(event.jobId)) {
+          this.remove([event.jobId]).catch(() => undefined);
+        }
+      }
+    });
+  }
+
+  // Resolves once every change so far is on disk.
+  flush(): Promise<void> {
+    return this.saving;
+  }
+
+  // Writes are serialized and atomic; an empty journal deletes the file.
+  private persist(): Promise<void> {
+    this.saving = this.saving.catch(() => undefined).then(() => this.withLock(() => this.save()));
+    return this.saving;
+  }
+
+  // Keeps other processes' entries as they last wrote them; ours replace whatever the file has for the same ids.
+  private async save(): Promise<void> {
+    const others = (await readEntries<TPayload, TMeta>(this.filePath)).filter(
+      (entry) => !this.entries.has(entry.id) && !this.dropped.has(entry.id) && entry.pid !== process.pid
+    );
+    const entries = [...others, ...this.pending()];
+    if (entries.length === 0) {
+      await fs.rm(this.filePath, { force: true });
+      return;
+    }
+    const file: JournalFile<TPayload, TMeta> = { version: journalVersion, entries };
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.writeFile(tempPath, JSON.stringify(file, null, 2), "utf8");
+    await fs.rename(tempPath, this.filePath);
+  }
+
+  // A lock file around read-merge-write, so two processes saving at once don't drop each other's change. A lock
+  // older than lockStaleMs belonged to a process that died mid-save.
+  private async withLock(action: () => Promise<void>): Promise<void> {
+    const lockPath = `${this.filePath}.lock`;
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    for (let attempt = 0; ; attempt += 1) {
+      try {
+        await fs.writeFile(lockPath, String(process.pid), { flag: "wx" });
+        break;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== "EEXIST") {
+          throw error;
+        }
+        const stat = await fs.stat(lockPath).catch(() => null);
+        if (stat && Date.now() - stat.mtimeMs > lockStaleMs) {
+          await fs.rm(lockPath, { force: true });
+        } else if (attempt * lockRetryMs > lockStaleMs) {
+          throw new Error(`Queue journal ${this.filePath} is locked by another process`);
+        } else {
+          await new Promise((resolve) => setTimeout(resolve, lockRetryMs));
+        }
+      }
+    }
+    try {
+      await action();
+    } finally {
+      await fs.rm(lockPath, { force: true });
+    }
+  }
+}
@@ -0,0 +1,49 @@
+const test = require("node:test");
+const assert = require("node:assert/strict");
+const os = require("node:os");
+const path = require("node:path");
+const fs = require("node:fs/promises");
+
+const { OutputCache, cacheManifestName, computeCacheFingerprint, defaultPixelConfig } = require("../packages/core/dist/index.js");
+
+test("computeCacheFingerprint follows content, config and engine version, not timestamps", async () => {
+  const root = await fs.mkdtemp(path.join(os.tmpdir(), "pixel-cache-"));
+  const inputPath = path.join(root, "hero.png");
+  await fs.writeFile(inputPath, "pixels");
+
+  const job = { inputPath, type: "image", config: defaultPixelConfig, engineVersion: "ffmpeg@1.0.0" };
+  const original = await computeCacheFingerprint(job);
+
+  await fs.utimes(inputPath, new Date(), new Date(Date.now() + 60_000));
+  assert.equal(await computeCacheFingerprint(job), original);
+  // Key order of the config doesn't matter.
+  const reordered = Object.fromEntries(Object.entries(defaultPixelConfig).reverse());
+  assert.equal(await computeCacheFingerprint({ ...job, config: reordered }), original);
+
+  assert.notEqual(await computeCacheFingerprint({ ...job, config: { ...defaultPixelConfig, grid: 8 } }), original);
+  assert.notEqual(await computeCacheFingerprint({ ...job, engineVersion: "ffmpeg@1.1.0" }), original);
+  await fs.writeFile(inputPath, "other pixels");
+  assert.notEqual(await computeCacheFingerprint(job), original);
+});
+
+test("OutputCache persists entries and drops them when outputs disappear", async () => {
+  const root = await fs.mkdtemp(path.join(os.tmpdir(), "pixel-cache-"));
+  const inputPath = path.join(root, "hero.png");
+  const primaryPath = path.join(root, "out", "hero_pixel.png");
+  await fs.mkdir(path.dirname(primaryPath), { recursive: true });
+  await fs.writeFile(primaryPath, "x");
+
+  const cache = await OutputCache.load(path.join(root, "out"));
+  assert.equal(await cache.lookup(inputPath, "abc"), null);
+  await cache.record(inputPath, "abc", { primaryPath, previewUrl: "file:///preview" });
+
+  const reloaded = await OutputCache.load(path.join(root, "out"));
+  assert.deepEqual(await reloaded.lookup(inputPath, "abc"), { primaryPath });
+  assert.equal(await reloaded.lookup(inputPath, "def"), null);
+
+  await fs.rm(primaryPath);
+  assert.equal(await reloaded.lookup(inputPath, "abc"), null);
+
+  await fs.writeFile(path.join(root, "out", cacheManifestName), "{ not json");
+  assert.equal(await (await OutputCache.load(path.join(root, "out"))).lookup(inputPath, "abc"), null);
+});
@@ -0,0 +1,50 @@
+const test = require("node:test");
+const assert = require("node:assert/strict");
+
+const { PixelError, toPixelError } = require("../packages/core/dist/index.js");
+const { JobQueue } = require("../packages/queue/dist/index.js");
+
+function systemError(code, message, extra = {}) {
+  return Object.assign(new Error(message), { code, ...extra });
+}
+
+test("toPixelError classifies system errors, names and tool output", () => {
+  const cases = [
+    [systemError("ENOSPC", "ENOSPC: no space left on device, write"), "disk-full"],
+    [systemError("EACCES", "EACCES: permission denied, open '/out/a.png'"), "permission-denied"],
+    [systemError("ENOENT", "spawn ffprobe ENOENT", { syscall: "spawn ffprobe" }), "ffmpeg-missing"],
+    [Object.assign(new Error("x"), { name: "AbortError" }), "canceled"],
+    [Object.assign(new Error("x"), { name: "TimeoutError" }), "timeout"],
+    [Object.assign(new Error("Command failed"), { stderr: "[h264 @ 0x1] Invalid NAL unit size\n" }), "corrupt-input"],
+    [new Error("Invalid PNG: missing IHDR"), "corrupt-input"],
+    [new Error("something else"), "unknown"]
+  ];
+  for (const [error, code] of cases) {
+    assert.equal(toPixelError(error).code, code, error.message);
+  }
+
+  // An unknown encoder wins over decode warnings printed before it.
+  const log = "[h264 @ 0x1] error while decoding MB 3 4\n[vost#0:0 @ 0x2] Unknown encoder 'libfoo'";
+  const error = toPixelError(new Error("ffmpeg exited with code 8"), log);
+  assert.equal(error.code, "unsupported-codec");
+  assert.equal(error.message, "Unsupported format or codec: Unknown encoder 'libfoo'");
+  assert.equal(error.log, log);
+  assert.equal(toPixelError(error), error);
+});
+
+test("JobQueue passes a worker error's code and log on", async () => {
+  const queue = new JobQueue(async () => {
+    throw new PixelError("disk-full", "The output drive is full", { log: "No space left on device" });
+  }, 1);
+  const failed = new Promise((resolve) => queue.onEvent((event) => event.type === "error" && resolve(event)));
+  queue.enqueue([{ id: "a", payload: {} }]);
+
+  assert.deepEqual(await failed, {
+    type: "error",
+    jobId: "a",
+    message: "The output drive is full",
+    kind: "failed",
+    code: "disk-full",
+    log: "No space left on device"
+  });
+});
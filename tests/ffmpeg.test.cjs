@@ -0,0 +1,49 @@
+const test = require("node:test");
+const assert = require("node:assert/strict");
+
+const { runFfmpeg } = require("../packages/ffmpeg/dist/index.js");
+
+// A Node process that prints nothing and never exits stands in for an ffmpeg hung on a corrupt file.
+test("runFfmpeg stops a child that stops making progress", async () => {
+  const started = Date.now();
+  await assert.rejects(
+    runFfmpeg(["-e", "process.stderr.write('frame=1\\r'); setInterval(() => {}, 1000);"], {
+      ffmpegBin: process.execPath,
+      stallTimeoutMs: 200
+    }),
+    (error) => error.name === "TimeoutError" && error.code === "timeout" && /no progress/.test(error.message)
+  );
+  assert.ok(Date.now() - started < 5000);
+});
+
+test("runFfmpeg reports a failing run with an error code and the full log", async () => {
+  const script = [
+    "for (let i = 0; i < 30; i += 1) console.error(`line ${i}`);",
+    "console.error('[mov,mp4,m4a @ 0x55d1c0] moov atom not found');",
+    "console.error('out_time_ms=0');",
+    "process.exit(1);"
+  ].join("\n");
+  const error = await runFfmpeg(["-e", script], { ffmpegBin: process.execPath }).catch((failure) => failure);
+
+  assert.equal(error.code, "corrupt-input");
+  assert.equal(error.message, "The input is corrupt or unreadable: moov atom not found");
+  // Every line, not just the tail, but without -progress output.
+  assert.match(error.log, /^line 0\n/);
+  assert.doesNotMatch(error.log, /out_time_ms/);
+
+  const missing = await runFfmpeg([], { ffmpegBin: "pixel-no-such-ffmpeg" }).catch((failure) => failure);
+  assert.equal(missing.code, "ffmpeg-missing");
+});
+
+test("runFfmpeg kills a stalled child that ignores SIGTERM", async () => {
+  const started = Date.now();
+  await assert.rejects(
+    runFfmpeg(["-e", "process.on('SIGTERM', () => {}); setInterval(() => {}, 1000);"], {
+      ffmpegBin: process.execPath,
+      stallTimeoutMs: 200
+    }),
+    (error) => error.code === "timeout"
+  );
+  // The stall, then the SIGTERM grace period, then SIGKILL.
+  assert.ok(Date.now() - started < 5000);
+});
@@ -0,0 +1,65 @@
+const test = require("node:test");
+const assert = require("node:assert/strict");
+const os = require("node:os");
+const path = require("node:path");
+const fs = require("node:fs/promises");
+
+const { countAnimationFrames, detectAssetTypeFromFile } = require("../packages/core/dist/index.js");
+
+// Minimal 1x1 GIF89a with a 2-color global table and `frames` image descriptors, each behind a GCE.
+function buildGif(frames) {
+  const header = Buffer.from([
+    ...Buffer.from("GIF89a", "latin1"),
+    1, 0, 1, 0, 0x80, 0, 0,
+    0, 0, 0, 255, 255, 255
+  ]);
+  const frame = Buffer.from([
+    0x21, 0xf9, 4, 0x04, 10, 0, 0, 0,
+    0x2c, 0, 0, 0, 0, 1, 0, 1, 0, 0,
+    2, 2, 0x4c, 0x01, 0
+  ]);
+  return Buffer.concat([header, ...Array.from({ length: frames }, () => frame), Buffer.from([0x3b])]);
+}
+
+function riffChunk(fourCc, body) {
+  const header = Buffer.alloc(8);
+  header.write(fourCc, 0, "latin1");
+  header.writeUInt32LE(body.length, 4);
+  return Buffer.concat([header, body, body.length % 2 === 1 ? Buffer.alloc(1) : Buffer.alloc(0)]);
+}
+
+function buildWebp(chunks) {
+  const body = Buffer.concat([Buffer.from("WEBP", "latin1"), ...chunks]);
+  return riffChunk("RIFF", body);
+}
+
+test("countAnimationFrames counts GIF image descriptors and WebP ANMF chunks", () => {
+  assert.equal(countAnimationFrames(buildGif(1)), 1);
+  assert.equal(countAnimationFrames(buildGif(3)), 3);
+
+  const still = buildWebp([riffChunk("VP8L", Buffer.alloc(5))]);
+  assert.equal(countAnimationFrames(still), 1);
+
+  const animated = buildWebp([
+    riffChunk("VP8X", Buffer.from([0x12, 0, 0, 0, 0, 0, 0, 0, 0, 0])),
+    riffChunk("ANIM", Buffer.alloc(6)),
+    riffChunk("ANMF", Buffer.alloc(17)),
+    riffChunk("ANMF", Buffer.alloc(17))
+  ]);
+  assert.equal(countAnimationFrames(animated), 2);
+  assert.equal(countAnimationFrames(Buffer.from("not an image")), 0);
+});
+
+test("detectAssetTypeFromFile classifies multi-frame GIFs as animations", async () => {
+  const root = await fs.mkdtemp(path.join(os.tmpdir(), "pixel-type-"));
+  const stillPath = path.join(root, "still.gif");
+  const animatedPath = path.join(root, "walk.gif");
+  await fs.writeFile(stillPath, buildGif(1));
+  await fs.writeFile(animatedPath, buildGif(4));
+
+  assert.equal(await detectAssetTypeFromFile(stillPath), "image");
+  assert.equal(await detectAssetTypeFromFile(animatedPath), "animation");
+  assert.equal(await detectAssetTypeFromFile(path.join(root, "clip.mp4")), "video");
+
+  await fs.rm(root, { recursive: true, force: true });
+});
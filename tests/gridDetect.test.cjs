@@ -0,0 +1,68 @@
+const test = require("node:test");
+const assert = require("node:assert/strict");
+
+const { createRgbaImage, defaultPixelConfig, detectPixelGrid, pixelateImage } = require("../packages/core/dist/index.js");
+
+// Deterministic LCG so the fixtures are the same on every run.
+function createRandom(seed) {
+  let state = seed;
+  return () => {
+    state = (state * 1103515245 + 12345) & 0x7fffffff;
+    return state / 0x7fffffff;
+  };
+}
+
+function randomArt(width, height, random) {
+  const image = createRgbaImage(width, height);
+  for (let offset = 0; offset < image.data.length; offset += 4) {
+    image.data.set([Math.floor(random() * 256), Math.floor(random() * 256), Math.floor(random() * 256), 255], offset);
+  }
+  return image;
+}
+
+// Nearest-neighbour upscale with `offset` extra source pixels before the first full cell, plus per-channel noise.
+function upscale(art, scale, offset, noise, random) {
+  const width = art.width * scale + offset;
+  const height = art.height * scale + offset;
+  const image = createRgbaImage(width, height);
+  for (let y = 0; y < height; y += 1) {
+    const sourceY = Math.max(0, Math.floor((y - offset) / scale));
+    for (let x = 0; x < width; x += 1) {
+      const sourceX = Math.max(0, Math.floor((x - offset) / scale));
+      const source = (sourceY * art.width + sourceX) * 4;
+      const target = (y * width + x) * 4;
+      for (let channel = 0; channel < 3; channel += 1) {
+        const value = art.data[source + channel] + Math.round((random() - 0.5) * 2 * noise);
+        image.data[target + channel] = Math.max(0, Math.min(255, value));
+      }
+      image.data[target + 3] = 255;
+    }
+  }
+  return image;
+}
+
+test("detectPixelGrid recovers the scale factor and phase of noisy upscaled art", () => {
+  const random = createRandom(7);
+
+  const crisp = detectPixelGrid(upscale(randomArt(24, 18, random), 4, 0, 0, random));
+  assert.deepEqual([crisp.scale, crisp.offsetX, crisp.offsetY], [4, 0, 0]);
+
+  const noisy = detectPixelGrid(upscale(randomArt(24, 18, random), 5, 3, 20, random));
+  assert.deepEqual([noisy.scale, noisy.offsetX, noisy.offsetY], [5, 3, 3]);
+});
+
+test("detectPixelGrid reports scale 1 for images without an integer upscale", () => {
+  const detected = detectPixelGrid(randomArt(96, 80, createRandom(3)));
+  assert.equal(detected.scale, 1);
+  assert.ok(detected.confidence < 1);
+});
+
+test("pixelateImage with grid auto restores upscaled art to 1:1", () => {
+  const random = createRandom(11);
+  const art = randomArt(16, 12, random);
+  const config = { ...defaultPixelConfig, grid: "auto", scale: 1, dither: "none", palette: 256 };
+  const result = pixelateImage(upscale(art, 6, 2, 0, random), config);
+
+  assert.deepEqual(result.gridSize, { width: 16, height: 12 });
+  assert.deepEqual([...result.image.data], [...art.data]);
+});
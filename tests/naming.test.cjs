@@ -0,0 +1,153 @@
+const test = require("node:test");
+const assert = require("node:assert/strict");
+const os = require("node:os");
+const path = require("node:path");
+const fs = require("node:fs/promises");
+
+const {
+  convertAsset,
+  createRgbaImage,
+  defaultPixelConfig,
+  encodePng,
+  findInputRoot,
+  planOutput,
+  removePartialOutputs,
+  resolveOutputCollision
+} = require("../packages/core/dist/index.js");
+
+const outputDir = path.resolve("/out");
+
+function plan(overrides, config = {}) {
+  return planOutput({
+    inputPath: path.resolve("/art/chars/hero.png"),
+    inputRoot: path.resolve("/art"),
+    outputDir,
+    name: "hero",
+    ext: "png",
+    config: { ...defaultPixelConfig, ...config },
+    now: new Date(2024, 2, 5),
+    ...overrides
+  });
+}
+
+test("planOutput renders template tokens and keeps the default names", () => {
+  assert.deepEqual(plan({}), { dir: outputDir, fileName: "hero_pixel.png", base: "hero" });
+
+  const templated = plan({}, { outputTemplate: "{date}/{name}_{grid}px_{palette}c.{ext}", grid: 16, palette: 8 });
+  assert.deepEqual(templated, { dir: path.join(outputDir, "2024-03-05"), fileName: "hero_16px_8c.png", base: "hero_16px_8c" });
+
+  assert.throws(() => plan({}, { outputTemplate: "{title}.{ext}" }), /Unknown output name token \{title\}/);
+  assert.throws(() => plan({}, { outputTemplate: "../{name}.{ext}" }), /outside the output directory/);
+  assert.throws(() => plan({}, { outputTemplate: "{name}_out" }), /without an extension/);
+});
+
+test("planOutput mirrors the input folder relative to its root", () => {
+  assert.equal(plan({}, { mirrorInputTree: true }).dir, path.join(outputDir, "chars"));
+  assert.equal(plan({}, { outputTemplate: "{relDir}/sprites/{name}.{ext}" }).dir, path.join(outputDir, "chars", "sprites"));
+  // Inputs passed directly have no folder to mirror.
+  assert.equal(plan({ inputRoot: undefined }, { mirrorInputTree: true }).dir, outputDir);
+
+  assert.equal(findInputRoot("/art/chars/hero.png", ["/art", "/art/chars/hero.png", "/other"]), path.resolve("/art"));
+  assert.equal(findInputRoot("/art/chars/hero.png", ["/art/chars/hero.png"]), path.resolve("/art/chars"));
+});
+
+test("resolveOutputCollision overwrites, skips or suffixes existing outputs", async () => {
+  const root = await fs.mkdtemp(path.join(os.tmpdir(), "pixel-naming-"));
+  const planned = planOutput({ inputPath: "hero.png", outputDir: root, name: "hero", ext: "png", config: defaultPixelConfig });
+  const target = (candidate) => path.join(candidate.dir, candidate.fileName);
+
+  assert.equal(await resolveOutputCollision(planned, "skip", target), planned);
+
+  await fs.writeFile(path.join(root, "hero_pixel.png"), "x");
+  await fs.writeFile(path.join(root, "hero_pixel_2.png"), "x");
+
+  assert.equal(await resolveOutputCollision(planned, "overwrite", target), planned);
+  assert.equal(await resolveOutputCollision(planned, "skip", target), null);
+  assert.deepEqual(await resolveOutputCollision(planned, "suffix", target), {
+    dir: root,
+    fileName: "hero_pixel_3.png",
+    base: "hero_3"
+  });
+});
+
+test("convertAsset keeps same-named inputs apart and honours the skip policy", async () => {
+  const root = await fs.mkdtemp(path.join(os.tmpdir(), "pixel-naming-"));
+  const inputRoot = path.join(root, "art");
+  const out = path.join(root, "out");
+  const png = encodePng(createRgbaImage(8, 8));
+  for (const folder of ["player", "enemy"]) {
+    await fs.mkdir(path.join(inputRoot, folder), { recursive: true });
+    await fs.writeFile(path.join(inputRoot, folder, "hero.png"), png);
+  }
+
+  const config = { ...defaultPixelConfig, grid: 2, mirrorInputTree: true, outputCollision: "skip" };
+  const convert = (folder) =>
+    convertAsset({ inputPath: path.join(inputRoot, folder, "hero.png"), inputRoot, type: "image", config, outputDir: out });
+
+  const first = await convert("player");
+  const second = await convert("enemy");
+  assert.equal(first.primaryPath, path.join(out, "player", "hero_pixel.png"));
+  assert.equal(second.primaryPath, path.join(out, "enemy", "hero_pixel.png"));
+  assert.equal(first.skipped, undefined);
+
+  const repeated = await convert("player");
+  assert.equal(repeated.skipped, true);
+  assert.equal(repeated.primaryPath, first.primaryPath);
+});
+
+test("concurrent jobs resolving to the same name don't both take it", async () => {
+  const root = await fs.mkdtemp(path.join(os.tmpdir(), "pixel-naming-"));
+  const png = encodePng(createRgbaImage(8, 8));
+  for (const folder of ["a", "b"]) {
+    await fs.mkdir(path.join(root, folder), { recursive: true });
+    await fs.writeFile(path.join(root, folder, "hero.png"), png);
+  }
+  const convertBoth = (outputCollision) => {
+    const config = { ...defaultPixelConfig, grid: 2, outputCollision };
+    const outputDir = path.join(root, `out-${outputCollision}`);
+    return Promise.all(
+      ["a", "b"].map((folder) =>
+        convertAsset({ inputPath: path.join(root, folder, "hero.png"), type: "image", config, outputDir })
+      )
+    );
+  };
+
+  const suffixed = await convertBoth("suffix");
+  assert.deepEqual(
+    suffixed.map((result) => path.basename(result.primaryPath)).sort(),
+    ["hero_pixel.png", "hero_pixel_2.png"]
+  );
+
+  const skipped = await convertBoth("skip");
+  assert.deepEqual(skipped.map((result) => result.skipped === true).sort(), [false, true]);
+
+  // Finished jobs give their names back; the file on disk is what keeps them taken now.
+  const again = await convertBoth("suffix");
+  assert.deepEqual(
+    again.map((result) => path.basename(result.primaryPath)).sort(),
+    ["hero_pixel_3.png", "hero_pixel_4.png"]
+  );
+});
+
+test("removePartialOutputs deletes only the interrupted job's recent files", async () => {
+  const root = await fs.mkdtemp(path.join(os.tmpdir(), "pixel-naming-"));
+  const old = new Date(Date.now() - 60_000);
+  const write = async (name, mtime) => {
+    await fs.mkdir(path.dirname(path.join(root, name)), { recursive: true });
+    await fs.writeFile(path.join(root, name), "x");
+    if (mtime) {
+      await fs.utimes(path.join(root, name), mtime, mtime);
+    }
+  };
+  await write("hero_pixel.png");
+  await write("hero_frames/hero_0001.png");
+  await write("hero_palette.gpl", old);
+  await write("hero_2_trim.json");
+  await write("hero_big_pixel.png");
+
+  const since = Date.now() - 1000;
+  const removed = await removePartialOutputs({ dir: root, fileName: "hero_pixel.png", base: "hero" }, since);
+  assert.deepEqual(removed.map((filePath) => path.basename(filePath)).sort(), ["hero_frames", "hero_pixel.png"]);
+  assert.deepEqual((await fs.readdir(root)).sort(), ["hero_2_trim.json", "hero_big_pixel.png", "hero_palette.gpl"]);
+});
+
@@ -0,0 +1,192 @@
+const test = require("node:test");
+const assert = require("node:assert/strict");
+const os = require("node:os");
+const path = require("node:path");
+const fs = require("node:fs/promises");
+
+const {
+  computeGridLayout,
+  convertAsset,
+  createRgbaImage,
+  decodePng,
+  defaultPixelConfig,
+  downsampleImage,
+  encodePng,
+  extractNativeSharedPalette,
+  pixelateImage
+} = require("../packages/core/dist/index.js");
+
+// 32x32 transparent canvas with an opaque 16x16 square split into a red and a blue half.
+function createSprite() {
+  const image = createRgbaImage(32, 32);
+  for (let y = 8; y < 24; y += 1) {
+    for (let x = 8; x < 24; x += 1) {
+      const offset = (y * 32 + x) * 4;
+      image.data[offset] = x < 16 ? 255 : 0;
+      image.data[offset + 2] = x < 16 ? 0 : 255;
+      image.data[offset + 3] = 255;
+    }
+  }
+  return image;
+}
+
+function pixelAt(image, x, y) {
+  const offset = (y * image.width + x) * 4;
+  return [...image.data.subarray(offset, offset + 4)];
+}
+
+test("encodePng output decodes back to the same pixels", () => {
+  const image = createSprite();
+  const decoded = decodePng(encodePng(image));
+
+  assert.equal(decoded.width, 32);
+  assert.equal(decoded.height, 32);
+  assert.deepEqual([...decoded.data], [...image.data]);
+});
+
+test("pixelateImage downsamples to the grid and upscales by the scale factor", () => {
+  const config = { ...defaultPixelConfig, grid: 4, scale: 2, dither: "none", palette: 256 };
+  const result = pixelateImage(createSprite(), config);
+
+  assert.equal(result.image.width, 16);
+  assert.equal(result.image.height, 16);
+  assert.deepEqual(result.gridSize, { width: 8, height: 8 });
+  assert.equal(result.trimBox, null);
+  assert.deepEqual(pixelAt(result.image, 0, 0), [0, 0, 0, 0]);
+  assert.deepEqual(pixelAt(result.image, 4, 4), [255, 0, 0, 255]);
+  assert.deepEqual(pixelAt(result.image, 11, 11), [0, 0, 255, 255]);
+  assert.equal(result.colors.length, 2);
+});
+
+test("pixelateImage trims to alpha bounds and draws an outer outline", () => {
+  const config = { ...defaultPixelConfig, grid: 4, scale: 1, dither: "none", palette: 256, trim: true, outline: true };
+  const result = pixelateImage(createSprite(), config);
+
+  assert.deepEqual(result.gridSize, { width: 10, height: 10 });
+  assert.deepEqual(result.trimBox, { x: 2, y: 2, width: 6, height: 6 });
+  assert.deepEqual(pixelAt(result.image, 0, 0), [0, 0, 0, 255]);
+  assert.deepEqual(pixelAt(result.image, 1, 1), [255, 0, 0, 255]);
+});
+
+test("pixelateImage maps every opaque pixel onto a fixed palette", () => {
+  const config = { ...defaultPixelConfig, grid: 4, scale: 1, dither: "none" };
+  const result = pixelateImage(createSprite(), config, [
+    { r: 200, g: 0, b: 0 },
+    { r: 0, g: 0, b: 200 }
+  ]);
+
+  assert.deepEqual(pixelAt(result.image, 2, 2), [200, 0, 0, 255]);
+  assert.deepEqual(pixelAt(result.image, 5, 5), [0, 0, 200, 255]);
+  assert.deepEqual(pixelAt(result.image, 0, 0), [0, 0, 0, 0]);
+});
+
+test("computeGridLayout drops partial cells after the offset and caps width/height targets at the source", () => {
+  assert.deepEqual(computeGridLayout(35, 20, { grid: 8, offsetX: 3, offsetY: 1 }), {
+    crop: { x: 3, y: 1, width: 32, height: 16 },
+    width: 4,
+    height: 2
+  });
+  assert.deepEqual(computeGridLayout(64, 32, { grid: 16, mode: "width" }), {
+    crop: { x: 0, y: 0, width: 64, height: 32 },
+    width: 16,
+    height: 8
+  });
+  assert.equal(computeGridLayout(64, 32, { grid: 100, mode: "height" }).height, 32);
+});
+
+test("downsampleImage mode keeps the dominant color and edge averages only the dominant side", () => {
+  // One 4x4 cell: six black pixels and ten slightly different light grays.
+  const cell = createRgbaImage(4, 4);
+  for (let index = 0; index < 16; index += 1) {
+    const value = index < 6 ? 0 : 194 + index;
+    cell.data.set([value, value, value, 255], index * 4);
+  }
+
+  assert.deepEqual(pixelAt(downsampleImage(cell, 1, 1, "mode"), 0, 0), [0, 0, 0, 255]);
+  assert.deepEqual(pixelAt(downsampleImage(cell, 1, 1, "edge"), 0, 0), [205, 205, 205, 255]);
+  assert.deepEqual(pixelAt(downsampleImage(cell, 1, 1, "area"), 0, 0), [128, 128, 128, 255]);
+});
+
+test("pixelateImage aligns cells to the grid offset", () => {
+  // Shifting the grid by 8 pixels makes the red/blue split land exactly on a cell boundary.
+  const config = { ...defaultPixelConfig, grid: 8, gridOffsetX: 8, gridOffsetY: 8, scale: 1, dither: "none", palette: 256 };
+  const result = pixelateImage(createSprite(), config);
+
+  assert.deepEqual(result.gridSize, { width: 3, height: 3 });
+  assert.deepEqual(pixelAt(result.image, 0, 0), [255, 0, 0, 255]);
+  assert.deepEqual(pixelAt(result.image, 1, 1), [0, 0, 255, 255]);
+  assert.deepEqual(pixelAt(result.image, 2, 2), [0, 0, 0, 0]);
+});
+
+test("pixelateImage quantizes to the palette size when the palette is exported", () => {
+  // 1024 distinct colors, one per pixel.
+  const image = createRgbaImage(32, 32);
+  for (let index = 0; index < 1024; index += 1) {
+    image.data.set([(index % 32) * 8, Math.floor(index / 32) * 8, (index % 7) * 36, 255], index * 4);
+  }
+  const config = { ...defaultPixelConfig, grid: 1, scale: 1, dither: "none", palette: 256 };
+
+  assert.equal(pixelateImage(image, config).colors.length, 1024);
+  assert.ok(pixelateImage(image, { ...config, exportPalette: true }).colors.length <= 256);
+});
+
+test("convertAsset writes the pixelated PNG, trim sidecar and palette files", async () => {
+  const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "pixel-native-"));
+  const inputPath = path.join(tempDir, "sprite.png");
+  const outputDir = path.join(tempDir, "out");
+  await fs.writeFile(inputPath, encodePng(createSprite()));
+
+  const progress = [];
+  const result = await convertAsset({
+    inputPath,
+    type: "image",
+    outputDir,
+    config: { ...defaultPixelConfig, grid: 4, scale: 3, trim: true, exportPalette: true },
+    onProgress: (value) => progress.push(value)
+  });
+
+  assert.equal(result.primaryPath, path.join(outputDir, "sprite_pixel.png"));
+  const output = decodePng(await fs.readFile(result.primaryPath));
+  assert.equal(output.width, 12);
+  assert.equal(output.height, 12);
+
+  const trim = JSON.parse(await fs.readFile(path.join(outputDir, "sprite_trim.json"), "utf8"));
+  assert.deepEqual(trim.sourceSize, { w: 24, h: 24 });
+  assert.deepEqual(trim.spriteSourceSize, { x: 6, y: 6, w: 12, h: 12 });
+
+  assert.ok(result.extras.includes(path.join(outputDir, "sprite_palette.gpl")));
+  assert.equal(progress.at(-1), 1);
+});
+
+test("extractNativeSharedPalette builds one palette from every PNG input without ffmpeg", async () => {
+  const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "pixel-native-palette-"));
+  const inputPath = path.join(tempDir, "sprite.png");
+  await fs.writeFile(inputPath, encodePng(createSprite()));
+  const config = { ...defaultPixelConfig, grid: 8, gridOffsetX: 8, gridOffsetY: 8 };
+
+  const colors = await extractNativeSharedPalette([{ inputPath, type: "image", config }], { maxColors: 16 });
+  assert.deepEqual(
+    colors.map((color) => [color.r, color.g, color.b]).sort(),
+    [
+      [0, 0, 255],
+      [255, 0, 0]
+    ]
+  );
+
+  await assert.rejects(
+    extractNativeSharedPalette([{ inputPath: "clip.mp4", type: "video", config }], { maxColors: 16 }),
+    (error) => error.code === "unsupported-codec"
+  );
+});
+
+test("convertAsset rejects non-image inputs", async () => {
+  await assert.rejects(
+    convertAsset({
+      inputPath: "clip.mp4",
+      type: "video",
+      outputDir: os.tmpdir(),
+      config: defaultPixelConfig
+    }),
+    /native engine/
+  );
+});
@@ -0,0 +1,125 @@
+const test = require("node:test");
+const assert = require("node:assert/strict");
+const os = require("node:os");
+const path = require("node:path");
+const fs = require("node:fs/promises");
+
+const {
+  addRgbaToHistogram,
+  formatGimpPalette,
+  formatHexPalette,
+  formatJascPalette,
+  medianCutPalette,
+  parsePaletteFile,
+  resolvePaletteSource
+} = require("../packages/core/dist/index.js");
+
+function buildAse(entries) {
+  const blocks = entries.map(({ name, model, values }) => {
+    const nameChars = [...name, "\0"];
+    const body = Buffer.alloc(2 + nameChars.length * 2 + 4 + values.length * 4 + 2);
+    let offset = body.writeUInt16BE(nameChars.length, 0);
+    for (const char of nameChars) {
+      offset = body.writeUInt16BE(char.charCodeAt(0), offset);
+    }
+    offset += body.write(model, offset, "latin1");
+    for (const value of values) {
+      offset = body.writeFloatBE(value, offset);
+    }
+    body.writeUInt16BE(2, offset);
+
+    const header = Buffer.alloc(6);
+    header.writeUInt16BE(0x0001, 0);
+    header.writeUInt32BE(body.length, 2);
+    return Buffer.concat([header, body]);
+  });
+
+  const header = Buffer.alloc(12);
+  header.write("ASEF", 0, "latin1");
+  header.writeUInt16BE(1, 4);
+  header.writeUInt32BE(blocks.length, 8);
+  return Buffer.concat([header, ...blocks]);
+}
+
+test("parsePaletteFile reads hex, gpl and JASC palettes", () => {
+  const hex = parsePaletteFile("a.hex", Buffer.from("ff0000\n#00FF00\n\n0000ff\n"));
+  assert.deepEqual(hex, [
+    { r: 255, g: 0, b: 0 },
+    { r: 0, g: 255, b: 0 },
+    { r: 0, g: 0, b: 255 }
+  ]);
+
+  const gpl = parsePaletteFile(
+    "a.gpl",
+    Buffer.from("GIMP Palette\nName: Test\nColumns: 2\n#\n  0   0   0\tBlack\n255 255 255\tWhite\n")
+  );
+  assert.deepEqual(gpl, [
+    { r: 0, g: 0, b: 0 },
+    { r: 255, g: 255, b: 255 }
+  ]);
+
+  const pal = parsePaletteFile("a.pal", Buffer.from("JASC-PAL\r\n0100\r\n2\r\n10 20 30\r\n40 50 60\r\n"));
+  assert.deepEqual(pal, [
+    { r: 10, g: 20, b: 30 },
+    { r: 40, g: 50, b: 60 }
+  ]);
+
+  assert.throws(() => parsePaletteFile("a.pal", Buffer.from("JASC-PAL\n0100\n3\n1 2 3\n")), /expected 3 colors/);
+  assert.throws(() => parsePaletteFile("a.gpl", Buffer.from("0 0 0\n")), /GIMP Palette/);
+});
+
+test("parsePaletteFile reads RGB and gray entries from .ase", () => {
+  const ase = buildAse([
+    { name: "Red", model: "RGB ", values: [1, 0, 0] },
+    { name: "Mid", model: "Gray", values: [0.5] }
+  ]);
+
+  assert.deepEqual(parsePaletteFile("swatches.ase", ase), [
+    { r: 255, g: 0, b: 0 },
+    { r: 128, g: 128, b: 128 }
+  ]);
+});
+
+test("resolvePaletteSource dedupes colors and loads presets", async () => {
+  const root = await fs.mkdtemp(path.join(os.tmpdir(), "pixel-palette-"));
+  const palettePath = path.join(root, "dupes.hex");
+  await fs.writeFile(palettePath, "000000\n000000\nffffff\n", "utf8");
+
+  const fromFile = await resolvePaletteSource({ type: "file", path: palettePath });
+  assert.equal(fromFile.length, 2);
+
+  const gameboy = await resolvePaletteSource({ type: "preset", preset: "gameboy-dmg" });
+  assert.equal(gameboy.length, 4);
+
+  await assert.rejects(resolvePaletteSource({ type: "preset", preset: "nope" }), /Unknown palette preset/);
+});
+
+test("medianCutPalette reduces a histogram to the requested size", () => {
+  const histogram = new Map();
+  const data = Buffer.from([
+    255, 0, 0, 255,
+    250, 5, 0, 255,
+    0, 0, 255, 255,
+    0, 5, 250, 255,
+    0, 0, 0, 0
+  ]);
+  addRgbaToHistogram(histogram, data);
+
+  assert.equal(histogram.size, 4);
+  const palette = medianCutPalette(histogram, 2);
+  assert.equal(palette.length, 2);
+  assert.ok(palette.some((color) => color.r > 200 && color.b < 10));
+  assert.ok(palette.some((color) => color.b > 200 && color.r < 10));
+  assert.deepEqual(medianCutPalette(histogram, 8).length, 4);
+});
+
+test("palette formatters round-trip through the parsers", () => {
+  const colors = [
+    { r: 1, g: 2, b: 3 },
+    { r: 250, g: 128, b: 0 }
+  ];
+
+  assert.deepEqual(parsePaletteFile("a.hex", Buffer.from(formatHexPalette(colors))), colors);
+  assert.deepEqual(parsePaletteFile("a.gpl", Buffer.from(formatGimpPalette(colors, "test"))), colors);
+  assert.deepEqual(parsePaletteFile("a.pal", Buffer.from(formatJascPalette(colors))), colors);
+});
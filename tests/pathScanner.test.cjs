@@ -4,7 +4,13 @@ const os = require("node:os");
 const path = require("node:path");
 const fs = require("node:fs/promises");
 
-const { expandInputPaths } = require("../packages/core/dist/index.js");
+const {
+  detectAssetType,
+  expandInputPaths,
+  listSequenceFrames,
+  resolveSequenceMember,
+  sequenceBaseName
+} = require("../packages/core/dist/index.js");
 
 test("expandInputPaths returns only supported assets recursively", async () => {
   const root = await fs.mkdtemp(path.join(os.tmpdir(), "pixel-scan-"));
@@ -26,3 +32,53 @@ test("expandInputPaths returns only supported assets recursively", async () => {
   assert.equal(files.includes(supportedB), true);
   assert.equal(files.includes(unsupported), false);
 });
+
+test("expandInputPaths collapses numbered PNG runs into one sequence pattern", async () => {
+  const root = await fs.mkdtemp(path.join(os.tmpdir(), "pixel-seq-"));
+
+  const names = ["walk_0001.png", "walk_0002.png", "walk_0003.png", "idle1.png", "idle2.png", "idle3.png", "icon_01.png"];
+  for (const name of names) {
+    await fs.writeFile(path.join(root, name), "x", "utf8");
+  }
+  // A gap breaks the run, so these stay separate files.
+  await fs.writeFile(path.join(root, "jump_01.png"), "x", "utf8");
+  await fs.writeFile(path.join(root, "jump_03.png"), "x", "utf8");
+
+  const files = await expandInputPaths([root]);
+  assert.deepEqual(files.map((file) => path.basename(file)).sort(), [
+    "icon_01.png",
+    "idle%d.png",
+    "jump_01.png",
+    "jump_03.png",
+    "walk_%04d.png"
+  ]);
+
+  const ungrouped = await expandInputPaths([root], { groupSequences: false });
+  assert.equal(ungrouped.length, 9);
+
+  const walk = path.join(root, "walk_%04d.png");
+  assert.equal(detectAssetType(walk), "sequence");
+  assert.equal(sequenceBaseName(walk), "walk");
+  assert.equal(await resolveSequenceMember(path.join(root, "walk_0002.png")), walk);
+  assert.equal(await resolveSequenceMember(path.join(root, "icon_01.png")), path.join(root, "icon_01.png"));
+
+  const sequence = await listSequenceFrames(walk);
+  assert.equal(sequence.startNumber, 1);
+  assert.deepEqual(sequence.frames.map((frame) => path.basename(frame)), ["walk_0001.png", "walk_0002.png", "walk_0003.png"]);
+
+  await fs.rm(root, { recursive: true, force: true });
+});
+
+test("two numbered files only form a sequence when zero-padded", async () => {
+  const root = await fs.mkdtemp(path.join(os.tmpdir(), "pixel-seq-pair-"));
+
+  for (const name of ["icon1.png", "icon2.png", "blink_01.png", "blink_02.png"]) {
+    await fs.writeFile(path.join(root, name), "x", "utf8");
+  }
+
+  const files = await expandInputPaths([root]);
+  assert.deepEqual(files.map((file) => path.basename(file)).sort(), ["blink_%02d.png", "icon1.png", "icon2.png"]);
+  assert.equal(await resolveSequenceMember(path.join(root, "icon2.png")), path.join(root, "icon2.png"));
+
+  await fs.rm(root, { recursive: true, force: true });
+});
@@ -0,0 +1,130 @@
+const test = require("node:test");
+const assert = require("node:assert/strict");
+const path = require("node:path");
+
+const { formatProjectConfig, matchesGlob, parseProjectConfig, parseYaml, resolveProjectJob } = require("../packages/core/dist/index.js");
+
+const root = path.resolve("/project");
+const configPath = path.join(root, "pixel.config.yaml");
+
+test("parseYaml reads the block and flow subset used by config files", () => {
+  const source = [
+    "# project settings",
+    "defaults:",
+    "  grid: 16",
+    "  outlineColor: \"#102030\" # quoted, or it would be a comment",
+    "rules:",
+    "- match: [\"*.gif\", 'ui/**']",
+    "  config: { trim: true, palette: 8 }",
+    "  output: ui",
+    "- match:",
+    "    - chars/*.png",
+    "  preset: null",
+    "names: [a, 'b, c']"
+  ].join("\n");
+
+  assert.deepEqual(parseYaml(source), {
+    defaults: { grid: 16, outlineColor: "#102030" },
+    rules: [
+      { match: ["*.gif", "ui/**"], config: { trim: true, palette: 8 }, output: "ui" },
+      { match: ["chars/*.png"], preset: null }
+    ],
+    names: ["a", "b, c"]
+  });
+  assert.throws(() => parseYaml("a: 1\n   b: 2"), /YAML line 2: unexpected indentation/);
+  assert.throws(() => parseYaml("base: &anchor 1"), /YAML line 1: unsupported YAML syntax/);
+});
+
+test("parseProjectConfig names the offending field", () => {
+  const parse = (config) => parseProjectConfig(JSON.stringify(config), path.join(root, "pixel.config.json"));
+
+  assert.throws(() => parse({ defaults: { grid: 0 } }), /^Error: pixel\.config\.json: defaults\.grid must be "auto" or an integer/);
+  assert.throws(() => parse({ defaults: { gird: 8 } }), /defaults\.gird is not a config option/);
+  assert.throws(() => parse({ rules: [{ match: "*.png", preset: "missing" }] }), /rules\[0\]\.preset "missing" is not defined/);
+  assert.throws(() => parse({ rules: [{ match: "*.png", output: "../elsewhere" }] }), /rules\[0\]\.output must be a folder inside/);
+  assert.throws(() => parse({ presets: { a: { dither: "ordered" } } }), /presets\.a\.dither must be one of none\|bayer\|floyd/);
+  assert.throws(() => parseProjectConfig("{ grid: 1 }", path.join(root, "pixel.config.json")), /pixel\.config\.json: /);
+});
+
+test("resolveProjectJob layers defaults, presets and matching rules in order", () => {
+  const project = parseProjectConfig(
+    [
+      "defaults: { grid: 16, palette: 32 }",
+      "presets:",
+      "  sprites: { grid: 8, trim: true, paletteSource: { type: file, path: palettes/game.gpl } }",
+      "rules:",
+      "  - match: characters/**/*.png",
+      "    preset: sprites",
+      "    output: sprites",
+      "  - match: '*_hd.png'",
+      "    config: { grid: 4 }"
+    ].join("\n"),
+    configPath
+  );
+
+  assert.deepEqual(resolveProjectJob(project, path.join(root, "backgrounds", "sky.png")), {
+    config: { grid: 16, palette: 32 },
+    outputSubdir: ""
+  });
+
+  const hero = resolveProjectJob(project, path.join(root, "characters", "heroes", "knight_hd.png"));
+  assert.deepEqual(hero, {
+    config: { grid: 4, palette: 32, trim: true, paletteSource: { type: "file", path: path.join(root, "palettes", "game.gpl") } },
+    outputSubdir: "sprites"
+  });
+
+  // Inputs outside the project folder only get the defaults.
+  assert.deepEqual(resolveProjectJob(project, path.resolve("/elsewhere/characters/a.png")).outputSubdir, "");
+
+  const written = JSON.parse(formatProjectConfig({ ...project, defaults: { grid: 32, palette: 32 } }, { grid: 32 }));
+  assert.deepEqual(written.defaults, { palette: 32 });
+  assert.equal(written.presets.sprites.paletteSource.path, "palettes/game.gpl");
+});
+
+test("a --preset layers between the defaults and the rules, and presets-only files round-trip", () => {
+  const project = parseProjectConfig(
+    [
+      "defaults: { grid: 16 }",
+      "presets:",
+      "  chunky: { grid: 32, palette: 8 }",
+      "rules:",
+      "  - match: '*_hd.png'",
+      "    config: { grid: 4 }"
+    ].join("\n"),
+    configPath
+  );
+
+  assert.deepEqual(resolveProjectJob(project, path.join(root, "a.png"), "chunky").config, { grid: 32, palette: 8 });
+  assert.deepEqual(resolveProjectJob(project, path.join(root, "a_hd.png"), "chunky").config, { grid: 4, palette: 8 });
+  assert.throws(() => resolveProjectJob(project, path.join(root, "a.png"), "tiny"), /Unknown preset "tiny"; defined presets: chunky/);
+
+  const exported = formatProjectConfig({ rootDir: root, defaults: {}, presets: { tiny: { grid: 8, palette: 16 } }, rules: [] }, { palette: 16 });
+  assert.deepEqual(JSON.parse(exported), { presets: { tiny: { grid: 8 } } });
+  const reloaded = parseProjectConfig(exported, path.join(root, "pixel-presets.json"));
+  assert.deepEqual(resolveProjectJob(reloaded, path.join(root, "a.png"), "tiny").config, { grid: 8 });
+});
+
+test("matchesGlob handles folders, file names and alternatives", () => {
+  assert.equal(matchesGlob("characters/**/*.png", "characters/a.png"), true);
+  assert.equal(matchesGlob("characters/**/*.png", "characters/x/y/a.png"), true);
+  assert.equal(matchesGlob("characters/*.png", "characters/x/a.png"), false);
+  assert.equal(matchesGlob("*.{gif,webp}", "ui/anim/spin.webp"), true);
+  assert.equal(matchesGlob("./ui/**", "ui/icons/a.png"), true);
+  assert.equal(matchesGlob("ui/*", "other/ui/a.png"), false);
+});
+
+test("brace alternatives may use wildcards", () => {
+  assert.equal(matchesGlob("sprites/{*.png,*.gif}", "sprites/hero.gif"), true);
+  assert.equal(matchesGlob("sprites/{*.png,*.gif}", "sprites/hero.webp"), false);
+  assert.equal(matchesGlob("{ui/**/icon?.png,logo.*}", "ui/a/b/icon1.png"), true);
+  // Nested groups: the outer group's commas aren't the inner one's.
+  assert.equal(matchesGlob("hero.{png,{gif,webp}}", "hero.webp"), true);
+  assert.equal(matchesGlob("hero.{png,{gif,webp}}", "hero.gif"), true);
+  assert.equal(matchesGlob("hero.{png,{gif,webp}}", "hero.{gif"), false);
+
+  const project = parseProjectConfig(
+    JSON.stringify({ rules: [{ match: "sprites/{*.png,*.gif}", config: { grid: 8 } }] }),
+    path.join(root, "pixel.config.json")
+  );
+  assert.equal(resolveProjectJob(project, path.join(root, "sprites", "hero.png")).config.grid, 8);
+});
@@ -1,8 +1,11 @@
 const test = require("node:test");
 const assert = require("node:assert/strict");
 const { setTimeout: delay } = require("node:timers/promises");
+const os = require("node:os");
+const path = require("node:path");
+const fs = require("node:fs/promises");
 
-const { JobQueue } = require("../packages/queue/dist/index.js");
+const { JobQueue, QueueJournal } = require("../packages/queue/dist/index.js");
 
 test("JobQueue respects concurrency", async () => {
   let active = 0;
@@ -68,3 +71,333 @@ test("JobQueue can cancel pending job", async () => {
   assert.equal(events.some((event) => event.type === "canceled" && event.jobId === "b"), true);
   assert.equal(events.some((event) => event.type === "done" && event.jobId === "b"), false);
 });
+
+test("JobQueue reports jobs that call reportSkipped as skipped", async () => {
+  const queue = new JobQueue(async ({ payload, reportSkipped }) => {
+    if (payload.cached) {
+      reportSkipped();
+    }
+    return payload.name;
+  }, 1);
+
+  const events = [];
+  const completion = new Promise((resolve) => {
+    queue.onEvent((event) => {
+      events.push(event);
+      if (event.type === "idle") {
+        resolve();
+      }
+    });
+  });
+
+  queue.enqueue([
+    { id: "a", payload: { name: "a", cached: true } },
+    { id: "b", payload: { name: "b", cached: false } }
+  ]);
+
+  await completion;
+
+  assert.deepEqual(
+    events.filter((event) => event.type === "done" || event.type === "skipped"),
+    [
+      { type: "skipped", jobId: "a", result: "a" },
+      { type: "done", jobId: "b", result: "b" }
+    ]
+  );
+});
+
+function collectUntilIdle(queue) {
+  const events = [];
+  const idle = new Promise((resolve) => {
+    queue.onEvent((event) => {
+      events.push(event);
+      if (event.type === "idle") {
+        resolve(events);
+      }
+    });
+  });
+  return { events, idle };
+}
+
+test("JobQueue runs higher priorities first and follows reorder()", async () => {
+  const started = [];
+  const queue = new JobQueue(async ({ id }) => {
+    started.push(id);
+    await delay(5);
+    return id;
+  }, 1);
+
+  queue.pause();
+  queue.enqueue([
+    { id: "a", payload: {} },
+    { id: "b", payload: {} },
+    { id: "c", payload: {} },
+    { id: "d", payload: {} },
+    { id: "urgent", payload: {}, priority: 5 }
+  ]);
+  queue.reorder(["d", "b", "a"]);
+  queue.setPriority("c", 1);
+  // A paused queue counts as idle, so listen only from here.
+  const { idle } = collectUntilIdle(queue);
+  queue.resume();
+  await idle;
+
+  assert.deepEqual(started, ["urgent", "c", "d", "b", "a"]);
+});
+
+test("JobQueue pauses the queue or single jobs and restarts paused running jobs on resume", async () => {
+  const runs = [];
+  const queue = new JobQueue(async ({ id, signal }) => {
+    runs.push(id);
+    await delay(id === "long" ? 200 : 5, undefined, { signal });
+    return id;
+  }, 1);
+  const events = [];
+  queue.onEvent((event) => events.push(event));
+
+  queue.enqueue([
+    { id: "long", payload: {} },
+    { id: "next", payload: {} }
+  ]);
+  queue.pause("long");
+  await delay(20);
+  assert.deepEqual(events.filter((event) => event.type === "paused"), [{ type: "paused", jobId: "long" }]);
+  assert.equal(events.some((event) => event.type === "canceled"), false);
+
+  // "next" ran while "long" was held; pausing the queue keeps "long" from starting even once resumed itself.
+  queue.pause();
+  queue.resume("long");
+  await delay(20);
+  assert.deepEqual(runs, ["long", "next"]);
+  assert.equal(queue.isPaused(), true);
+
+  const done = new Promise((resolve) => queue.onEvent((event) => event.type === "done" && event.jobId === "long" && resolve()));
+  queue.resume();
+  await done;
+  assert.deepEqual(runs, ["long", "next", "long"]);
+});
+
+test("JobQueue retries failed jobs with exponential backoff", async () => {
+  const attempts = [];
+  const queue = new JobQueue(
+    async ({ payload, attempt }) => {
+      attempts.push(`${payload.name}#${attempt}`);
+      if (payload.name === "flaky" && attempt < 3) {
+        throw new Error(`flaky failure ${attempt}`);
+      }
+      if (payload.name === "broken") {
+        throw new Error("corrupt input");
+      }
+      return payload.name;
+    },
+    1,
+    { retry: { retries: 2, delayMs: 10, shouldRetry: (error) => !/corrupt/.test(error.message) } }
+  );
+  const { events, idle } = collectUntilIdle(queue);
+
+  queue.enqueue([
+    { id: "a", payload: { name: "flaky" } },
+    { id: "b", payload: { name: "broken" } }
+  ]);
+  await idle;
+
+  assert.deepEqual(
+    events.filter((event) => event.type === "retrying"),
+    [
+      { type: "retrying", jobId: "a", attempt: 2, delayMs: 10, message: "flaky failure 1" },
+      { type: "retrying", jobId: "a", attempt: 3, delayMs: 20, message: "flaky failure 2" }
+    ]
+  );
+  assert.deepEqual(events.find((event) => event.type === "done"), { type: "done", jobId: "a", result: "flaky" });
+  assert.deepEqual(events.find((event) => event.type === "error"), { type: "error", jobId: "b", message: "corrupt input", kind: "failed", code: "failed" });
+  assert.deepEqual(attempts.filter((entry) => entry.startsWith("broken")), ["broken#1"]);
+});
+
+test("JobQueue stops jobs past their timeout and reports them as timeouts", async () => {
+  const attempts = [];
+  const queue = new JobQueue(
+    async ({ id, signal, attempt }) => {
+      attempts.push(`${id}#${attempt}`);
+      if (id === "stalled") {
+        const error = new Error("ffmpeg made no progress");
+        error.name = "TimeoutError";
+        throw error;
+      }
+      await delay(id === "hung" ? 1000 : 5, undefined, { signal });
+      return id;
+    },
+    2,
+    { timeoutMs: 30, retry: { retries: 1, delayMs: 5 } }
+  );
+  const { events, idle } = collectUntilIdle(queue);
+
+  queue.enqueue([
+    { id: "hung", payload: {} },
+    { id: "stalled", payload: {} },
+    { id: "patient", payload: {}, timeoutMs: 0 }
+  ]);
+  await idle;
+
+  assert.deepEqual(
+    events.filter((event) => event.type === "error"),
+    [
+      { type: "error", jobId: "stalled", message: "ffmpeg made no progress", kind: "timeout", code: "timeout" },
+      { type: "error", jobId: "hung", message: "Job timed out after 0.03s", kind: "timeout", code: "timeout" }
+    ]
+  );
+  assert.deepEqual(events.find((event) => event.type === "done"), { type: "done", jobId: "patient", result: "patient" });
+  // Timeouts skip the retry policy unless retryTimeouts is set.
+  assert.deepEqual(attempts.sort(), ["hung#1", "patient#1", "stalled#1"]);
+
+  queue.setRetryPolicy({ retries: 1, delayMs: 5, retryTimeouts: true });
+  const retried = collectUntilIdle(queue);
+  queue.enqueue([{ id: "hung", payload: {} }]);
+  await retried.idle;
+  assert.deepEqual(
+    retried.events.filter((event) => event.type === "retrying" || event.type === "error").map((event) => event.type),
+    ["retrying", "error"]
+  );
+});
+
+test("JobQueue keeps running costs within the budget and per-kind limits", async () => {
+  const active = new Map();
+  let peakCost = 0;
+  let peakVideos = 0;
+  let hugeRanAlone = false;
+  const started = [];
+  const queue = new JobQueue(
+    async ({ id, payload }) => {
+      started.push(id);
+      active.set(id, payload);
+      if (id === "huge") {
+        hugeRanAlone = active.size === 1;
+      } else {
+        peakCost = Math.max(peakCost, [...active.values()].reduce((total, job) => total + job.cost, 0));
+      }
+      peakVideos = Math.max(peakVideos, [...active.values()].filter((job) => job.kind === "video").length);
+      await delay(payload.ms);
+      active.delete(id);
+      return id;
+    },
+    8,
+    { budget: 5, kindLimits: { video: 1 } }
+  );
+  const { idle } = collectUntilIdle(queue);
+
+  const video = (id) => ({ id, payload: { cost: 3, kind: "video", ms: 30 }, cost: 3, kind: "video" });
+  const image = (id) => ({ id, payload: { cost: 1, kind: "image", ms: 5 }, cost: 1, kind: "image" });
+  const huge = { id: "huge", payload: { cost: 9, kind: "sequence", ms: 5 }, cost: 9, kind: "sequence" };
+  queue.enqueue([video("v1"), video("v2"), image("i1"), image("i2"), image("i3"), huge]);
+  await idle;
+
+  assert.equal(peakVideos, 1);
+  assert.ok(peakCost <= 5, `peak cost ${peakCost}`);
+  // "huge" is over budget on its own, so it ran alone instead of never.
+  assert.equal(hugeRanAlone, true);
+  // The images didn't wait behind the second video.
+  assert.ok(started.indexOf("i3") < started.indexOf("v2"), started.join(","));
+});
+
+test("JobQueue keeps budget for a waiting video instead of letting later images take it", async () => {
+  const started = [];
+  const queue = new JobQueue(
+    async ({ id, payload }) => {
+      started.push(id);
+      await delay(payload.ms);
+      return id;
+    },
+    8,
+    { budget: 4 }
+  );
+  const { idle } = collectUntilIdle(queue);
+
+  const image = (id) => ({ id, payload: { ms: 20 }, cost: 1, kind: "image" });
+  queue.enqueue([image("i1"), image("i2"), { id: "video", payload: { ms: 5 }, cost: 3, kind: "video" }]);
+  // Images keep arriving while the video waits; each would fit in the budget the video is waiting for.
+  for (let index = 0; index < 6; index += 1) {
+    await delay(5);
+    queue.enqueue([image(`late${index}`)]);
+  }
+  await idle;
+
+  assert.deepEqual(started.slice(0, 3), ["i1", "i2", "video"]);
+});
+
+function deadPid() {
+  return require("node:child_process").spawnSync(process.execPath, ["-e", ""]).pid;
+}
+
+// Rewrites the journal as if the process that wrote it had exited.
+async function markOwnerDead(journalPath) {
+  const file = JSON.parse(await fs.readFile(journalPath, "utf8"));
+  const pid = deadPid();
+  file.entries = file.entries.map((entry) => ({ ...entry, pid }));
+  await fs.writeFile(journalPath, JSON.stringify(file));
+}
+
+test("QueueJournal keeps unfinished jobs across a restart", async () => {
+  const root = await fs.mkdtemp(path.join(os.tmpdir(), "pixel-queue-"));
+  const journalPath = path.join(root, "journal.json");
+  const journal = await QueueJournal.load(journalPath);
+  let release;
+  const blocked = new Promise((resolve) => {
+    release = resolve;
+  });
+
+  const queue = new JobQueue(async ({ id, payload }) => {
+    await journal.setMeta(id, { output: `${payload.name}.png` });
+    if (payload.name === "slow") {
+      await blocked;
+    }
+    return payload.name;
+  }, 1);
+  journal.attach(queue);
+
+  const items = [
+    { id: "a", payload: { name: "fast" } },
+    { id: "b", payload: { name: "slow" } },
+    { id: "c", payload: { name: "waiting" } }
+  ];
+  await journal.add(items);
+  queue.enqueue(items);
+  await delay(20);
+  await journal.flush();
+
+  // As if the process died now: "a" finished, "b" was running, "c" never started.
+  await markOwnerDead(journalPath);
+  const reloaded = await QueueJournal.load(journalPath);
+  assert.deepEqual(
+    reloaded.pending().map((entry) => [entry.id, entry.state]),
+    [["b", "processing"], ["c", "queued"]]
+  );
+  assert.deepEqual(reloaded.interrupted()[0].meta, { output: "slow.png" });
+  assert.equal(typeof reloaded.interrupted()[0].startedAt, "number");
+
+  release();
+  await new Promise((resolve) => queue.onEvent((event) => event.type === "idle" && resolve()));
+  await journal.flush();
+  await assert.rejects(fs.access(journalPath));
+});
+
+
+test("QueueJournal leaves entries of live processes alone and merges with them on save", async () => {
+  const root = await fs.mkdtemp(path.join(os.tmpdir(), "pixel-queue-"));
+  const journalPath = path.join(root, "journal.json");
+  const entry = (id, pid) => ({ id, payload: { name: id }, state: "processing", pid, startedAt: Date.now() });
+  await fs.writeFile(
+    journalPath,
+    JSON.stringify({ version: 1, entries: [entry("running-elsewhere", process.ppid), entry("crashed", deadPid())] })
+  );
+
+  const journal = await QueueJournal.load(journalPath);
+  assert.deepEqual(journal.interrupted().map((item) => item.id), ["crashed"]);
+  assert.deepEqual(journal.pending().map((item) => item.id), ["crashed"]);
+
+  await journal.add([{ id: "mine", payload: { name: "mine" } }]);
+  await journal.remove(["crashed"]);
+  const saved = JSON.parse(await fs.readFile(journalPath, "utf8")).entries;
+  assert.deepEqual(
+    saved.map((item) => [item.id, item.pid]),
+    [["running-elsewhere", process.ppid], ["mine", process.pid]]
+  );
+});
@@ -0,0 +1,107 @@
+const test = require("node:test");
+const assert = require("node:assert/strict");
+const os = require("node:os");
+const path = require("node:path");
+const fs = require("node:fs/promises");
+
+const {
+  composeSpritesheet,
+  computeSpritesheetLayout,
+  createRgbaImage,
+  decodePng,
+  writeSpritesheetFiles
+} = require("../packages/core/dist/index.js");
+
+function solidFrame(width, height, rgba) {
+  const image = createRgbaImage(width, height);
+  for (let offset = 0; offset < image.data.length; offset += 4) {
+    image.data.set(rgba, offset);
+  }
+  return image;
+}
+
+function pixelAt(image, x, y) {
+  const offset = (y * image.width + x) * 4;
+  return [...image.data.subarray(offset, offset + 4)];
+}
+
+test("computeSpritesheetLayout picks a near-square grid unless columns or rows are given", () => {
+  const frame = { width: 8, height: 4 };
+
+  assert.deepEqual(
+    [computeSpritesheetLayout(10, frame).columns, computeSpritesheetLayout(10, frame).rows],
+    [4, 3]
+  );
+  assert.equal(computeSpritesheetLayout(10, frame, { columns: 5 }).rows, 2);
+  assert.equal(computeSpritesheetLayout(10, frame, { rows: 1 }).columns, 10);
+
+  const layout = computeSpritesheetLayout(3, frame, { columns: 3, padding: 2, extrude: 1 });
+  assert.equal(layout.width, 2 + 3 * (8 + 2 + 2));
+  assert.equal(layout.height, 2 + 1 * (4 + 2 + 2));
+});
+
+test("composeSpritesheet pads cells and extrudes frame edges", () => {
+  const red = [255, 0, 0, 255];
+  const blue = [0, 0, 255, 255];
+  const { image, layout } = composeSpritesheet([solidFrame(2, 2, red), solidFrame(2, 2, blue)], {
+    padding: 1,
+    extrude: 1
+  });
+
+  assert.equal(layout.columns, 2);
+  assert.deepEqual(pixelAt(image, 0, 0), [0, 0, 0, 0]);
+  // First cell: extrusion ring at x=1, frame pixels at x=2..3, extrusion again at x=4.
+  assert.deepEqual(pixelAt(image, 1, 1), red);
+  assert.deepEqual(pixelAt(image, 2, 2), red);
+  assert.deepEqual(pixelAt(image, 4, 4), red);
+  assert.deepEqual(pixelAt(image, 5, 2), [0, 0, 0, 0]);
+  assert.deepEqual(pixelAt(image, 6, 2), blue);
+  assert.deepEqual(pixelAt(image, 7, 2), blue);
+});
+
+test("writeSpritesheetFiles emits per-frame rects and durations in every requested format", async () => {
+  const outputDir = await fs.mkdtemp(path.join(os.tmpdir(), "pixel-sheet-"));
+  const frames = [solidFrame(4, 4, [1, 2, 3, 255]), solidFrame(4, 4, [4, 5, 6, 255]), solidFrame(4, 4, [7, 8, 9, 255])];
+  const { image, layout } = composeSpritesheet(frames, { columns: 2, padding: 1 });
+
+  const written = await writeSpritesheetFiles(image, layout, {
+    outputDir,
+    base: "walk",
+    frameCount: frames.length,
+    durationMs: 83,
+    formats: ["texturepacker-hash", "texturepacker-array", "aseprite", "csv"]
+  });
+
+  assert.deepEqual(
+    written.map((filePath) => path.basename(filePath)),
+    [
+      "walk_spritesheet.png",
+      "walk_spritesheet.json",
+      "walk_spritesheet.array.json",
+      "walk_spritesheet.aseprite.json",
+      "walk_spritesheet.csv"
+    ]
+  );
+
+  const sheet = decodePng(await fs.readFile(written[0]));
+  assert.equal(sheet.width, 11);
+  assert.equal(sheet.height, 11);
+
+  const hash = JSON.parse(await fs.readFile(written[1], "utf8"));
+  assert.deepEqual(hash.frames["walk_0002.png"].frame, { x: 1, y: 6, w: 4, h: 4 });
+  assert.equal(hash.meta.image, "walk_spritesheet.png");
+
+  const array = JSON.parse(await fs.readFile(written[2], "utf8"));
+  assert.equal(array.frames[1].filename, "walk_0001.png");
+  assert.deepEqual(array.frames[1].frame, { x: 6, y: 1, w: 4, h: 4 });
+
+  const aseprite = JSON.parse(await fs.readFile(written[3], "utf8"));
+  assert.equal(aseprite.frames["walk_0000.aseprite"].duration, 83);
+  assert.deepEqual(aseprite.meta.size, { w: 11, h: 11 });
+
+  const csv = (await fs.readFile(written[4], "utf8")).trim().split("\n");
+  assert.equal(csv.length, 4);
+  assert.equal(csv[3], "walk_0002,1,6,4,4,83");
+
+  await fs.rm(outputDir, { recursive: true, force: true });
+});
@@ -0,0 +1,81 @@
+const test = require("node:test");
+const assert = require("node:assert/strict");
+
+const { createRgbaImage, vectorizeImage } = require("../packages/core/dist/index.js");
+
+function setPixel(image, x, y, rgba) {
+  image.data.set(rgba, (y * image.width + x) * 4);
+}
+
+// Repaints the rects/paths of a vectorized SVG onto a blank grid so it can be compared pixel for pixel.
+function repaint(svg, width, height) {
+  const image = createRgbaImage(width, height);
+  const paint = (fill, opacity, x, y, w, h) => {
+    const rgba = [
+      Number.parseInt(fill.slice(1, 3), 16),
+      Number.parseInt(fill.slice(3, 5), 16),
+      Number.parseInt(fill.slice(5, 7), 16),
+      Math.round(Number(opacity ?? 1) * 255)
+    ];
+    for (let row = y; row < y + h; row += 1) {
+      for (let col = x; col < x + w; col += 1) {
+        const offset = (row * width + col) * 4;
+        assert.equal(image.data[offset + 3], 0, `pixel ${col},${row} painted twice`);
+        image.data.set(rgba, offset);
+      }
+    }
+  };
+
+  for (const match of svg.matchAll(/<rect x="(\d+)" y="(\d+)" width="(\d+)" height="(\d+)" fill="(#[0-9a-f]{6})"(?: fill-opacity="([\d.]+)")?\/>/g)) {
+    paint(match[5], match[6], Number(match[1]), Number(match[2]), Number(match[3]), Number(match[4]));
+  }
+  for (const match of svg.matchAll(/<path fill="(#[0-9a-f]{6})"(?: fill-opacity="([\d.]+)")? d="([^"]+)"\/>/g)) {
+    for (const rect of match[3].matchAll(/M(\d+) (\d+)h(\d+)v(\d+)h-\d+z/g)) {
+      paint(match[1], match[2], Number(rect[1]), Number(rect[2]), Number(rect[3]), Number(rect[4]));
+    }
+  }
+  return image;
+}
+
+test("vectorizeImage sizes the SVG by scale and keeps the viewBox on the grid", () => {
+  const image = createRgbaImage(3, 2);
+  setPixel(image, 0, 0, [255, 0, 0, 255]);
+
+  const svg = vectorizeImage(image, 4);
+  assert.match(svg, /width="12" height="8" viewBox="0 0 3 2"/);
+  assert.match(svg, /<rect x="0" y="0" width="1" height="1" fill="#ff0000"\/>/);
+});
+
+test("vectorizeImage merges same-colored runs into one element per color", () => {
+  const image = createRgbaImage(4, 4);
+  for (let y = 0; y < 4; y += 1) {
+    for (let x = 0; x < 4; x += 1) {
+      setPixel(image, x, y, x < 2 ? [0, 0, 255, 255] : [0, 255, 0, 255]);
+    }
+  }
+  setPixel(image, 3, 3, [0, 0, 255, 255]);
+
+  const svg = vectorizeImage(image);
+  assert.equal((svg.match(/<(rect|path) /g) ?? []).length, 2);
+  assert.match(svg, /<path fill="#0000ff" d="M0 0h2v4h-2zM3 3h1v1h-1z"\/>/);
+});
+
+test("vectorizeImage reproduces every pixel and leaves transparency unpainted", () => {
+  const image = createRgbaImage(16, 12);
+  const colors = [
+    [0, 0, 0, 0],
+    [20, 40, 60, 255],
+    [200, 100, 0, 255],
+    [90, 90, 90, 128]
+  ];
+  let seed = 7;
+  for (let y = 0; y < image.height; y += 1) {
+    for (let x = 0; x < image.width; x += 1) {
+      seed = (seed * 1103515245 + 12345) % 2147483648;
+      setPixel(image, x, y, colors[seed % colors.length]);
+    }
+  }
+
+  const repainted = repaint(vectorizeImage(image, 3), image.width, image.height);
+  assert.deepEqual([...repainted.data], [...image.data]);
+});